@@ -235,8 +235,11 @@ function saveAgent(config: AgentConfig, content: string): string {
 /**
  * Adds or updates a tenant in the .tenants.json file.
  * 
- * The tenants file is used by the MCP server to validate incoming
- * requests and route tickets to the correct Autotask queue.
+ * The tenants file is loaded by the MCP server (`src/tenants.ts`), which
+ * binds each session to the tenant named in the agent's `X-Tenant-Id`
+ * header and routes its tickets to the tenant's Autotask queue. Fields
+ * added by hand (`token`, `allowedCompanyIds`, `ticketTransitions`) are
+ * kept on update.
  * 
  * @function addToTenants
  * @param {string} companyId - Autotask company ID
@@ -246,7 +249,7 @@ function saveAgent(config: AgentConfig, content: string): string {
 function addToTenants(companyId: string, queueId: string, companyName: string): void {
 	const tenantsPath = join(process.cwd(), '.tenants.json')
 	
-	let tenants: Array<{ companyId: number; queueId: number; name: string }> = []
+	let tenants: Array<{ companyId: number; queueId: number; name: string; token?: string; allowedCompanyIds?: number[]; ticketTransitions?: string[] }> = []
 	
 	if (existsSync(tenantsPath)) {
 		const content = readFileSync(tenantsPath, 'utf8')
@@ -4,9 +4,14 @@
  * resource (technician) information for call transfers.
  * @module api/autotask
  */
-import https from 'https'
-import { config } from '../config.js'
+import { autotaskClient, AutotaskApiError } from './autotaskClient.js'
+import { metadataService } from './autotaskMetadata.js'
+import { query } from './queryBuilder.js'
 import { logger } from '../utils/logger.js'
+import { phoneNumbersMatch, toE164 } from '../utils/phoneNumber.js'
+
+export { AutotaskApiError } from './autotaskClient.js'
+export type { AutotaskQueryResponse } from './autotaskClient.js'
 
 /**
  * Parameters for creating a new Autotask ticket.
@@ -30,10 +35,10 @@ export interface CreateTicketParams {
 	preferredContactMethod: 'phone' | 'email'
 	/** Brief title/summary for the ticket */
 	title: string
-	/** Ticket type: '1' for Service Request, '2' for Incident */
-	ticketType: '1' | '2'
-	/** Priority: '4'=P1 Critical, '1'=P2 High, '2'=P3 Medium, '5'=P4 Low */
-	priority: '4' | '1' | '2' | '5'
+	/** Ticket type picklist value (resolve labels with the metadata service) */
+	ticketType: number
+	/** Priority picklist value (resolve labels with the metadata service) */
+	priority: number
 	/** External reference ID (e.g., Retell call ID) */
 	externalID: string
 }
@@ -67,23 +72,22 @@ export interface TicketDetails {
 	status: number
 	/** Ticket priority code */
 	priority: number
+	/** Company the ticket belongs to */
+	companyID?: number
+	/** Contact who reported the ticket */
+	contactID?: number
+	/** External reference ID (e.g., Retell call ID) */
+	externalID?: string
+	/** When the ticket was created (ISO 8601) */
+	createDate?: string
+	/** When the ticket last changed (ISO 8601) */
+	lastActivityDate?: string
 }
 
 /**
- * Generic response wrapper for Autotask query endpoints.
- * @typeParam T - The type of items returned
+ * Status value Autotask reserves for completed tickets.
  */
-export interface AutotaskQueryResponse<T> {
-	/** Array of returned items */
-	items: T[]
-	/** Pagination information */
-	pageDetails?: {
-		/** Total count of matching items */
-		count: number
-		/** Number of items in this response */
-		requestCount: number
-	}
-}
+export const TICKET_STATUS_COMPLETE = 5
 
 /**
  * Resource (technician/employee) information from Autotask.
@@ -101,7 +105,7 @@ export interface ResourceDetails {
 	/** Office phone number */
 	officePhone?: string
 	/** Mobile phone number (preferred for transfers) */
-	officePhone?: string
+	mobilePhone?: string
 	/** Home phone number */
 	homePhone?: string
 	/** Office phone extension */
@@ -136,160 +140,43 @@ export interface ContactDetails {
 	lastName: string
 	/** Primary email address */
 	emailAddress?: string
+	/** Second email address */
+	emailAddress2?: string
+	/** Third email address */
+	emailAddress3?: string
 	/** Primary phone number */
 	phone?: string
 	/** Office phone number */
 	officePhone?: string
+	/** Mobile phone number */
+	mobilePhone?: string
+	/** Alternate phone number */
+	alternatePhone?: string
 	/** Whether the contact is active */
 	isActive: boolean
 }
 
 /**
- * Simple rate limiter to prevent overwhelming the Autotask API.
- * Enforces a minimum interval between consecutive API calls.
- * 
- * @internal
- */
-class RateLimiter {
-	/** Timestamp of the last API call */
-	private lastCallTime = 0
-	/** Minimum milliseconds between API calls */
-	private readonly minInterval = 10
-
-	/**
-	 * Waits if necessary to respect the rate limit before making an API call.
-	 * Resolves when it's safe to make the next call.
-	 */
-	async waitForTurn(): Promise<void> {
-		const now = Date.now()
-		const timeSinceLastCall = now - this.lastCallTime
-
-		if (timeSinceLastCall < this.minInterval) {
-			const waitTime = this.minInterval - timeSinceLastCall
-			logger.debug({ waitTime }, 'Rate limiting Autotask API call')
-			await new Promise((resolve) => setTimeout(resolve, waitTime))
-		}
-
-		this.lastCallTime = Date.now()
-	}
-}
-
-/**
- * Singleton rate limiter instance for all Autotask API calls.
- * @internal
- */
-const rateLimiter = new RateLimiter()
-
-/**
- * Cached default queue ID to avoid repeated API calls.
- * @private
- */
-let cachedDefaultQueueId: number | null = null
-
-/**
- * Field information from Autotask entity metadata.
- * @internal
- */
-interface FieldInfo {
-	/** Field name (e.g., 'queueID') */
-	name: string
-	/** Whether field is a picklist */
-	isPickList: boolean
-	/** Available options for picklist fields */
-	picklistValues?: Array<{
-		value: string
-		label: string
-		isDefaultValue: boolean
-		isActive: boolean
-	}>
-}
-
-/**
- * Retrieves the default queue ID from Autotask Ticket field metadata.
- * Caches the result to avoid repeated API calls.
+ * Retrieves the default queue ID from cached Autotask Ticket field metadata.
  * 
  * @returns The default queue ID, or null if not found
  */
 export async function getDefaultQueueId(): Promise<number | null> {
-	if (cachedDefaultQueueId !== null) {
-		logger.debug({ cachedDefaultQueueId }, 'Using cached default queue ID')
-		return cachedDefaultQueueId
-	}
+	try {
+		const defaultQueue = await metadataService.getDefault('Tickets', 'queueID')
 
-	await rateLimiter.waitForTurn()
-	logger.info('Fetching Ticket field info for default queue ID')
-
-	const options = {
-		hostname: config.autotask.hostname,
-		path: '/ATServicesRest/V1.0/Tickets/entityInformation/fields',
-		method: 'GET',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
+		if (!defaultQueue) {
+			logger.warn('No default queue found in queueID picklist values')
+			return null
 		}
-	}
-
-	return new Promise<number | null>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode }, 'Get field info response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					logger.warn('Empty response from field info API')
-					return resolve(null)
-				}
-
-				try {
-					const data = JSON.parse(responseData)
-
-					if (res.statusCode !== 200) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Get field info API error')
-						return resolve(null)
-					}
-
-					const fields: FieldInfo[] = data.fields || []
-					const queueField = fields.find((f: FieldInfo) => f.name === 'queueID')
-
-					if (!queueField || !queueField.picklistValues) {
-						logger.warn('queueID field not found or has no picklist values')
-						return resolve(null)
-					}
-
-					const defaultQueue = queueField.picklistValues.find(
-						(pv) => pv.isDefaultValue && pv.isActive
-					)
-
-					if (defaultQueue) {
-						cachedDefaultQueueId = parseInt(defaultQueue.value)
-						logger.info({ defaultQueueId: cachedDefaultQueueId, label: defaultQueue.label }, 'Found default queue ID')
-						return resolve(cachedDefaultQueueId)
-					}
-
-					logger.warn('No default queue found in picklist values')
-					return resolve(null)
-				} catch (e) {
-					logger.error({ error: e }, 'Failed to parse field info response')
-					return resolve(null)
-				}
-			})
-		})
-
-		req.on('error', (error) => {
-			logger.error({ error }, 'Get field info API request error')
-			resolve(null)
-		})
 
-		req.end()
-	})
+		const defaultQueueId = parseInt(defaultQueue.value)
+		logger.debug({ defaultQueueId, label: defaultQueue.label }, 'Resolved default queue ID')
+		return defaultQueueId
+	} catch (error) {
+		logger.error({ error }, 'Failed to load Ticket field info for default queue ID')
+		return null
+	}
 }
 
 /**
@@ -300,7 +187,7 @@ export async function getDefaultQueueId(): Promise<number | null> {
  * 
  * @param params - Ticket creation parameters
  * @returns The created ticket response with itemId
- * @throws Error if the API returns an error status or invalid response
+ * @throws AutotaskApiError if the API returns an error status or invalid response
  * 
  * @example
  * ```typescript
@@ -312,8 +199,8 @@ export async function getDefaultQueueId(): Promise<number | null> {
  *   issueDescription: 'Cannot print',
  *   preferredContactMethod: 'phone',
  *   title: 'Printer Issue',
- *   ticketType: '2',
- *   priority: '2',
+ *   ticketType: 2,
+ *   priority: 2,
  *   externalID: 'retell-abc123'
  * })
  * console.log(`Created ticket: ${result.itemId}`)
@@ -329,23 +216,32 @@ export async function createTicket(params: CreateTicketParams): Promise<Autotask
 		}
 	}
 
-	// Rate limit API calls
-	await rateLimiter.waitForTurn()
-
 	logger.info({ externalID: params.externalID, companyId: params.companyId, contactId: params.contactId, queueId }, 'Calling Autotask API')
 
 	// Build description with preferred contact method
-	const description = `${params.issueDescription.trim()}
+	let description = `${params.issueDescription.trim()}
 
 Preferred Contact Method: ${params.preferredContactMethod}`
 
+	// Without a linked contact, the caller's details are only kept in the description
+	if (!params.contactId) {
+		const callerDetails = [
+			params.contactName && `Name: ${params.contactName}`,
+			params.contactPhone && `Phone: ${params.contactPhone}`,
+			params.contactEmail && `Email: ${params.contactEmail}`
+		].filter(Boolean)
+		if (callerDetails.length > 0) {
+			description += `\n\nCaller (no Autotask contact):\n${callerDetails.join('\n')}`
+		}
+	}
+
 	const ticketPayload: Record<string, unknown> = {
 		companyID: params.companyId,
 		title: params.title.trim(),
 		description: description,
-		priority: parseInt(params.priority),
+		priority: params.priority,
 		status: 1,
-		ticketType: parseInt(params.ticketType),
+		ticketType: params.ticketType,
 		source: 2 // Phone
 	}
 
@@ -367,68 +263,30 @@ Preferred Contact Method: ${params.preferredContactMethod}`
 		ticketPayload.externalID = params.externalID
 	}
 
-	const postData = JSON.stringify(ticketPayload)
-
-	const options = {
-		hostname: config.autotask.hostname,
-		path: '/ATServicesRest/V1.0/Tickets/',
-		method: 'POST',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'Content-Type': 'application/json',
-			'Content-Length': Buffer.byteLength(postData),
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
-	}
+	const data = await autotaskClient.post<AutotaskTicketResponse>('/Tickets/', ticketPayload)
 
-	return new Promise<AutotaskTicketResponse>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode }, 'Autotask API response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					return reject(new Error(`Autotask returned empty response (HTTP ${res.statusCode})`))
-				}
-
-				try {
-					const data = JSON.parse(responseData)
-
-					if (res.statusCode !== 200 && res.statusCode !== 201) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Autotask API error')
-						return reject(
-							new Error(`Failed to create ticket: ${res.statusCode} - ${JSON.stringify(data)}`)
-						)
-					}
-
-					logger.info({ ticketId: data.itemId || data.item?.id }, 'Ticket created successfully')
-					resolve(data)
-				} catch (e) {
-					logger.error(
-						{ error: e, response: responseData.substring(0, 200) },
-						'Invalid JSON from Autotask'
-					)
-					reject(new Error(`Invalid JSON response: ${responseData.substring(0, 200)}`))
-				}
-			})
-		})
-
-		req.on('error', (error) => {
-			logger.error({ error }, 'Autotask API request error')
-			reject(error)
-		})
+	logger.info({ ticketId: data.itemId || data.item?.id }, 'Ticket created successfully')
+	return data
+}
 
-		req.write(postData)
-		req.end()
-	})
+/**
+ * Picks the fields exposed as {@link TicketDetails} from a raw Ticket entity.
+ * @internal
+ */
+function toTicketDetails(ticket: TicketDetails): TicketDetails {
+	return {
+		id: ticket.id,
+		ticketNumber: ticket.ticketNumber,
+		assignedResourceID: ticket.assignedResourceID,
+		title: ticket.title,
+		status: ticket.status,
+		priority: ticket.priority,
+		companyID: ticket.companyID,
+		contactID: ticket.contactID,
+		externalID: ticket.externalID,
+		createDate: ticket.createDate,
+		lastActivityDate: ticket.lastActivityDate
+	}
 }
 
 /**
@@ -438,7 +296,7 @@ Preferred Contact Method: ${params.preferredContactMethod}`
  * 
  * @param ticketId - The Autotask ticket ID to retrieve
  * @returns Ticket details including number and assignment
- * @throws Error if the ticket is not found or API returns an error
+ * @throws AutotaskApiError if the ticket is not found or API returns an error
  * 
  * @example
  * ```typescript
@@ -447,80 +305,302 @@ Preferred Contact Method: ${params.preferredContactMethod}`
  * ```
  */
 export async function getTicketById(ticketId: string): Promise<TicketDetails> {
-	// Rate limit API calls
-	await rateLimiter.waitForTurn()
-
 	logger.info({ ticketId }, 'Getting ticket details from Autotask')
 
-	const options = {
-		hostname: config.autotask.hostname,
-		path: `/ATServicesRest/V1.0/Tickets/${ticketId}`,
-		method: 'GET',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
+	const data = await autotaskClient.get<{ item?: TicketDetails }>(`/Tickets/${ticketId}`)
+
+	const ticket = data.item
+	if (!ticket) {
+		throw new AutotaskApiError('No ticket data returned')
 	}
 
-	return new Promise<TicketDetails>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode, ticketId }, 'Get ticket response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					return reject(new Error(`Autotask returned empty response (HTTP ${res.statusCode})`))
-				}
-
-				try {
-					const data = JSON.parse(responseData)
-
-					if (res.statusCode !== 200) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Get ticket API error')
-						return reject(
-							new Error(`Failed to get ticket: ${res.statusCode} - ${JSON.stringify(data)}`)
-						)
-					}
-
-					const ticket = data.item
-					if (!ticket) {
-						return reject(new Error('No ticket data returned'))
-					}
-
-					logger.info({ ticketId, ticketNumber: ticket.ticketNumber }, 'Ticket retrieved successfully')
-					resolve({
-						id: ticket.id,
-						ticketNumber: ticket.ticketNumber,
-						assignedResourceID: ticket.assignedResourceID,
-						title: ticket.title,
-						status: ticket.status,
-						priority: ticket.priority
-					})
-				} catch (e) {
-					logger.error(
-						{ error: e, response: responseData.substring(0, 200) },
-						'Invalid JSON from Autotask'
-					)
-					reject(new Error(`Invalid JSON response: ${responseData.substring(0, 200)}`))
-				}
-			})
-		})
+	logger.info({ ticketId, ticketNumber: ticket.ticketNumber }, 'Ticket retrieved successfully')
+	return toTicketDetails(ticket)
+}
 
-		req.on('error', (error) => {
-			logger.error({ error }, 'Get ticket API request error')
-			reject(error)
-		})
+/**
+ * Updates fields on an existing ticket using PATCH.
+ * Only the fields provided are changed.
+ * 
+ * @param ticketId - The ticket to update
+ * @param fields - Ticket fields to set (e.g., `{ status: 8 }`)
+ * @throws AutotaskApiError if the API returns an error
+ * 
+ * @example
+ * ```typescript
+ * await updateTicket('123456', { status: 19 })
+ * ```
+ */
+export async function updateTicket(ticketId: string, fields: Record<string, unknown>): Promise<void> {
+	logger.info({ ticketId, fields }, 'Updating ticket in Autotask')
+
+	await autotaskClient.patch('/Tickets', { ...fields, id: Number(ticketId) }, { expectBody: false })
+	logger.info({ ticketId }, 'Ticket updated successfully')
+}
 
-		req.end()
+/**
+ * Adds a note to a ticket.
+ * 
+ * @param ticketId - The ticket to add the note to
+ * @param params - Note content and visibility
+ * @param params.title - Note title
+ * @param params.description - Note body
+ * @param params.noteType - TicketNotes noteType picklist value
+ * @param params.publish - TicketNotes publish picklist value (who can see the note)
+ * @returns The created note's ID
+ * @throws AutotaskApiError if the API returns an error
+ * 
+ * @example
+ * ```typescript
+ * const noteId = await createTicketNote('123456', {
+ *   title: 'Caller update',
+ *   description: 'Printer now shows error E5',
+ *   noteType: 1,
+ *   publish: 1
+ * })
+ * ```
+ */
+export async function createTicketNote(ticketId: string, params: {
+	title: string
+	description: string
+	noteType: number
+	publish: number
+}): Promise<string> {
+	logger.info({ ticketId, title: params.title, noteType: params.noteType, publish: params.publish }, 'Creating ticket note in Autotask')
+
+	const data = await autotaskClient.post<AutotaskTicketResponse>(`/Tickets/${ticketId}/Notes`, {
+		ticketID: Number(ticketId),
+		title: params.title.trim(),
+		description: params.description.trim(),
+		noteType: params.noteType,
+		publish: params.publish
 	})
+
+	const noteId = String(data.itemId || data.item?.id)
+	logger.info({ ticketId, noteId }, 'Ticket note created successfully')
+	return noteId
+}
+
+/**
+ * Finds a ticket by its human-readable ticket number.
+ * 
+ * @param ticketNumber - Canonical ticket number (e.g., 'T20240101.0001')
+ * @returns The ticket, or null if none has that number
+ * @throws AutotaskApiError if the API returns an error
+ * 
+ * @example
+ * ```typescript
+ * const ticket = await findTicketByNumber('T20240101.0001')
+ * ```
+ */
+export async function findTicketByNumber(ticketNumber: string): Promise<TicketDetails | null> {
+	logger.info({ ticketNumber }, 'Searching for ticket by number')
+
+	const tickets = await query<TicketDetails>('Tickets').eq('ticketNumber', ticketNumber).execute({ maxPages: 1 })
+	if (tickets.length === 0) {
+		return null
+	}
+
+	logger.info({ ticketNumber, ticketId: tickets[0].id }, 'Found ticket by number')
+	return toTicketDetails(tickets[0])
+}
+
+/**
+ * Retrieves a ticket only if it belongs to the caller.
+ * 
+ * Missing tickets and tickets of other companies or contacts both return
+ * null, so a caller cannot tell whether someone else's ticket exists.
+ * 
+ * @param ticketId - The ticket to retrieve
+ * @param companyId - Verified caller's company
+ * @param contactId - Verified caller's contact; when given, the ticket must have been reported by them
+ * @returns The ticket, or null if it is missing or not the caller's
+ * @throws AutotaskApiError if the API returns an error
+ */
+export async function getTicketForCaller(
+	ticketId: string,
+	companyId: number,
+	contactId?: number
+): Promise<TicketDetails | null> {
+	const data = await autotaskClient.get<{ item?: TicketDetails | null }>(`/Tickets/${ticketId}`)
+	const ticket = data.item
+	if (!ticket) {
+		return null
+	}
+
+	if (Number(ticket.companyID) !== companyId || (contactId !== undefined && Number(ticket.contactID) !== contactId)) {
+		logger.warn(
+			{ ticketId, companyId, contactId, ticketCompanyId: ticket.companyID, ticketContactId: ticket.contactID },
+			'Ticket does not belong to the caller'
+		)
+		return null
+	}
+
+	return toTicketDetails(ticket)
+}
+
+/**
+ * Outcome of waiting for a ticket to be auto-assigned.
+ */
+export interface AssignmentPollResult {
+	/** Latest ticket details retrieved, or null if every poll failed */
+	ticket: TicketDetails | null
+	/** True if no resource was assigned before the deadline */
+	pending: boolean
+	/** Number of polls made */
+	attempts: number
+}
+
+/**
+ * Polls a ticket until workflow rules assign a resource or the deadline passes.
+ * 
+ * Waits according to `scheduleMs` between polls (repeating the last delay)
+ * and returns as soon as `assignedResourceID` is set. Failed polls are logged
+ * and retried on the next tick.
+ * 
+ * @param ticketId - The ticket to poll
+ * @param options - Poll schedule and overall deadline
+ * @param options.scheduleMs - Delays before each poll, in milliseconds
+ * @param options.deadlineMs - Maximum total wait, in milliseconds
+ * @returns The latest ticket details and whether assignment is still pending
+ * 
+ * @example
+ * ```typescript
+ * const { ticket, pending } = await waitForTicketAssignment('123', { scheduleMs: [250, 500], deadlineMs: 3000 })
+ * if (pending) {
+ *   // offer a callback instead of a transfer
+ * }
+ * ```
+ */
+export async function waitForTicketAssignment(
+	ticketId: string,
+	options: { scheduleMs: number[]; deadlineMs: number }
+): Promise<AssignmentPollResult> {
+	const startedAt = Date.now()
+	const deadline = startedAt + options.deadlineMs
+	let ticket: TicketDetails | null = null
+	let attempts = 0
+
+	while (Date.now() < deadline) {
+		const delay = options.scheduleMs[Math.min(attempts, options.scheduleMs.length - 1)] ?? 0
+		await new Promise((resolve) => setTimeout(resolve, Math.min(delay, Math.max(0, deadline - Date.now()))))
+		attempts++
+
+		try {
+			ticket = await getTicketById(ticketId)
+		} catch (error) {
+			logger.warn({ error, ticketId, attempts }, 'Assignment poll failed')
+			continue
+		}
+
+		if (ticket.assignedResourceID) {
+			logger.info(
+				{ ticketId, attempts, elapsedMs: Date.now() - startedAt, assignedResourceID: ticket.assignedResourceID },
+				'Ticket assigned'
+			)
+			return { ticket, pending: false, attempts }
+		}
+	}
+
+	logger.info({ ticketId, attempts, elapsedMs: Date.now() - startedAt }, 'Ticket assignment still pending at deadline')
+	return { ticket, pending: true, attempts }
+}
+
+/**
+ * Finds the most recent ticket carrying a given external ID.
+ * 
+ * Used to make ticket creation idempotent when a tool call is retried:
+ * a ticket already created for the same Retell call (and contact) is
+ * returned instead of creating a duplicate.
+ * 
+ * @param externalID - External reference ID (e.g., Retell call ID)
+ * @param contactId - Optional contact the ticket must belong to
+ * @returns The matching ticket, or null if none exists
+ * @throws AutotaskApiError if the API returns an error
+ */
+export async function findTicketByExternalId(externalID: string, contactId?: number): Promise<TicketDetails | null> {
+	logger.info({ externalID, contactId }, 'Searching for ticket by external ID')
+
+	const search = query<TicketDetails>('Tickets').eq('externalID', externalID)
+	if (contactId) {
+		search.eq('contactID', contactId)
+	}
+
+	const tickets = await search.execute({ maxPages: 1 })
+	if (tickets.length === 0) {
+		return null
+	}
+
+	// Prefer the newest ticket if the external ID was somehow reused
+	const ticket = tickets.reduce((latest, t) => (Number(t.id) > Number(latest.id) ? t : latest))
+	logger.info({ externalID, ticketId: ticket.id, ticketNumber: ticket.ticketNumber }, 'Found existing ticket for external ID')
+	return toTicketDetails(ticket)
+}
+
+/**
+ * Records per page fetched when listing open tickets.
+ * @internal
+ */
+const OPEN_TICKET_PAGE_SIZE = 500
+
+/**
+ * Pages fetched when listing open tickets.
+ * @internal
+ */
+const OPEN_TICKET_PAGES = 2
+
+/**
+ * Lists a contact's tickets that are not complete, most recently active first.
+ * 
+ * Only the first pages of tickets are fetched and sorted; if they are all
+ * full, `total` is counted separately so it stays accurate for contacts with
+ * more tickets.
+ * 
+ * @param companyId - Company the tickets must belong to
+ * @param contactId - Contact who reported the tickets
+ * @param limit - Maximum number of tickets to return
+ * @returns The open tickets and how many there are in total
+ * @throws AutotaskApiError if the API returns an error
+ * 
+ * @example
+ * ```typescript
+ * const { tickets, total } = await listOpenTickets(1001, 2001, 5)
+ * ```
+ */
+export async function listOpenTickets(
+	companyId: number,
+	contactId: number,
+	limit: number
+): Promise<{ tickets: TicketDetails[]; total: number }> {
+	logger.info({ companyId, contactId, limit }, 'Listing open tickets for contact')
+
+	const search = query<TicketDetails>('Tickets')
+		.eq('companyID', companyId)
+		.eq('contactID', contactId)
+		.where('status', 'noteq', TICKET_STATUS_COMPLETE)
+		.includeFields(
+			'id',
+			'ticketNumber',
+			'title',
+			'status',
+			'priority',
+			'assignedResourceID',
+			'companyID',
+			'contactID',
+			'createDate',
+			'lastActivityDate'
+		)
+		.maxRecords(OPEN_TICKET_PAGE_SIZE)
+	const tickets = await search.execute({ maxPages: OPEN_TICKET_PAGES })
+	// A full set of pages may have left tickets behind, so count them all
+	const total =
+		tickets.length < OPEN_TICKET_PAGE_SIZE * OPEN_TICKET_PAGES ? tickets.length : await search.count()
+
+	const activity = (t: TicketDetails) => Date.parse(t.lastActivityDate ?? t.createDate ?? '') || 0
+	const sorted = tickets.sort((a, b) => activity(b) - activity(a))
+
+	logger.info({ companyId, contactId, fetched: sorted.length, total }, 'Open tickets retrieved')
+	return { tickets: sorted.slice(0, limit).map(toTicketDetails), total }
 }
 
 /**
@@ -531,95 +611,39 @@ export async function getTicketById(ticketId: string): Promise<TicketDetails> {
  * 
  * @param resourceId - The Autotask resource ID to retrieve
  * @returns Resource details including phone numbers
- * @throws Error if the resource is not found or API returns an error
+ * @throws AutotaskApiError if the resource is not found or API returns an error
  * 
  * @example
  * ```typescript
  * const resource = await getResourceById('789')
- * const transferPhone = resource.officePhone || resource.officePhone
+ * const transferPhone = resource.mobilePhone || resource.officePhone
  * console.log(`Transfer to ${resource.firstName} at ${transferPhone}`)
  * ```
  */
 export async function getResourceById(resourceId: string): Promise<ResourceDetails> {
-	// Rate limit API calls
-	await rateLimiter.waitForTurn()
-
 	logger.info({ resourceId }, 'Getting resource details from Autotask')
 
-	const options = {
-		hostname: config.autotask.hostname,
-		path: `/ATServicesRest/V1.0/Resources/${resourceId}`,
-		method: 'GET',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
-	}
-
-	return new Promise<ResourceDetails>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode, resourceId }, 'Get resource response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					return reject(new Error(`Autotask returned empty response (HTTP ${res.statusCode})`))
-				}
-
-				try {
-					const data = JSON.parse(responseData)
-
-					if (res.statusCode !== 200) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Get resource API error')
-						return reject(
-							new Error(`Failed to get resource: ${res.statusCode} - ${JSON.stringify(data)}`)
-						)
-					}
-
-					const resource = data.item
-					if (!resource) {
-						return reject(new Error('No resource data returned'))
-					}
-
-					logger.info(
-						{ resourceId, name: `${resource.firstName} ${resource.lastName}` },
-						'Resource retrieved successfully'
-					)
-					resolve({
-						id: resource.id,
-						firstName: resource.firstName,
-						lastName: resource.lastName,
-						email: resource.email,
-						officePhone: resource.officePhone,
-						officePhone: resource.officePhone,
-						homePhone: resource.homePhone,
-						officeExtension: resource.officeExtension
-					})
-				} catch (e) {
-					logger.error(
-						{ error: e, response: responseData.substring(0, 200) },
-						'Invalid JSON from Autotask'
-					)
-					reject(new Error(`Invalid JSON response: ${responseData.substring(0, 200)}`))
-				}
-			})
-		})
+	const data = await autotaskClient.get<{ item?: ResourceDetails }>(`/Resources/${resourceId}`)
 
-		req.on('error', (error) => {
-			logger.error({ error }, 'Get resource API request error')
-			reject(error)
-		})
+	const resource = data.item
+	if (!resource) {
+		throw new AutotaskApiError('No resource data returned')
+	}
 
-		req.end()
-	})
+	logger.info(
+		{ resourceId, name: `${resource.firstName} ${resource.lastName}` },
+		'Resource retrieved successfully'
+	)
+	return {
+		id: resource.id,
+		firstName: resource.firstName,
+		lastName: resource.lastName,
+		email: resource.email,
+		officePhone: resource.officePhone,
+		mobilePhone: resource.mobilePhone,
+		homePhone: resource.homePhone,
+		officeExtension: resource.officeExtension
+	}
 }
 
 /**
@@ -628,84 +652,19 @@ export async function getResourceById(resourceId: string): Promise<ResourceDetai
  * @param companyName - The company/organization name to search for
  * @param operator - The search operator to use
  * @returns Array of matching companies
- * @throws Error if the API returns an error
+ * @throws AutotaskApiError if the API returns an error
  * @internal
  */
 async function executeCompanySearch(companyName: string, operator: 'eq' | 'beginsWith' | 'contains'): Promise<CompanyDetails[]> {
-	await rateLimiter.waitForTurn()
-
 	logger.debug({ companyName, operator }, 'Executing company search')
 
-	const searchPayload = JSON.stringify({
-		filter: [
-			{
-				op: operator,
-				field: 'companyName',
-				value: companyName
-			},
-			{
-				op: 'eq',
-				field: 'isActive',
-				value: 1
-			}
-		]
-	})
-
-	const options = {
-		hostname: config.autotask.hostname,
-		path: '/ATServicesRest/V1.0/Companies/query',
-		method: 'POST',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'Content-Type': 'application/json',
-			'Content-Length': Buffer.byteLength(searchPayload),
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
-	}
-
-	return new Promise<CompanyDetails[]>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode, operator }, 'Company search response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					return reject(new Error(`Autotask returned empty response (HTTP ${res.statusCode})`))
-				}
-
-				try {
-					const data = JSON.parse(responseData) as AutotaskQueryResponse<CompanyDetails>
-
-					if (res.statusCode !== 200) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Company search API error')
-						return reject(new Error(`Failed to search companies: ${res.statusCode} - ${JSON.stringify(data)}`))
-					}
-
-					logger.debug({ count: data.items?.length || 0, operator }, 'Company search query completed')
-					resolve(data.items || [])
-				} catch (e) {
-					logger.error({ error: e, response: responseData.substring(0, 200) }, 'Invalid JSON from Autotask')
-					reject(new Error(`Invalid JSON response: ${responseData.substring(0, 200)}`))
-				}
-			})
-		})
-
-		req.on('error', (error) => {
-			logger.error({ error }, 'Company search API request error')
-			reject(error)
-		})
+	const companies = await query<CompanyDetails>('Companies')
+		.where('companyName', operator, companyName)
+		.eq('isActive', 1)
+		.execute()
 
-		req.write(searchPayload)
-		req.end()
-	})
+	logger.debug({ count: companies.length, operator }, 'Company search query completed')
+	return companies
 }
 
 /**
@@ -722,7 +681,7 @@ async function executeCompanySearch(companyName: string, operator: 'eq' | 'begin
  * 
  * @param companyName - The company/organization name to search for
  * @returns Array of matching companies
- * @throws Error if the API returns an error
+ * @throws AutotaskApiError if the API returns an error
  * 
  * @example
  * ```typescript
@@ -763,98 +722,174 @@ export async function searchCompanyByName(companyName: string): Promise<CompanyD
  * @param firstName - Contact's first name
  * @param lastName - Contact's last name
  * @returns Array of matching contacts
- * @throws Error if the API returns an error
+ * @throws AutotaskApiError if the API returns an error
  */
 export async function searchContactByName(companyID: number, firstName: string, lastName: string): Promise<ContactDetails[]> {
-	await rateLimiter.waitForTurn()
-
 	logger.info({ companyID, firstName, lastName }, 'Searching for contact in Autotask')
 
-	const searchPayload = JSON.stringify({
-		filter: [
-			{
-				op: 'eq',
-				field: 'companyID',
-				value: companyID
-			},
-			{
-				op: 'contains',
-				field: 'firstName',
-				value: firstName
-			},
-			{
-				op: 'contains',
-				field: 'lastName',
-				value: lastName
-			},
-			{
-				op: 'eq',
-				field: 'isActive',
-				value: 1
-			}
-		]
-	})
+	const contacts = await query<ContactDetails>('Contacts')
+		.eq('companyID', companyID)
+		.where('firstName', 'contains', firstName)
+		.where('lastName', 'contains', lastName)
+		.eq('isActive', 1)
+		.execute()
 
-	const options = {
-		hostname: config.autotask.hostname,
-		path: '/ATServicesRest/V1.0/Contacts/query',
-		method: 'POST',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'Content-Type': 'application/json',
-			'Content-Length': Buffer.byteLength(searchPayload),
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
+	// Log full contact details for debugging
+	if (contacts.length > 0) {
+		logger.debug({ firstContact: contacts[0] }, 'Contact search - first result details')
+	}
+
+	logger.info({ count: contacts.length, companyID, firstName, lastName }, 'Contact search completed')
+	return contacts
+}
+
+/**
+ * Lists the contacts of a company.
+ * 
+ * @param companyID - The company ID
+ * @param options - Listing options
+ * @param options.includeInactive - Also return inactive contacts (default: active only)
+ * @returns The company's contacts with name, email and phone fields
+ * @throws AutotaskApiError if the API returns an error
+ */
+export async function listCompanyContacts(
+	companyID: number,
+	options: { includeInactive?: boolean } = {}
+): Promise<ContactDetails[]> {
+	const builder = query<ContactDetails>('Contacts').eq('companyID', companyID)
+	if (!options.includeInactive) {
+		builder.eq('isActive', 1)
+	}
+
+	const contacts = await builder
+		.includeFields(
+			'id',
+			'companyID',
+			'firstName',
+			'lastName',
+			'emailAddress',
+			'emailAddress2',
+			'emailAddress3',
+			'phone',
+			'mobilePhone',
+			'alternatePhone',
+			'isActive'
+		)
+		.execute()
+
+	logger.debug({ companyID, count: contacts.length, includeInactive: !!options.includeInactive }, 'Listed company contacts')
+	return contacts
+}
+
+/**
+ * Contact phone fields searched by {@link searchContactByPhone}.
+ * @internal
+ */
+const CONTACT_PHONE_FIELDS = ['phone', 'mobilePhone', 'alternatePhone'] as const
+
+/**
+ * Searches active contacts whose phone, mobile or alternate phone number is
+ * the given number.
+ * 
+ * Autotask stores numbers as typed, so the query narrows candidates by the
+ * last four digits and matches are confirmed after normalizing both sides
+ * to E.164.
+ * 
+ * @param phone - Phone number in any format (e.g., Retell's '+15551010001')
+ * @param defaultCountryCode - Country calling code assumed for numbers stored without one
+ * @returns Matching contacts across all companies
+ * @throws AutotaskApiError if the API returns an error
+ * 
+ * @example
+ * ```typescript
+ * const contacts = await searchContactByPhone('+15551010001', '1')
+ * ```
+ */
+export async function searchContactByPhone(phone: string, defaultCountryCode: string): Promise<ContactDetails[]> {
+	const e164 = toE164(phone, defaultCountryCode)
+	if (!e164) {
+		logger.warn({ phone }, 'Phone number too short to search contacts')
+		return []
 	}
 
-	return new Promise<ContactDetails[]>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode }, 'Contact search response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					return reject(new Error(`Autotask returned empty response (HTTP ${res.statusCode})`))
-				}
-
-				try {
-					const data = JSON.parse(responseData) as AutotaskQueryResponse<ContactDetails>
-
-					if (res.statusCode !== 200) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Contact search API error')
-						return reject(new Error(`Failed to search contacts: ${res.statusCode} - ${JSON.stringify(data)}`))
-					}
-
-					// Log full contact details for debugging
-					if (data.items && data.items.length > 0) {
-						logger.debug({ firstContact: data.items[0] }, 'Contact search - first result details')
-					}
-
-					logger.info({ count: data.items?.length || 0, companyID, firstName, lastName }, 'Contact search completed')
-					resolve(data.items || [])
-				} catch (e) {
-					logger.error({ error: e, response: responseData.substring(0, 200) }, 'Invalid JSON from Autotask')
-					reject(new Error(`Invalid JSON response: ${responseData.substring(0, 200)}`))
-				}
-			})
+	logger.info({ phone: e164 }, 'Searching for contact by phone in Autotask')
+
+	const lastFour = e164.slice(-4)
+	const candidates = await query<ContactDetails>('Contacts')
+		.eq('isActive', 1)
+		.or((group) => {
+			for (const field of CONTACT_PHONE_FIELDS) {
+				group.where(field, 'contains', lastFour)
+			}
 		})
+		.execute()
 
-		req.on('error', (error) => {
-			logger.error({ error }, 'Contact search API request error')
-			reject(error)
+	const contacts = candidates.filter((contact) =>
+		CONTACT_PHONE_FIELDS.some((field) => {
+			const stored = contact[field]
+			return stored ? phoneNumbersMatch(stored, e164, defaultCountryCode) : false
 		})
+	)
 
-		req.write(searchPayload)
-		req.end()
-	})
+	logger.info({ count: contacts.length, candidates: candidates.length }, 'Contact phone search completed')
+	return contacts
+}
+
+/**
+ * Searches active contacts whose primary, second or third email address is
+ * the given address.
+ * 
+ * @param email - Normalized email address
+ * @returns Matching contacts across all companies; several if the address is shared
+ * @throws AutotaskApiError if the API returns an error
+ * 
+ * @example
+ * ```typescript
+ * const contacts = await searchContactByEmail('john.smith@acme.example')
+ * ```
+ */
+export async function searchContactByEmail(email: string): Promise<ContactDetails[]> {
+	logger.info({ email }, 'Searching for contact by email in Autotask')
+
+	const contacts = await query<ContactDetails>('Contacts')
+		.eq('isActive', 1)
+		.or((group) => group
+			.eq('emailAddress', email)
+			.eq('emailAddress2', email)
+			.eq('emailAddress3', email))
+		.execute()
+
+	logger.info({ count: contacts.length }, 'Contact email search completed')
+	return contacts
+}
+
+/**
+ * Retrieves a contact by ID.
+ * 
+ * @param contactId - The contact ID
+ * @returns The contact, or null if there is no contact with this ID
+ * @throws AutotaskApiError if the API returns an error
+ */
+export async function getContactById(contactId: number): Promise<ContactDetails | null> {
+	const data = await autotaskClient.get<{ item?: ContactDetails | null }>(`/Contacts/${contactId}`)
+	return data.item ?? null
+}
+
+/**
+ * Retrieves active companies by ID.
+ * 
+ * @param companyIds - Company IDs to fetch
+ * @returns The active companies among them
+ * @throws AutotaskApiError if the API returns an error
+ */
+export async function getCompaniesByIds(companyIds: number[]): Promise<CompanyDetails[]> {
+	if (companyIds.length === 0) {
+		return []
+	}
+	return query<CompanyDetails>('Companies')
+		.in('id', [...new Set(companyIds)])
+		.eq('isActive', 1)
+		.execute()
 }
 
 /**
@@ -866,8 +901,9 @@ export async function searchContactByName(companyID: number, firstName: string,
  * @param params.lastName - Contact's last name
  * @param params.emailAddress - Contact's email address
  * @param params.phone - Contact's phone number
+ * @param params.isActive - Create the contact active (default) or inactive, e.g. pending review
  * @returns The created contact details
- * @throws Error if the API returns an error
+ * @throws AutotaskApiError if the API returns an error
  */
 export async function createContact(params: {
 	companyID: number
@@ -875,16 +911,16 @@ export async function createContact(params: {
 	lastName: string
 	emailAddress?: string
 	phone?: string
+	isActive?: boolean
 }): Promise<ContactDetails> {
-	await rateLimiter.waitForTurn()
-
-	logger.info({ companyID: params.companyID, firstName: params.firstName, lastName: params.lastName }, 'Creating contact in Autotask')
+	const isActive = params.isActive ?? true
+	logger.info({ companyID: params.companyID, firstName: params.firstName, lastName: params.lastName, isActive }, 'Creating contact in Autotask')
 
 	const contactPayload: Record<string, unknown> = {
 		companyID: params.companyID,
 		firstName: params.firstName,
 		lastName: params.lastName,
-		isActive: 1
+		isActive: isActive ? 1 : 0
 	}
 
 	if (params.emailAddress) {
@@ -894,77 +930,24 @@ export async function createContact(params: {
 		contactPayload.phone = params.phone
 	}
 
-	const postData = JSON.stringify(contactPayload)
-
 	// Use the Companies/{id}/Contacts child path for creating contacts
-	const contactPath = `/ATServicesRest/V1.0/Companies/${params.companyID}/Contacts`
+	const contactPath = `/Companies/${params.companyID}/Contacts`
 	logger.debug({ payload: contactPayload, path: contactPath }, 'Creating contact - request details')
 
-	const options = {
-		hostname: config.autotask.hostname,
-		path: contactPath,
-		method: 'POST',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'Content-Type': 'application/json',
-			'Content-Length': Buffer.byteLength(postData),
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
-	}
+	const data = await autotaskClient.post<AutotaskTicketResponse>(contactPath, contactPayload)
 
-	return new Promise<ContactDetails>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode, headers: res.headers }, 'Create contact response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (!responseData || responseData.trim() === '') {
-					return reject(new Error(`Autotask returned empty response (HTTP ${res.statusCode})`))
-				}
-
-				try {
-					const data = JSON.parse(responseData)
-
-					if (res.statusCode !== 200 && res.statusCode !== 201) {
-						logger.error({ statusCode: res.statusCode, response: data }, 'Create contact API error')
-						return reject(new Error(`Failed to create contact: ${res.statusCode} - ${JSON.stringify(data)}`))
-					}
-
-					const contactId = data.itemId || data.item?.id
-					logger.info({ contactId }, 'Contact created successfully')
-
-					resolve({
-						id: contactId,
-						companyID: params.companyID,
-						firstName: params.firstName,
-						lastName: params.lastName,
-						emailAddress: params.emailAddress,
-						phone: params.phone,
-						isActive: true
-					})
-				} catch (e) {
-					logger.error({ error: e, statusCode: res.statusCode, response: responseData.substring(0, 500) }, 'Invalid JSON from Autotask - likely HTML error page')
-					reject(new Error(`Invalid JSON response (HTTP ${res.statusCode}): ${responseData.substring(0, 200)}`))
-				}
-			})
-		})
+	const contactId = Number(data.itemId || data.item?.id)
+	logger.info({ contactId }, 'Contact created successfully')
 
-		req.on('error', (error) => {
-			logger.error({ error }, 'Create contact API request error')
-			reject(error)
-		})
-
-		req.write(postData)
-		req.end()
-	})
+	return {
+		id: contactId,
+		companyID: params.companyID,
+		firstName: params.firstName,
+		lastName: params.lastName,
+		emailAddress: params.emailAddress,
+		phone: params.phone,
+		isActive
+	}
 }
 
 /**
@@ -976,14 +959,12 @@ export async function createContact(params: {
  * @param params - Fields to update
  * @param params.emailAddress - Contact's email address
  * @param params.phone - Contact's phone number
- * @throws Error if the API returns an error
+ * @throws AutotaskApiError if the API returns an error
  */
 export async function updateContact(companyId: number, contactId: number, params: {
 	emailAddress?: string
 	phone?: string
 }): Promise<void> {
-	await rateLimiter.waitForTurn()
-
 	logger.info({ companyId, contactId, ...params }, 'Updating contact in Autotask')
 
 	const updatePayload: Record<string, unknown> = {
@@ -1004,59 +985,10 @@ export async function updateContact(companyId: number, contactId: number, params
 		return
 	}
 
-	const patchData = JSON.stringify(updatePayload)
-
 	// Use the Companies/{id}/Contacts child path for updating contacts
-	const contactPath = `/ATServicesRest/V1.0/Companies/${companyId}/Contacts`
+	const contactPath = `/Companies/${companyId}/Contacts`
 	logger.debug({ payload: updatePayload, path: contactPath }, 'Updating contact - request details')
 
-	const options = {
-		hostname: config.autotask.hostname,
-		path: contactPath,
-		method: 'PATCH',
-		headers: {
-			Host: config.autotask.hostname,
-			Accept: 'application/json',
-			'Content-Type': 'application/json',
-			'Content-Length': Buffer.byteLength(patchData),
-			'User-Agent': 'Node.js',
-			ApiIntegrationCode: config.autotask.apiIntegrationCode,
-			UserName: config.autotask.username,
-			Secret: config.autotask.secret
-		}
-	}
-
-	return new Promise<void>((resolve, reject) => {
-		const req = https.request(options, (res) => {
-			logger.debug({ statusCode: res.statusCode, contactId }, 'Update contact response received')
-
-			let responseData = ''
-			res.on('data', (chunk) => {
-				responseData += chunk
-			})
-
-			res.on('end', () => {
-				if (res.statusCode === 200) {
-					logger.info({ contactId }, 'Contact updated successfully')
-					resolve()
-				} else {
-					try {
-						const data = JSON.parse(responseData)
-						logger.error({ statusCode: res.statusCode, response: data }, 'Update contact API error')
-						reject(new Error(`Failed to update contact: ${res.statusCode} - ${JSON.stringify(data)}`))
-					} catch {
-						reject(new Error(`Failed to update contact: ${res.statusCode} - ${responseData.substring(0, 200)}`))
-					}
-				}
-			})
-		})
-
-		req.on('error', (error) => {
-			logger.error({ error }, 'Update contact API request error')
-			reject(error)
-		})
-
-		req.write(patchData)
-		req.end()
-	})
+	await autotaskClient.patch(contactPath, updatePayload, { expectBody: false })
+	logger.info({ contactId }, 'Contact updated successfully')
 }
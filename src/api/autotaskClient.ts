@@ -0,0 +1,653 @@
+/**
+ * @fileoverview Low-level HTTP client for the Autotask REST API.
+ * Owns authentication headers, request timeouts, rate limiting and retries
+ * with exponential backoff, and converts every failure into a typed
+ * {@link AutotaskApiError}.
+ * @module api/autotaskClient
+ */
+import { config } from '../config.js'
+import { logger } from '../utils/logger.js'
+import { CassetteMissError, httpCassette } from './httpCassette.js'
+import {
+	AdaptiveRateLimiter,
+	RateLimiterOptions,
+	RateLimiterUsage,
+	ThresholdInformation
+} from './rateLimiter.js'
+
+/**
+ * HTTP methods used against the Autotask REST API.
+ */
+export type AutotaskHttpMethod = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
+
+/**
+ * Connection and retry settings for an {@link AutotaskClient}.
+ */
+export interface AutotaskClientOptions {
+	/** Fallback Autotask API hostname used when zone discovery fails */
+	hostname: string
+	/** Base URL of the zone-information service, or empty to skip discovery */
+	zoneDiscoveryUrl: string
+	/** How long the fallback hostname is used after a failed discovery before retrying it, in milliseconds */
+	zoneRetryMs: number
+	/** Fixed API base URL that bypasses zone discovery (e.g., a mock server) */
+	baseUrl?: string
+	/** API integration tracking code */
+	apiIntegrationCode: string
+	/** API username */
+	username: string
+	/** API secret/password */
+	secret: string
+	/** Per-attempt request timeout in milliseconds */
+	timeoutMs: number
+	/** Maximum number of retries after the first attempt */
+	maxRetries: number
+	/** Base delay in milliseconds for exponential backoff */
+	retryBaseDelayMs: number
+	/** Longest Retry-After delay honored before retrying, in milliseconds */
+	maxRetryAfterMs: number
+	/** Concurrency and threshold-driven rate limiting settings */
+	rateLimit: RateLimiterOptions
+	/** Default maximum number of pages followed by {@link AutotaskClient.query} */
+	maxQueryPages: number
+}
+
+/**
+ * Per-request options for {@link AutotaskClient.request}.
+ */
+export interface AutotaskRequestOptions {
+	/** JSON body to send with the request */
+	body?: unknown
+	/** Set to false for endpoints that may legitimately return an empty body */
+	expectBody?: boolean
+}
+
+/**
+ * Generic response wrapper for Autotask query endpoints.
+ * @typeParam T - The type of items returned
+ */
+export interface AutotaskQueryResponse<T> {
+	/** Array of returned items */
+	items: T[]
+	/** Pagination information */
+	pageDetails?: {
+		/** Total count of matching items */
+		count: number
+		/** Number of items in this response */
+		requestCount: number
+		/** Absolute URL of the previous page, if any */
+		prevPageUrl?: string | null
+		/** Absolute URL of the next page, if any */
+		nextPageUrl?: string | null
+	}
+}
+
+/**
+ * Body of a POST to an entity's `/query` endpoint.
+ */
+export interface AutotaskQueryBody {
+	/** Filter expressions in Autotask's filter grammar */
+	filter: unknown[]
+	/** Restrict returned fields */
+	includeFields?: string[]
+	/** Maximum records per page (Autotask caps this at 500) */
+	MaxRecords?: number
+}
+
+/**
+ * Limits applied while following query pages.
+ */
+export interface AutotaskQueryOptions {
+	/** Stop after this many pages (defaults to the client's `maxQueryPages`) */
+	maxPages?: number
+	/** Stop after yielding this many records */
+	maxRecords?: number
+}
+
+/**
+ * Response from Autotask's zone-information lookup.
+ */
+export interface AutotaskZoneInformation {
+	/** Zone display name (e.g., 'America West') */
+	zoneName: string
+	/** REST base URL for the zone (e.g., 'https://webservices15.autotask.net/ATServicesRest/') */
+	url: string
+	/** Web UI URL for the zone */
+	webUrl?: string
+	/** Customer instance identifier */
+	ci?: number
+}
+
+/**
+ * Error raised for any failed Autotask API call.
+ *
+ * Carries the HTTP status (when a response was received), the error messages
+ * Autotask returned in its `errors` array, and whether the failure is
+ * transient and safe to retry.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await getTicketById('123')
+ * } catch (error) {
+ *   if (error instanceof AutotaskApiError && error.status === 404) {
+ *     // ticket does not exist
+ *   }
+ * }
+ * ```
+ */
+export class AutotaskApiError extends Error {
+	/** HTTP status code, or undefined for network failures and timeouts */
+	readonly status?: number
+	/** Error messages returned by Autotask */
+	readonly errors: string[]
+	/** True if the request failed for a transient reason (429, 5xx, network) */
+	readonly retryable: boolean
+	/** Delay requested by Autotask via the Retry-After header, if any */
+	readonly retryAfterMs?: number
+	/** False if the connection failed before the request reached Autotask */
+	readonly sent: boolean
+
+	constructor(
+		message: string,
+		options: {
+			status?: number
+			errors?: string[]
+			retryable?: boolean
+			retryAfterMs?: number
+			sent?: boolean
+			cause?: unknown
+		} = {}
+	) {
+		super(message, { cause: options.cause })
+		this.name = 'AutotaskApiError'
+		this.status = options.status
+		this.errors = options.errors ?? []
+		this.retryable = options.retryable ?? false
+		this.retryAfterMs = options.retryAfterMs
+		this.sent = options.sent ?? true
+	}
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ * @internal
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Returns true for HTTP statuses that indicate a transient failure.
+ * @internal
+ */
+function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500
+}
+
+/**
+ * Returns true for requests that can be repeated without side effects:
+ * reads, PUT and DELETE, and POSTs to an entity's `/query` and
+ * `/query/count` endpoints.
+ * @internal
+ */
+function isIdempotent(method: AutotaskHttpMethod, path: string): boolean {
+	if (method === 'POST') {
+		return /\/query(\/count)?(\?|$)/i.test(path)
+	}
+	return method !== 'PATCH'
+}
+
+/**
+ * Connection error codes raised before any of the request was sent.
+ * @internal
+ */
+const CONNECT_ERROR_CODES = new Set([
+	'ECONNREFUSED',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+	'UND_ERR_CONNECT_TIMEOUT'
+])
+
+/**
+ * Returns true if a fetch failure happened while connecting, so Autotask
+ * never saw the request.
+ * @internal
+ */
+function failedToConnect(error: unknown): boolean {
+	const cause = error instanceof Error ? (error.cause as { code?: unknown } | undefined) : undefined
+	return typeof cause?.code === 'string' && CONNECT_ERROR_CODES.has(cause.code)
+}
+
+/**
+ * Extracts Autotask's `errors` array from a parsed error response.
+ * @internal
+ */
+function extractErrors(data: unknown): string[] {
+	if (data && typeof data === 'object' && Array.isArray((data as { errors?: unknown }).errors)) {
+		return (data as { errors: unknown[] }).errors.map(String)
+	}
+	return []
+}
+
+/**
+ * Parses a Retry-After header value into milliseconds.
+ * @internal
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+	if (!header) {
+		return undefined
+	}
+	const seconds = Number(header)
+	if (!Number.isNaN(seconds)) {
+		return seconds * 1000
+	}
+	const date = Date.parse(header)
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * HTTP client for the Autotask REST API.
+ *
+ * Every request passes through an {@link AdaptiveRateLimiter}, is bounded by a timeout, and retried with
+ * exponential backoff (plus jitter) when Autotask responds with 429 or 5xx
+ * or the connection fails. Requests that create records (POST other than
+ * `/query`, and PATCH) are only retried on 429 or when the connection
+ * failed before they were sent, so a timeout or 5xx never creates a
+ * duplicate. Honors `Retry-After` on throttled responses, up to
+ * `maxRetryAfterMs`.
+ *
+ * The REST base URL is resolved once through Autotask's zone-information
+ * lookup for the API username and cached; the configured hostname is only
+ * used while discovery fails, and discovery is retried every `zoneRetryMs`.
+ *
+ * @example
+ * ```typescript
+ * const client = new AutotaskClient(options)
+ * const data = await client.get<{ item: TicketDetails }>('/Tickets/123')
+ * ```
+ */
+export class AutotaskClient {
+	private readonly options: AutotaskClientOptions
+	private readonly rateLimiter: AdaptiveRateLimiter
+	/** Pending or completed base URL resolution, shared by all callers */
+	private baseUrlPromise: Promise<string> | null = null
+	/** Epoch milliseconds after which a fallback base URL is rediscovered, or null if none is in use */
+	private rediscoverAt: number | null = null
+
+	constructor(options: AutotaskClientOptions) {
+		this.options = options
+		this.rateLimiter = new AdaptiveRateLimiter(options.rateLimit, () =>
+			this.get<ThresholdInformation>('/ThresholdInformation')
+		)
+	}
+
+	/**
+	 * Returns current rate limiter usage for health reporting.
+	 */
+	getUsage(): RateLimiterUsage {
+		return this.rateLimiter.getUsage()
+	}
+
+	/**
+	 * Base URL built from the configured fallback hostname.
+	 */
+	get fallbackBaseUrl(): string {
+		return `https://${this.options.hostname}/ATServicesRest/V1.0`
+	}
+
+	/**
+	 * Resolves the versioned REST base URL for this tenant's zone.
+	 *
+	 * The first call performs zone discovery; later calls return the cached
+	 * result. If discovery failed, the fallback is cached for `zoneRetryMs`
+	 * and discovery then runs again. Safe to call at startup to warm the cache.
+	 *
+	 * @returns Base URL for versioned REST calls (e.g., 'https://webservices15.autotask.net/ATServicesRest/V1.0')
+	 */
+	getBaseUrl(): Promise<string> {
+		if (!this.baseUrlPromise || (this.rediscoverAt !== null && Date.now() >= this.rediscoverAt)) {
+			this.rediscoverAt = null
+			this.baseUrlPromise = this.discoverZone()
+		}
+		return this.baseUrlPromise
+	}
+
+	/**
+	 * Looks up the zone for the API username, falling back to the configured
+	 * hostname if discovery is disabled or fails. A failed lookup schedules
+	 * another. A fixed base URL skips the lookup entirely.
+	 * @internal
+	 */
+	private async discoverZone(): Promise<string> {
+		const { zoneDiscoveryUrl, username, timeoutMs } = this.options
+
+		if (this.options.baseUrl) {
+			logger.info({ baseUrl: this.options.baseUrl }, 'Using fixed Autotask base URL')
+			return this.options.baseUrl
+		}
+
+		if (!zoneDiscoveryUrl) {
+			logger.info({ baseUrl: this.fallbackBaseUrl }, 'Autotask zone discovery disabled, using configured hostname')
+			return this.fallbackBaseUrl
+		}
+
+		const url = `${zoneDiscoveryUrl.replace(/\/+$/, '')}/v1.0/zoneInformation?user=${encodeURIComponent(username)}`
+
+		try {
+			const response = await httpCassette.fetch('autotask', url, {
+				headers: { Accept: 'application/json', 'User-Agent': 'Node.js' },
+				signal: AbortSignal.timeout(timeoutMs)
+			})
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}`)
+			}
+
+			const zone = (await response.json()) as AutotaskZoneInformation
+			if (!zone.url) {
+				throw new Error('Zone information did not include a URL')
+			}
+
+			const baseUrl = `${zone.url.replace(/\/+$/, '')}/V1.0`
+			logger.info({ zoneName: zone.zoneName, baseUrl }, 'Resolved Autotask zone')
+			return baseUrl
+		} catch (error) {
+			logger.warn(
+				{ error, fallbackBaseUrl: this.fallbackBaseUrl, retryInMs: this.options.zoneRetryMs },
+				'Autotask zone discovery failed, using configured hostname'
+			)
+			this.rediscoverAt = Date.now() + this.options.zoneRetryMs
+			return this.fallbackBaseUrl
+		}
+	}
+
+	/**
+	 * Sends a GET request.
+	 *
+	 * @param path - Path relative to the versioned base URL (e.g., '/Tickets/123')
+	 * @returns Parsed JSON response
+	 */
+	get<T>(path: string): Promise<T> {
+		return this.request<T>('GET', path)
+	}
+
+	/**
+	 * Sends a POST request with a JSON body.
+	 *
+	 * @param path - Path relative to the versioned base URL
+	 * @param body - Request payload
+	 * @returns Parsed JSON response
+	 */
+	post<T>(path: string, body: unknown): Promise<T> {
+		return this.request<T>('POST', path, { body })
+	}
+
+	/**
+	 * Sends a PATCH request with a JSON body.
+	 *
+	 * @param path - Path relative to the versioned base URL
+	 * @param body - Fields to update (must include `id`)
+	 * @param options - Additional request options
+	 * @returns Parsed JSON response, or undefined when Autotask returns no body
+	 */
+	patch<T>(path: string, body: unknown, options: Omit<AutotaskRequestOptions, 'body'> = {}): Promise<T> {
+		return this.request<T>('PATCH', path, { ...options, body })
+	}
+
+	/**
+	 * Runs an entity query and yields every matching record, following
+	 * `pageDetails.nextPageUrl` until results are exhausted or a cap is hit.
+	 *
+	 * @param entity - Entity path (e.g., 'Companies' or 'Contacts')
+	 * @param body - Query filter and options
+	 * @param options - Page and record caps
+	 * @returns Async iterator over matching records
+	 *
+	 * @example
+	 * ```typescript
+	 * for await (const company of autotaskClient.query<CompanyDetails>('Companies', { filter })) {
+	 *   console.log(company.companyName)
+	 * }
+	 * ```
+	 */
+	async *query<T>(
+		entity: string,
+		body: AutotaskQueryBody,
+		options: AutotaskQueryOptions = {}
+	): AsyncGenerator<T, void, undefined> {
+		const maxPages = options.maxPages ?? this.options.maxQueryPages
+		const maxRecords = options.maxRecords ?? Infinity
+
+		let page = await this.post<AutotaskQueryResponse<T>>(`/${entity}/query`, body)
+		let pagesFetched = 1
+		let yielded = 0
+
+		for (;;) {
+			for (const item of page.items || []) {
+				if (yielded >= maxRecords) {
+					return
+				}
+				yield item
+				yielded++
+			}
+
+			const nextPageUrl = page.pageDetails?.nextPageUrl
+			if (!nextPageUrl || yielded >= maxRecords) {
+				return
+			}
+			if (pagesFetched >= maxPages) {
+				logger.warn(
+					{ entity, pagesFetched, yielded, total: page.pageDetails?.count },
+					'Autotask query page cap reached, results truncated'
+				)
+				return
+			}
+
+			page = await this.get<AutotaskQueryResponse<T>>(nextPageUrl)
+			pagesFetched++
+		}
+	}
+
+	/**
+	 * Counts the records an entity query matches, without fetching them.
+	 *
+	 * @param entity - Entity path (e.g., 'Tickets')
+	 * @param body - Query filter
+	 * @returns Number of matching records
+	 */
+	async count(entity: string, body: AutotaskQueryBody): Promise<number> {
+		const data = await this.post<{ queryCount: number }>(`/${entity}/query/count`, { filter: body.filter })
+		return data.queryCount
+	}
+
+	/**
+	 * Runs an entity query and collects all pages into an array.
+	 *
+	 * @param entity - Entity path (e.g., 'Companies' or 'Contacts')
+	 * @param body - Query filter and options
+	 * @param options - Page and record caps
+	 * @returns All matching records up to the caps
+	 */
+	async queryAll<T>(
+		entity: string,
+		body: AutotaskQueryBody,
+		options: AutotaskQueryOptions = {}
+	): Promise<T[]> {
+		const results: T[] = []
+		for await (const item of this.query<T>(entity, body, options)) {
+			results.push(item)
+		}
+		return results
+	}
+
+	/**
+	 * Sends a request, retrying transient failures with exponential backoff.
+	 * Non-idempotent requests are retried only if Autotask rejected them
+	 * with 429 or never received them.
+	 *
+	 * @param method - HTTP method
+	 * @param path - Path relative to the versioned base URL, or an absolute
+	 *   URL returned by Autotask (e.g., a `nextPageUrl`)
+	 * @param options - Body and response expectations
+	 * @returns Parsed JSON response
+	 * @throws AutotaskApiError once retries are exhausted or on a non-retryable failure
+	 */
+	async request<T>(
+		method: AutotaskHttpMethod,
+		path: string,
+		options: AutotaskRequestOptions = {}
+	): Promise<T> {
+		const { maxRetries, retryBaseDelayMs, maxRetryAfterMs } = this.options
+		const idempotent = isIdempotent(method, path)
+
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await this.send<T>(method, path, options)
+			} catch (error) {
+				const apiError =
+					error instanceof AutotaskApiError
+						? error
+						: new AutotaskApiError(
+								`Autotask request failed: ${error instanceof Error ? error.message : String(error)}`,
+								{ retryable: true, cause: error }
+							)
+
+				const safeToRepeat = idempotent || apiError.status === 429 || !apiError.sent
+				if (!apiError.retryable || !safeToRepeat || attempt >= maxRetries) {
+					logger.error(
+						{ method, path, status: apiError.status, errors: apiError.errors, attempt },
+						'Autotask API request failed'
+					)
+					throw apiError
+				}
+
+				const backoff = retryBaseDelayMs * 2 ** attempt
+				const delay =
+					apiError.retryAfterMs !== undefined
+						? Math.min(apiError.retryAfterMs, maxRetryAfterMs)
+						: backoff + Math.floor(Math.random() * retryBaseDelayMs)
+
+				logger.warn(
+					{ method, path, status: apiError.status, attempt: attempt + 1, maxRetries, delay },
+					'Retrying Autotask API request'
+				)
+				await sleep(delay)
+			}
+		}
+	}
+
+	/**
+	 * Performs a single HTTP attempt.
+	 * @internal
+	 */
+	private async send<T>(
+		method: AutotaskHttpMethod,
+		path: string,
+		options: AutotaskRequestOptions
+	): Promise<T> {
+		const baseUrl = await this.getBaseUrl()
+
+		const url = /^https?:\/\//i.test(path) ? path : `${baseUrl}${path}`
+		const headers: Record<string, string> = {
+			Accept: 'application/json',
+			'User-Agent': 'Node.js',
+			ApiIntegrationCode: this.options.apiIntegrationCode,
+			UserName: this.options.username,
+			Secret: this.options.secret
+		}
+		let payload: string | undefined
+		if (options.body !== undefined) {
+			payload = JSON.stringify(options.body)
+			headers['Content-Type'] = 'application/json'
+		}
+
+		logger.debug({ method, path }, 'Sending Autotask API request')
+
+		const release = await this.rateLimiter.acquire()
+		let response: Response
+		let text: string
+		try {
+			response = await httpCassette.fetch('autotask', url, {
+				method,
+				headers,
+				body: payload,
+				signal: AbortSignal.timeout(this.options.timeoutMs)
+			})
+			text = await response.text()
+		} catch (error) {
+			if (error instanceof CassetteMissError) {
+				// Retrying cannot make the cassette hold the request
+				throw new AutotaskApiError(error.message, { retryable: false, sent: false, cause: error })
+			}
+			const timedOut = error instanceof Error && error.name === 'TimeoutError'
+			throw new AutotaskApiError(
+				timedOut
+					? `Autotask request timed out after ${this.options.timeoutMs}ms`
+					: `Autotask request error: ${error instanceof Error ? error.message : String(error)}`,
+				{ retryable: true, sent: !failedToConnect(error), cause: error }
+			)
+		} finally {
+			release()
+		}
+
+		logger.debug({ method, path, statusCode: response.status }, 'Autotask API response received')
+
+		let data: unknown = undefined
+		if (text.trim() !== '') {
+			try {
+				data = JSON.parse(text)
+			} catch (e) {
+				logger.error(
+					{ error: e, statusCode: response.status, response: text.substring(0, 200) },
+					'Invalid JSON from Autotask'
+				)
+				throw new AutotaskApiError(
+					`Invalid JSON response (HTTP ${response.status}): ${text.substring(0, 200)}`,
+					{ status: response.status, retryable: isRetryableStatus(response.status) }
+				)
+			}
+		}
+
+		if (!response.ok) {
+			const errors = extractErrors(data)
+			throw new AutotaskApiError(
+				`Autotask API error ${response.status}${errors.length > 0 ? `: ${errors.join('; ')}` : ''}`,
+				{
+					status: response.status,
+					errors,
+					retryable: isRetryableStatus(response.status),
+					retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+				}
+			)
+		}
+
+		if (data === undefined && options.expectBody !== false) {
+			throw new AutotaskApiError(`Autotask returned empty response (HTTP ${response.status})`, {
+				status: response.status
+			})
+		}
+
+		return data as T
+	}
+}
+
+/**
+ * Shared Autotask client configured from application settings.
+ */
+export const autotaskClient = new AutotaskClient({
+	hostname: config.autotask.hostname,
+	zoneDiscoveryUrl: config.autotask.zoneDiscoveryUrl,
+	zoneRetryMs: config.autotask.zoneRetryMs,
+	baseUrl: config.autotask.mockUrl ? `${config.autotask.mockUrl.replace(/\/+$/, '')}/ATServicesRest/V1.0` : undefined,
+	apiIntegrationCode: config.autotask.apiIntegrationCode,
+	username: config.autotask.username,
+	secret: config.autotask.secret,
+	timeoutMs: config.autotask.timeoutMs,
+	maxRetries: config.autotask.maxRetries,
+	retryBaseDelayMs: config.autotask.retryBaseDelayMs,
+	maxRetryAfterMs: config.autotask.maxRetryAfterMs,
+	rateLimit: config.autotask.rateLimit,
+	maxQueryPages: config.autotask.maxQueryPages
+})
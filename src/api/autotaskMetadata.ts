@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Cached Autotask entity metadata and picklist lookups.
+ * Loads field information for Tickets, TicketNotes, Contacts and Companies, maps picklist
+ * values to labels in both directions, and refreshes periodically so tools
+ * can work with human labels ("High", "Incident") instead of instance-specific
+ * numeric codes.
+ * @module api/autotaskMetadata
+ */
+import { autotaskClient, AutotaskClient } from './autotaskClient.js'
+import { config } from '../config.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Entities whose metadata is cached.
+ */
+export type MetadataEntity = 'Tickets' | 'TicketNotes' | 'Contacts' | 'Companies'
+
+/**
+ * All cached entities, loaded at startup and on each refresh.
+ */
+export const METADATA_ENTITIES: readonly MetadataEntity[] = ['Tickets', 'TicketNotes', 'Contacts', 'Companies']
+
+/**
+ * A single picklist option.
+ */
+export interface PicklistValue {
+	/** Numeric code, as a string */
+	value: string
+	/** Display label */
+	label: string
+	/** Whether this is the field's default */
+	isDefaultValue: boolean
+	/** Whether the option can still be selected */
+	isActive: boolean
+	/** Display order */
+	sortOrder?: number
+}
+
+/**
+ * Field information from Autotask entity metadata.
+ */
+export interface FieldInfo {
+	/** Field name (e.g., 'queueID') */
+	name: string
+	/** Data type (e.g., 'integer', 'string', 'datetime') */
+	dataType?: string
+	/** Whether the field is required on create */
+	isRequired?: boolean
+	/** Whether the field can be used in query filters */
+	isQueryable?: boolean
+	/** Whether field is a picklist */
+	isPickList: boolean
+	/** Available options for picklist fields */
+	picklistValues?: PicklistValue[]
+}
+
+/**
+ * Cached metadata for one entity.
+ * @internal
+ */
+interface EntityMetadata {
+	/** Fields keyed by lower-cased name */
+	fields: Map<string, FieldInfo>
+	/** When the metadata was loaded */
+	loadedAt: number
+}
+
+/**
+ * Loads and caches Autotask entity field metadata and picklists.
+ *
+ * Metadata is fetched on first use and reloaded when older than the refresh
+ * interval. If a reload fails, the previous copy keeps being served.
+ *
+ * @example
+ * ```typescript
+ * const priority = await metadataService.valueFor('Tickets', 'priority', 'High')
+ * const label = await metadataService.labelFor('Tickets', 'status', 1) // 'New'
+ * ```
+ */
+export class MetadataService {
+	private readonly client: AutotaskClient
+	private readonly refreshIntervalMs: number
+	private readonly cache = new Map<MetadataEntity, EntityMetadata>()
+	private readonly loading = new Map<MetadataEntity, Promise<EntityMetadata>>()
+	private refreshTimer: NodeJS.Timeout | null = null
+
+	constructor(client: AutotaskClient, refreshIntervalMs: number) {
+		this.client = client
+		this.refreshIntervalMs = refreshIntervalMs
+	}
+
+	/**
+	 * Loads all entities now and reloads them on the refresh interval.
+	 * Failures are logged; lookups fall back to on-demand loading.
+	 */
+	startPeriodicRefresh(): void {
+		if (this.refreshTimer) {
+			return
+		}
+		const refreshAll = () => {
+			for (const entity of METADATA_ENTITIES) {
+				this.load(entity).catch((error) => {
+					logger.warn({ error, entity }, 'Failed to refresh Autotask metadata')
+				})
+			}
+		}
+		refreshAll()
+		this.refreshTimer = setInterval(refreshAll, this.refreshIntervalMs)
+		this.refreshTimer.unref()
+	}
+
+	/**
+	 * Stops the periodic refresh started by {@link startPeriodicRefresh}.
+	 */
+	stopPeriodicRefresh(): void {
+		if (this.refreshTimer) {
+			clearInterval(this.refreshTimer)
+			this.refreshTimer = null
+		}
+	}
+
+	/**
+	 * Returns all fields for an entity.
+	 *
+	 * @param entity - Entity name
+	 * @returns Field metadata
+	 * @throws AutotaskApiError if metadata has never been loaded and the fetch fails
+	 */
+	async getFields(entity: MetadataEntity): Promise<FieldInfo[]> {
+		const metadata = await this.get(entity)
+		return [...metadata.fields.values()]
+	}
+
+	/**
+	 * Returns a single field by name (case-insensitive).
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Field name (e.g., 'priority')
+	 * @returns Field metadata, or undefined if the entity has no such field
+	 */
+	async getField(entity: MetadataEntity, fieldName: string): Promise<FieldInfo | undefined> {
+		const metadata = await this.get(entity)
+		return metadata.fields.get(fieldName.toLowerCase())
+	}
+
+	/**
+	 * Returns the active picklist options for a field.
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Picklist field name
+	 * @returns Active options in display order (empty if not a picklist)
+	 */
+	async getPicklist(entity: MetadataEntity, fieldName: string): Promise<PicklistValue[]> {
+		const field = await this.getField(entity, fieldName)
+		return (field?.picklistValues ?? [])
+			.filter((pv) => pv.isActive)
+			.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+	}
+
+	/**
+	 * Maps a picklist value to its label.
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Picklist field name
+	 * @param value - Numeric picklist value
+	 * @returns Label, or undefined if unknown
+	 */
+	async labelFor(
+		entity: MetadataEntity,
+		fieldName: string,
+		value: string | number
+	): Promise<string | undefined> {
+		const field = await this.getField(entity, fieldName)
+		return field?.picklistValues?.find((pv) => pv.value === String(value))?.label
+	}
+
+	/**
+	 * Maps a picklist value to its label for display, falling back to the raw
+	 * code if the value is unknown or metadata is unavailable.
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Picklist field name
+	 * @param value - Numeric picklist value
+	 * @returns The label, or the original value
+	 */
+	async labelOrCode(entity: MetadataEntity, fieldName: string, value: number): Promise<string | number> {
+		try {
+			return (await this.labelFor(entity, fieldName, value)) ?? value
+		} catch {
+			return value
+		}
+	}
+
+	/**
+	 * Maps a label (case-insensitive) or a numeric value to a picklist value.
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Picklist field name
+	 * @param labelOrValue - Label such as 'High', or a numeric code such as '1'
+	 * @returns Numeric value, or undefined if it matches no active option
+	 */
+	async valueFor(
+		entity: MetadataEntity,
+		fieldName: string,
+		labelOrValue: string | number
+	): Promise<number | undefined> {
+		const options = await this.getPicklist(entity, fieldName)
+		const wanted = String(labelOrValue).trim().toLowerCase()
+		const match =
+			options.find((pv) => pv.label.trim().toLowerCase() === wanted) ??
+			options.find((pv) => pv.value === wanted)
+		return match ? parseInt(match.value) : undefined
+	}
+
+	/**
+	 * Resolves tool input to a picklist value, for use where an invalid value
+	 * should be reported back to the caller.
+	 *
+	 * Numeric codes are passed through unchanged if metadata cannot be loaded,
+	 * so a metadata outage does not block ticket creation.
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Picklist field name
+	 * @param labelOrValue - Label such as 'High', or a numeric code such as '1'
+	 * @returns Numeric picklist value
+	 * @throws Error listing the valid labels if the input matches no active option
+	 */
+	async resolveValue(entity: MetadataEntity, fieldName: string, labelOrValue: string): Promise<number> {
+		let options: PicklistValue[]
+		try {
+			options = await this.getPicklist(entity, fieldName)
+		} catch (error) {
+			if (/^\d+$/.test(labelOrValue.trim())) {
+				logger.warn({ error, entity, fieldName, labelOrValue }, 'Metadata unavailable, using raw picklist code')
+				return parseInt(labelOrValue)
+			}
+			throw error
+		}
+
+		const value = await this.valueFor(entity, fieldName, labelOrValue)
+		if (value === undefined) {
+			throw new Error(
+				`Unknown ${fieldName} "${labelOrValue}". Valid options: ${options.map((pv) => pv.label).join(', ')}`
+			)
+		}
+		return value
+	}
+
+	/**
+	 * Returns the default value of a picklist field.
+	 *
+	 * @param entity - Entity name
+	 * @param fieldName - Picklist field name
+	 * @returns Default option, or undefined if none is marked default
+	 */
+	async getDefault(entity: MetadataEntity, fieldName: string): Promise<PicklistValue | undefined> {
+		const options = await this.getPicklist(entity, fieldName)
+		return options.find((pv) => pv.isDefaultValue)
+	}
+
+	/**
+	 * Returns cached metadata, loading or reloading it when missing or stale.
+	 * @internal
+	 */
+	private async get(entity: MetadataEntity): Promise<EntityMetadata> {
+		const cached = this.cache.get(entity)
+		if (cached && Date.now() - cached.loadedAt < this.refreshIntervalMs) {
+			return cached
+		}
+		try {
+			return await this.load(entity)
+		} catch (error) {
+			if (cached) {
+				logger.warn({ error, entity }, 'Serving stale Autotask metadata after refresh failure')
+				return cached
+			}
+			throw error
+		}
+	}
+
+	/**
+	 * Fetches field metadata for an entity, sharing concurrent loads.
+	 * @internal
+	 */
+	private load(entity: MetadataEntity): Promise<EntityMetadata> {
+		const pending = this.loading.get(entity)
+		if (pending) {
+			return pending
+		}
+
+		const promise = this.client
+			.get<{ fields?: FieldInfo[] }>(`/${entity}/entityInformation/fields`)
+			.then((data) => {
+				const metadata: EntityMetadata = {
+					fields: new Map((data.fields ?? []).map((f) => [f.name.toLowerCase(), f])),
+					loadedAt: Date.now()
+				}
+				this.cache.set(entity, metadata)
+				logger.info({ entity, fieldCount: metadata.fields.size }, 'Loaded Autotask entity metadata')
+				return metadata
+			})
+			.finally(() => {
+				this.loading.delete(entity)
+			})
+
+		this.loading.set(entity, promise)
+		return promise
+	}
+}
+
+/**
+ * Shared metadata service backed by the shared Autotask client.
+ */
+export const metadataService = new MetadataService(autotaskClient, config.autotask.metadataRefreshMs)
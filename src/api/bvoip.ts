@@ -6,6 +6,7 @@
  */
 import { config } from '../config.js'
 import { logger } from '../utils/logger.js'
+import { httpCassette } from './httpCassette.js'
 
 /**
  * Represents a phone status entry from BVoip GetPhoneStatuses API.
@@ -57,7 +58,7 @@ export async function getPhoneStatuses(): Promise<BVoipPhoneStatus[]> {
 	const apiKey = config.bvoip.apiKey
 	const baseUrl = config.bvoip.baseUrl
 
-	if (!apiKey) {
+	if (!apiKey && !httpCassette.isReplaying) {
 		throw new Error('BVoip API key not configured')
 	}
 
@@ -65,7 +66,7 @@ export async function getPhoneStatuses(): Promise<BVoipPhoneStatus[]> {
 	
 	logger.debug({ url }, 'Fetching phone statuses from BVoip')
 
-	const response = await fetch(url, {
+	const response = await httpCassette.fetch('bvoip', url, {
 		method: 'GET',
 		headers: {
 			'Authorization': apiKey
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Checks that the company and contact a tool acts for go
+ * together and may be served, before anything is written.
+ *
+ * The IDs come from the voice agent, so a caller who talks it into using
+ * someone else's IDs must not be able to file tickets or change contact
+ * details on another customer's account. Every check fails closed: a
+ * contact that cannot be confirmed is refused.
+ * @module api/callerValidation
+ */
+import { ContactDetails, getContactById } from './autotask.js'
+import { config } from '../config.js'
+import { Tenant, tenantCompanyIds } from '../tenants.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Why a company or contact was refused.
+ */
+export type CallerRejection = 'company_not_allowed' | 'contact_not_found' | 'wrong_company' | 'contact_inactive'
+
+/**
+ * Error raised when the company or contact given to a tool may not be acted
+ * for. Never retryable.
+ */
+export class CallerValidationError extends Error {
+	/** Why the company or contact was refused */
+	readonly reason: CallerRejection
+
+	constructor(reason: CallerRejection, message: string) {
+		super(message)
+		this.name = 'CallerValidationError'
+		this.reason = reason
+	}
+}
+
+/**
+ * Whether a company is in `ALLOWED_COMPANY_IDS` and, for a session bound to
+ * a tenant, among the tenant's companies.
+ *
+ * @param companyId - Company to act for
+ * @param tenant - Tenant the session serves, if bound to one
+ * @returns True if the company may be served
+ */
+export function isCompanyAllowed(companyId: number, tenant?: Tenant): boolean {
+	const allowedCompanyIds = config.access.allowedCompanyIds
+	if (allowedCompanyIds.length > 0 && !allowedCompanyIds.includes(companyId)) {
+		return false
+	}
+	return !tenant || tenantCompanyIds(tenant).includes(companyId)
+}
+
+/**
+ * Checks a company against `ALLOWED_COMPANY_IDS` and the session's tenant.
+ *
+ * @param companyId - Company to act for
+ * @param tenant - Tenant the session serves, if bound to one
+ * @throws CallerValidationError if the company is not allowed
+ */
+export function assertCompanyAllowed(companyId: number, tenant?: Tenant): void {
+	if (!isCompanyAllowed(companyId, tenant)) {
+		logger.warn({ companyId, tenant: tenant?.companyId }, 'Company not allowed')
+		throw new CallerValidationError(
+			'company_not_allowed',
+			`Company ${companyId} is not served by this service desk. Do not retry with other IDs.`
+		)
+	}
+}
+
+/**
+ * Confirms a contact exists, belongs to the company and is active, after
+ * checking the company itself with {@link assertCompanyAllowed}. A contact
+ * created on this call, or pending review since an earlier one, is accepted
+ * while inactive when new contacts are held for review
+ * (`CONTACT_CREATION_POLICY=inactive`).
+ *
+ * @param companyId - Company to act for
+ * @param contactId - Contact to act for
+ * @param options.newContact - True if the contact was created on this call
+ * @param options.pendingReview - True if the lookup found the contact pending review
+ * @param options.tenant - Tenant the session serves, if bound to one
+ * @returns The contact
+ * @throws CallerValidationError if the contact may not be acted for
+ * @throws AutotaskApiError if the contact could not be fetched
+ *
+ * @example
+ * ```typescript
+ * const contact = await validateContact(1001, 2001)
+ * // throws CallerValidationError (reason 'wrong_company') for a contact of company 1002
+ * ```
+ */
+export async function validateContact(
+	companyId: number,
+	contactId: number,
+	options: { newContact?: boolean; pendingReview?: boolean; tenant?: Tenant } = {}
+): Promise<ContactDetails> {
+	assertCompanyAllowed(companyId, options.tenant)
+
+	const contact = await getContactById(contactId)
+	if (!contact) {
+		throw new CallerValidationError('contact_not_found', `Contact ${contactId} does not exist. Look the caller up again.`)
+	}
+	if (Number(contact.companyID) !== companyId) {
+		logger.warn({ companyId, contactId, contactCompanyId: contact.companyID }, 'Contact belongs to another company')
+		throw new CallerValidationError(
+			'wrong_company',
+			`Contact ${contactId} does not belong to company ${companyId}. Look the caller up again.`
+		)
+	}
+	const heldForReview = (options.newContact || options.pendingReview) && config.contacts.creationPolicy === 'inactive'
+	if (!contact.isActive && !heldForReview) {
+		throw new CallerValidationError('contact_inactive', `Contact ${contactId} is inactive. Look the caller up again.`)
+	}
+
+	return contact
+}
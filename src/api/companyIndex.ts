@@ -0,0 +1,200 @@
+/**
+ * @fileoverview In-memory index of active Autotask companies for fuzzy and
+ * phonetic name matching.
+ *
+ * Autotask's own filters only offer exact, beginsWith and contains, which
+ * miss transcription errors such as "Acme Incorporated" for "ACME Inc." or
+ * "North Wind" for "Northwind". The index holds every active company name,
+ * is re-synced periodically, and ranks candidates with the scores from
+ * `utils/nameMatching`.
+ * @module api/companyIndex
+ */
+import { CompanyDetails, searchCompanyByName } from './autotask.js'
+import { query } from './queryBuilder.js'
+import { config } from '../config.js'
+import { logger } from '../utils/logger.js'
+import { companyNameSimilarity, companyNameTokens, tokenSimilarity } from '../utils/nameMatching.js'
+
+/**
+ * A company with how closely its name matches the name searched for.
+ */
+export interface ScoredCompany extends CompanyDetails {
+	/** Match score between 0 and 1; 1 is an exact match after normalization */
+	score: number
+}
+
+/**
+ * Index health, reported on `/health`.
+ */
+export interface CompanyIndexStats {
+	/** Companies in the index */
+	companies: number
+	/** ISO time of the last successful sync, or null if never synced */
+	syncedAt: string | null
+	/** Whether a sync is running */
+	syncing: boolean
+}
+
+/**
+ * A company with its name pre-tokenized.
+ * @internal
+ */
+interface IndexedCompany {
+	company: CompanyDetails
+	tokens: string[]
+}
+
+/**
+ * Holds the active companies and ranks them against a spoken name.
+ *
+ * The index loads on first search and is refreshed on an interval; if a
+ * refresh fails the previous copy keeps being served.
+ *
+ * @example
+ * ```typescript
+ * const candidates = await companyIndex.search('Acme Incorporated')
+ * // [{ id: 1001, companyName: 'Acme Corporation', score: 1, ... }, ...]
+ * ```
+ */
+export class CompanyIndex {
+	private readonly options: { syncIntervalMs: number; maxPages: number; minScore: number }
+	private entries: IndexedCompany[] = []
+	private syncedAt: number | null = null
+	private syncing: Promise<void> | null = null
+	private syncTimer: NodeJS.Timeout | null = null
+
+	constructor(options: { syncIntervalMs: number; maxPages: number; minScore: number }) {
+		this.options = options
+	}
+
+	/**
+	 * Syncs now and then on the sync interval. Failures are logged.
+	 */
+	startPeriodicSync(): void {
+		if (this.syncTimer) {
+			return
+		}
+		const syncNow = () => {
+			this.sync().catch((error) => {
+				logger.warn({ error }, 'Failed to sync company index')
+			})
+		}
+		syncNow()
+		this.syncTimer = setInterval(syncNow, this.options.syncIntervalMs)
+		this.syncTimer.unref()
+	}
+
+	/**
+	 * Stops the periodic sync started by {@link startPeriodicSync}.
+	 */
+	stopPeriodicSync(): void {
+		if (this.syncTimer) {
+			clearInterval(this.syncTimer)
+			this.syncTimer = null
+		}
+	}
+
+	/**
+	 * Reloads all active companies. Concurrent calls share one load.
+	 *
+	 * @throws AutotaskApiError if the query fails
+	 */
+	async sync(): Promise<void> {
+		if (!this.syncing) {
+			this.syncing = this.load().finally(() => {
+				this.syncing = null
+			})
+		}
+		return this.syncing
+	}
+
+	/**
+	 * Ranks indexed companies against a name as heard, best first.
+	 *
+	 * Loads the index first if it has never been synced.
+	 *
+	 * @param name - Company name from the transcript
+	 * @param limit - Maximum candidates to return
+	 * @returns Companies scoring at least the minimum score
+	 * @throws AutotaskApiError if the index is empty and loading it fails
+	 */
+	async search(name: string, limit = 5): Promise<ScoredCompany[]> {
+		if (this.syncedAt === null) {
+			await this.sync()
+		}
+
+		const heard = companyNameTokens(name)
+		return this.entries
+			.map(({ company, tokens }) => ({ ...company, score: round(tokenSimilarity(heard, tokens)) }))
+			.filter((candidate) => candidate.score >= this.options.minScore)
+			.sort((a, b) => b.score - a.score || a.companyName.localeCompare(b.companyName))
+			.slice(0, limit)
+	}
+
+	/**
+	 * Returns index health.
+	 */
+	stats(): CompanyIndexStats {
+		return {
+			companies: this.entries.length,
+			syncedAt: this.syncedAt === null ? null : new Date(this.syncedAt).toISOString(),
+			syncing: this.syncing !== null
+		}
+	}
+
+	/** @internal */
+	private async load(): Promise<void> {
+		const started = Date.now()
+		const companies = await query<CompanyDetails>('Companies')
+			.eq('isActive', 1)
+			.includeFields('id', 'companyName', 'phone', 'isActive')
+			.execute({ maxPages: this.options.maxPages })
+
+		this.entries = companies.map((company) => ({ company, tokens: companyNameTokens(company.companyName) }))
+		this.syncedAt = Date.now()
+		logger.info({ companies: companies.length, durationMs: this.syncedAt - started }, 'Company index synced')
+	}
+}
+
+/**
+ * Rounds a score to three decimals for stable output.
+ * @internal
+ */
+function round(score: number): number {
+	return Math.round(score * 1000) / 1000
+}
+
+/**
+ * Shared company index configured from application settings.
+ */
+export const companyIndex = new CompanyIndex(config.companyIndex)
+
+/**
+ * Finds companies matching a spoken name, ranked by likelihood.
+ *
+ * Uses the in-memory index, and falls back to Autotask's tiered name search
+ * (scoring its results the same way) when the index has no candidate or
+ * cannot be loaded, so companies added since the last sync are still found.
+ *
+ * @param name - Company name from the transcript
+ * @param limit - Maximum candidates to return
+ * @returns Candidates, best first
+ * @throws AutotaskApiError if the fallback search fails
+ */
+export async function rankCompanyCandidates(name: string, limit = 5): Promise<ScoredCompany[]> {
+	try {
+		const candidates = await companyIndex.search(name, limit)
+		if (candidates.length > 0) {
+			logger.info({ name, count: candidates.length, top: candidates[0].score }, 'Company candidates from index')
+			return candidates
+		}
+	} catch (error) {
+		logger.warn({ error, name }, 'Company index unavailable, searching Autotask directly')
+	}
+
+	const companies = await searchCompanyByName(name)
+	return companies
+		.map((company) => ({ ...company, score: round(companyNameSimilarity(name, company.companyName)) }))
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Ranks a company's contacts against a caller's name as heard,
+ * tolerating nicknames ("Bob" for "Robert"), misheard spellings ("Smyth")
+ * and sound-alikes, so a known caller is offered back instead of being
+ * created again as a new contact. Also finds the contacts a new contact
+ * would duplicate before it is created.
+ * @module api/contactMatching
+ */
+import { ContactDetails, listCompanyContacts } from './autotask.js'
+import { config } from '../config.js'
+import { logger } from '../utils/logger.js'
+import { MatchConfidence, matchConfidence, personNameSimilarity } from '../utils/nameMatching.js'
+import { phoneNumbersMatch } from '../utils/phoneNumber.js'
+
+/**
+ * A contact with how closely its name matches the name searched for.
+ */
+export interface ScoredContact extends ContactDetails {
+	/** Match score between 0 and 1; 1 is an exact match */
+	score: number
+	/** Confidence bucket for the score */
+	confidence: MatchConfidence
+}
+
+/**
+ * Ranks a company's active contacts by name similarity, best first.
+ *
+ * @param companyId - Company to search within
+ * @param firstName - First name as heard
+ * @param lastName - Last name as heard
+ * @param limit - Maximum candidates to return
+ * @returns Contacts scoring at least `CONTACT_MATCH_MIN_SCORE`
+ * @throws AutotaskApiError if the API returns an error
+ *
+ * @example
+ * ```typescript
+ * const candidates = await rankContactCandidates(1002, 'Bob', 'Jones')
+ * // [{ id: 2003, firstName: 'Robert', lastName: 'Jones', score: 0.98, confidence: 'high', ... }]
+ * ```
+ */
+export async function rankContactCandidates(
+	companyId: number,
+	firstName: string,
+	lastName: string,
+	limit = 5
+): Promise<ScoredContact[]> {
+	const contacts = await listCompanyContacts(companyId)
+
+	const candidates = contacts
+		.map((contact) => {
+			const score = Math.round(personNameSimilarity({ firstName, lastName }, contact) * 1000) / 1000
+			return { ...contact, score, confidence: matchConfidence(score) }
+		})
+		.filter((candidate) => candidate.score >= config.contacts.minMatchScore)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, limit)
+
+	logger.info(
+		{ companyId, firstName, lastName, contacts: contacts.length, candidates: candidates.length, top: candidates[0]?.score },
+		'Ranked contact candidates'
+	)
+	return candidates
+}
+
+/**
+ * What a possible duplicate has in common with the contact about to be created.
+ */
+export type DuplicateReason = 'email' | 'phone' | 'name'
+
+/**
+ * An existing contact that a new contact would duplicate.
+ */
+export interface DuplicateContact extends ContactDetails {
+	/** Details shared with the new contact, strongest first */
+	matchedOn: DuplicateReason[]
+}
+
+/**
+ * Finds a company's contacts that share an email address or phone number
+ * with a caller about to be created as a contact, or have a similar name.
+ *
+ * Email addresses are compared case-insensitively across all three email
+ * fields, phone numbers in any format across the phone, mobile and
+ * alternate fields.
+ *
+ * @param companyId - Company the contact would be created in
+ * @param caller - Details of the contact about to be created
+ * @param options - Search options
+ * @param options.includeInactive - Also check inactive contacts, such as ones pending review
+ * @returns Possible duplicates, those sharing an email or phone first
+ * @throws AutotaskApiError if the API returns an error
+ *
+ * @example
+ * ```typescript
+ * const duplicates = await findDuplicateContacts(1002, {
+ *   firstName: 'Bobby',
+ *   lastName: 'Jonas',
+ *   emailAddress: 'bob@acmelogistics.example'
+ * })
+ * // [{ id: 2003, firstName: 'Robert', lastName: 'Jones', matchedOn: ['email', 'name'], ... }]
+ * ```
+ */
+export async function findDuplicateContacts(
+	companyId: number,
+	caller: { firstName: string; lastName: string; emailAddress?: string; phone?: string },
+	options: { includeInactive?: boolean } = {}
+): Promise<DuplicateContact[]> {
+	const contacts = await listCompanyContacts(companyId, options)
+	const email = caller.emailAddress?.trim().toLowerCase()
+	const phone = caller.phone
+
+	const duplicates = contacts
+		.map((contact) => {
+			const matchedOn: DuplicateReason[] = []
+			const emails = [contact.emailAddress, contact.emailAddress2, contact.emailAddress3]
+			if (email && emails.some((e) => e?.trim().toLowerCase() === email)) {
+				matchedOn.push('email')
+			}
+			const phones = [contact.phone, contact.mobilePhone, contact.alternatePhone]
+			if (phone && phones.some((p) => p && phoneNumbersMatch(p, phone, config.contacts.defaultCountryCode))) {
+				matchedOn.push('phone')
+			}
+			if (personNameSimilarity(caller, contact) >= config.contacts.minMatchScore) {
+				matchedOn.push('name')
+			}
+			return { ...contact, matchedOn }
+		})
+		.filter((contact) => contact.matchedOn.length > 0)
+		.sort((a, b) => sharesDetails(b) - sharesDetails(a) || b.matchedOn.length - a.matchedOn.length)
+
+	logger.info(
+		{ companyId, contacts: contacts.length, duplicates: duplicates.map((d) => ({ id: d.id, matchedOn: d.matchedOn })) },
+		'Checked for duplicate contacts'
+	)
+	return duplicates
+}
+
+/**
+ * 1 if a duplicate shares an email or phone rather than only a similar name.
+ * @internal
+ */
+function sharesDetails(duplicate: DuplicateContact): number {
+	return duplicate.matchedOn[0] === 'name' ? 0 : 1
+}
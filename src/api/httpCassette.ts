@@ -0,0 +1,431 @@
+/**
+ * @fileoverview Record-and-replay of outbound HTTP calls to Autotask and BVoip.
+ *
+ * In `record` mode every request/response pair is appended to a JSON-lines
+ * cassette with credentials redacted and personal data replaced by stable
+ * pseudonyms. In `replay` mode
+ * responses are served from the cassette instead of the network, so tool
+ * handlers can be re-run deterministically against a captured session.
+ * @module api/httpCassette
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs'
+import { createHash, createHmac } from 'node:crypto'
+import { dirname } from 'path'
+import { config } from '../config.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Cassette behaviour.
+ */
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+/**
+ * One recorded request/response pair.
+ */
+export interface CassetteInteraction {
+	/** Upstream service (e.g., 'autotask', 'bvoip') */
+	service: string
+	/** ISO timestamp when recorded */
+	recordedAt: string
+	/** Redacted request */
+	request: {
+		method: string
+		url: string
+		headers: Record<string, string>
+		body?: unknown
+	}
+	/** Redacted response */
+	response: {
+		status: number
+		statusText: string
+		headers: Record<string, string>
+		body: string
+	}
+}
+
+/**
+ * Thrown in replay mode for a request the cassette holds no response for.
+ */
+export class CassetteMissError extends Error {
+	/** Replay key of the request (method, URL and body hash) */
+	readonly key: string
+
+	constructor(key: string) {
+		super(`No recorded HTTP interaction for ${key}`)
+		this.name = 'CassetteMissError'
+		this.key = key
+	}
+}
+
+/**
+ * Placeholder written in place of credentials.
+ * @internal
+ */
+const REDACTED = '[REDACTED]'
+
+/**
+ * Headers that carry credentials.
+ * @internal
+ */
+const SECRET_HEADERS = /^(authorization|cookie|secret|username|apiintegrationcode|x-api-key)$/i
+
+/**
+ * Query parameters that carry personal data (e.g., the zone lookup's `user`).
+ * @internal
+ */
+const PII_QUERY_PARAMS = new Set(['user', 'email', 'phone'])
+
+/**
+ * JSON keys holding personal data, lower-cased. See {@link pseudonymize} for
+ * what each kind is replaced with.
+ * @internal
+ */
+const PII_KEYS = new Set([
+	'firstname',
+	'lastname',
+	'contactname',
+	'emailaddress',
+	'emailaddress2',
+	'emailaddress3',
+	'email',
+	'phone',
+	'mobilephone',
+	'officephone',
+	'alternatephone',
+	'homephone',
+	'faxnumber',
+	'address1',
+	'address2',
+	'description'
+])
+
+/**
+ * Keys whose values are people's names, lower-cased.
+ * @internal
+ */
+const NAME_KEYS = new Set(['firstname', 'lastname', 'contactname'])
+
+/**
+ * Letters pseudonymous names are built from, alternating consonant and vowel
+ * so that they read (and match phonetically) like names.
+ * @internal
+ */
+const CONSONANTS = 'bdfgklmnprstvz'
+const VOWELS = 'aeiou'
+
+/**
+ * Replaces a personal-data value with a stable pseudonym of the same shape,
+ * derived from a keyed hash (`HTTP_CASSETTE_SALT`) of the value:
+ *
+ * - names become made-up names, word by word, so a contact's `firstName`
+ *   and `lastName` still make up their `contactName`
+ * - email addresses get a made-up mailbox and keep their domain
+ * - phone numbers get made-up digits in the same format and keep their last four
+ * - anything else (addresses, descriptions) becomes `[REDACTED <hash>]`
+ *
+ * Equal values (ignoring case and surrounding spaces) get equal pseudonyms,
+ * so replayed name matching, duplicate detection and filters behave as they
+ * did when recording.
+ *
+ * @param key - JSON key or filter field the value belongs to
+ * @param value - Value to replace
+ * @returns The pseudonym; empty values are returned unchanged
+ *
+ * @example
+ * ```typescript
+ * pseudonymize('firstName', 'John')                // e.g. 'Kadome'
+ * pseudonymize('emailAddress', 'john@acme.example') // e.g. 'tisoga@acme.example'
+ * pseudonymize('phone', '555-101-0001')            // e.g. '830-472-0001'
+ * ```
+ */
+export function pseudonymize(key: string, value: unknown): unknown {
+	if (value === null || value === undefined || value === '') {
+		return value
+	}
+	const text = String(value)
+	const lower = key.toLowerCase()
+
+	if (lower.includes('phone') || lower === 'faxnumber') {
+		const digits = text.replace(/\D/g, '')
+		const kept = digits.length > 4 ? digits.slice(-4) : ''
+		const hash = digest(digits)
+		const replaced = [...digits.slice(0, digits.length - kept.length)].map((_, i) => String(hash[i] % 10)).join('') + kept
+		let next = 0
+		return text.replace(/\d/g, () => replaced[next++])
+	}
+	if (lower.includes('email') && text.includes('@')) {
+		return `${madeUpName(digest(text))}@${text.split('@').pop()}`
+	}
+	if (NAME_KEYS.has(lower)) {
+		return text.replace(/[^\s]+/g, (word) => {
+			const name = madeUpName(digest(word))
+			return name.charAt(0).toUpperCase() + name.slice(1)
+		})
+	}
+	return `[REDACTED ${digest(text).toString('hex').slice(0, 8)}]`
+}
+
+/**
+ * Keyed hash of a value, ignoring case and surrounding spaces.
+ * @internal
+ */
+function digest(text: string): Buffer {
+	return createHmac('sha256', config.cassette.salt).update(text.trim().toLowerCase()).digest()
+}
+
+/**
+ * Builds a three-syllable lower-case name from a hash.
+ * @internal
+ */
+function madeUpName(hash: Buffer): string {
+	let name = ''
+	for (let i = 0; i < 3; i++) {
+		name += CONSONANTS[hash[2 * i] % CONSONANTS.length] + VOWELS[hash[2 * i + 1] % VOWELS.length]
+	}
+	return name
+}
+
+/**
+ * Recursively pseudonymizes personal data in a parsed JSON value, including
+ * values compared against personal-data fields in query filters.
+ *
+ * @param value - Parsed JSON
+ * @returns A redacted copy
+ */
+export function redactJson(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(redactJson)
+	}
+	if (!value || typeof value !== 'object') {
+		return value
+	}
+
+	const record = value as Record<string, unknown>
+	const filterField = typeof record.field === 'string' ? record.field.toLowerCase() : undefined
+
+	return Object.fromEntries(
+		Object.entries(record).map(([key, child]) => {
+			const lower = key.toLowerCase()
+			if (PII_KEYS.has(lower)) {
+				return [key, pseudonymize(lower, child)]
+			}
+			if (key === 'value' && filterField && PII_KEYS.has(filterField)) {
+				return [key, Array.isArray(child) ? child.map((v) => pseudonymize(filterField, v)) : pseudonymize(filterField, child)]
+			}
+			return [key, redactJson(child)]
+		})
+	)
+}
+
+/**
+ * Pseudonymizes personal data in query parameters.
+ *
+ * @param url - Request URL
+ * @returns The URL with sensitive parameter values replaced
+ */
+export function redactUrl(url: string): string {
+	let parsed: URL
+	try {
+		parsed = new URL(url)
+	} catch {
+		return url
+	}
+	for (const key of [...parsed.searchParams.keys()]) {
+		if (PII_QUERY_PARAMS.has(key.toLowerCase())) {
+			// The zone lookup's `user` is the API user's email address
+			const kind = key.toLowerCase() === 'phone' ? 'phone' : 'email'
+			parsed.searchParams.set(key, String(pseudonymize(kind, parsed.searchParams.get(key))))
+		} else if (key.toLowerCase() === 'search') {
+			// Autotask GET queries carry the filter as JSON in `search`
+			parsed.searchParams.set(key, redactBody(parsed.searchParams.get(key) ?? ''))
+		}
+	}
+	return parsed.toString()
+}
+
+/**
+ * Redacts a textual body, leaving non-JSON bodies untouched.
+ * @internal
+ */
+function redactBody(body: string): string {
+	if (!body) {
+		return body
+	}
+	try {
+		return JSON.stringify(redactJson(JSON.parse(body)))
+	} catch {
+		return body
+	}
+}
+
+/**
+ * Copies headers, replacing credentials.
+ * @internal
+ */
+function redactHeaders(headers: HeadersInit | undefined): Record<string, string> {
+	const result: Record<string, string> = {}
+	new Headers(headers).forEach((value, key) => {
+		result[key] = SECRET_HEADERS.test(key) ? REDACTED : value
+	})
+	return result
+}
+
+/**
+ * Records or replays HTTP interactions. Pass-through when mode is `off`.
+ *
+ * Replay matches on method, redacted URL and a hash of the redacted body,
+ * so queries to the same endpoint with different filters are told apart,
+ * and serves recorded responses for each key in order; once a key's responses are used up the last one is
+ * repeated, so polling loops that run a little longer still resolve.
+ *
+ * @example
+ * ```typescript
+ * // HTTP_CASSETTE_MODE=record HTTP_CASSETTE_PATH=.cassettes/call-123.jsonl
+ * const response = await httpCassette.fetch('autotask', url, { headers })
+ * ```
+ */
+export class HttpCassette {
+	private readonly mode: CassetteMode
+	private readonly path: string
+	private replayQueues: Map<string, { interactions: CassetteInteraction[]; next: number }> | null = null
+
+	constructor(options: { mode: CassetteMode; path: string }) {
+		this.mode = options.mode
+		this.path = options.path
+		if (this.mode !== 'off') {
+			logger.warn({ mode: this.mode, file: this.path }, 'HTTP cassette enabled')
+		}
+	}
+
+	/**
+	 * Whether responses are served from the cassette instead of the network.
+	 */
+	get isReplaying(): boolean {
+		return this.mode === 'replay'
+	}
+
+	/**
+	 * Drop-in replacement for `fetch` that records or replays the call.
+	 *
+	 * @param service - Upstream service name stored with the interaction
+	 * @param url - Request URL
+	 * @param init - Request options; bodies are expected to be strings
+	 * @returns The live or replayed response
+	 * @throws {@link CassetteMissError} in replay mode when the cassette has no matching interaction
+	 */
+	async fetch(service: string, url: string, init: RequestInit = {}): Promise<Response> {
+		if (this.mode === 'replay') {
+			return this.replay(url, init)
+		}
+
+		const response = await fetch(url, init)
+		if (this.mode === 'record') {
+			await this.record(service, url, init, response.clone())
+		}
+		return response
+	}
+
+	/** @internal */
+	private async record(service: string, url: string, init: RequestInit, response: Response): Promise<void> {
+		const requestBody = typeof init.body === 'string' ? redactBody(init.body) : undefined
+		const interaction: CassetteInteraction = {
+			service,
+			recordedAt: new Date().toISOString(),
+			request: {
+				method: (init.method ?? 'GET').toUpperCase(),
+				url: redactUrl(url),
+				headers: redactHeaders(init.headers),
+				body: requestBody ? tryParse(requestBody) : undefined
+			},
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: redactHeaders(response.headers),
+				body: redactBody(await response.text())
+			}
+		}
+
+		try {
+			mkdirSync(dirname(this.path), { recursive: true })
+			appendFileSync(this.path, JSON.stringify(interaction) + '\n', 'utf8')
+		} catch (error) {
+			logger.warn({ error, file: this.path }, 'Failed to write HTTP cassette')
+		}
+	}
+
+	/** @internal */
+	private replay(url: string, init: RequestInit): Response {
+		const requestBody = typeof init.body === 'string' ? redactBody(init.body) : undefined
+		const key = replayKey((init.method ?? 'GET').toUpperCase(), redactUrl(url), requestBody ? tryParse(requestBody) : undefined)
+		const queue = this.loadReplay().get(key)
+		if (!queue) {
+			throw new CassetteMissError(key)
+		}
+
+		const interaction = queue.interactions[Math.min(queue.next, queue.interactions.length - 1)]
+		queue.next++
+		logger.debug({ key, index: queue.next - 1 }, 'Replaying HTTP interaction')
+
+		const { status, statusText, headers, body } = interaction.response
+		return new Response(body === '' || status === 204 ? null : body, { status, statusText, headers })
+	}
+
+	/**
+	 * Reads the cassette once and groups interactions by request key.
+	 * @internal
+	 */
+	private loadReplay(): Map<string, { interactions: CassetteInteraction[]; next: number }> {
+		if (this.replayQueues) {
+			return this.replayQueues
+		}
+
+		this.replayQueues = new Map()
+		if (!existsSync(this.path)) {
+			logger.error({ file: this.path }, 'HTTP cassette not found, every request will fail')
+			return this.replayQueues
+		}
+
+		const lines = readFileSync(this.path, 'utf8').split('\n').filter((line) => line.trim())
+		for (const line of lines) {
+			const interaction = JSON.parse(line) as CassetteInteraction
+			const { method, url, body } = interaction.request
+			const key = replayKey(method, url, body)
+			const queue = this.replayQueues.get(key) ?? { interactions: [], next: 0 }
+			queue.interactions.push(interaction)
+			this.replayQueues.set(key, queue)
+		}
+
+		logger.info({ file: this.path, interactions: lines.length }, 'Loaded HTTP cassette')
+		return this.replayQueues
+	}
+}
+
+/**
+ * Builds the key a request is replayed by: method, redacted URL and, if
+ * there is a body, a short hash of the redacted body as it is recorded.
+ * @internal
+ */
+function replayKey(method: string, url: string, body: unknown): string {
+	if (body === undefined) {
+		return `${method} ${url}`
+	}
+	const digest = createHash('sha256').update(JSON.stringify(body)).digest('hex').slice(0, 16)
+	return `${method} ${url} #${digest}`
+}
+
+/**
+ * Parses JSON, returning the input unchanged if it is not JSON.
+ * @internal
+ */
+function tryParse(text: string): unknown {
+	try {
+		return JSON.parse(text)
+	} catch {
+		return text
+	}
+}
+
+/**
+ * Shared cassette configured from application settings.
+ */
+export const httpCassette = new HttpCassette({ mode: config.cassette.mode, path: config.cassette.path })
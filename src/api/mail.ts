@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Outgoing email through a pluggable transport.
+ *
+ * `SmtpTransport` speaks SMTP directly (STARTTLS or implicit TLS, AUTH
+ * PLAIN) so no mail library is needed; point it at any relay, or at the
+ * local stand-in in `mock/smtpMock` during development. `LogTransport`
+ * only writes messages to the log.
+ * @module api/mail
+ */
+import { randomUUID } from 'crypto'
+import { connect as connectTcp, Socket } from 'net'
+import { connect as connectTls } from 'tls'
+import { config, Config } from '../config.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * A plain-text email.
+ */
+export interface MailMessage {
+	/** Recipient address */
+	to: string
+	/** Subject line */
+	subject: string
+	/** Plain-text body */
+	text: string
+}
+
+/**
+ * Sends email. Implementations throw {@link MailDeliveryError} when a
+ * message cannot be handed over.
+ */
+export interface MailTransport {
+	/**
+	 * Sends a message.
+	 *
+	 * @param message - The message to send
+	 * @throws MailDeliveryError if the message was not accepted
+	 */
+	send(message: MailMessage): Promise<void>
+}
+
+/**
+ * Error raised when a message could not be delivered to the mail server.
+ */
+export class MailDeliveryError extends Error {
+	/** SMTP reply code, if the server rejected a command */
+	readonly replyCode?: number
+
+	constructor(message: string, replyCode?: number) {
+		super(message)
+		this.name = 'MailDeliveryError'
+		this.replyCode = replyCode
+	}
+}
+
+/**
+ * Writes messages to the log instead of sending them. For development only:
+ * the log then contains whatever the message contains.
+ */
+export class LogTransport implements MailTransport {
+	async send(message: MailMessage): Promise<void> {
+		logger.warn({ to: message.to, subject: message.subject, text: message.text }, 'Mail not sent (MAIL_TRANSPORT=log)')
+	}
+}
+
+/**
+ * A parsed SMTP reply.
+ * @internal
+ */
+interface SmtpReply {
+	code: number
+	lines: string[]
+}
+
+/**
+ * Sends mail over SMTP, one connection per message.
+ *
+ * @example
+ * ```typescript
+ * const transport = new SmtpTransport({ ...config.mail.smtp, from: 'desk@example.com' })
+ * await transport.send({ to: 'john@acme.example', subject: 'Hello', text: 'Hi John' })
+ * ```
+ */
+export class SmtpTransport implements MailTransport {
+	private readonly options: Config['mail']['smtp'] & { from: string }
+
+	constructor(options: Config['mail']['smtp'] & { from: string }) {
+		this.options = options
+	}
+
+	async send(message: MailMessage): Promise<void> {
+		const { host, port, security, username, password, from } = this.options
+		const session = new SmtpSession(
+			security === 'tls' ? connectTls({ host, port, servername: host }) : connectTcp({ host, port }),
+			this.options.timeoutMs
+		)
+
+		try {
+			await session.expect([220])
+			let greeting = await session.command(`EHLO ${localName()}`, [250])
+
+			if (security === 'starttls') {
+				if (!greeting.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+					throw new MailDeliveryError(`${host} does not offer STARTTLS; set SMTP_SECURITY=none only for local relays`)
+				}
+				await session.command('STARTTLS', [220])
+				await session.upgrade(host)
+				greeting = await session.command(`EHLO ${localName()}`, [250])
+			}
+
+			if (username) {
+				const credentials = Buffer.from(`\u0000${username}\u0000${password}`).toString('base64')
+				await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN')
+			}
+
+			await session.command(`MAIL FROM:<${address(from)}>`, [250])
+			await session.command(`RCPT TO:<${address(message.to)}>`, [250, 251])
+			await session.command('DATA', [354])
+			await session.command(`${formatMessage(from, message)}\r\n.`, [250], 'message body')
+			logger.info({ to: message.to, subject: message.subject, host }, 'Mail sent')
+
+			await session.command('QUIT', [221]).catch(() => undefined)
+		} finally {
+			session.close()
+		}
+	}
+}
+
+/**
+ * Line-oriented SMTP conversation over a socket that can be upgraded to TLS.
+ * @internal
+ */
+class SmtpSession {
+	private socket: Socket
+	private readonly timeoutMs: number
+	private buffer = ''
+	private lines: string[] = []
+	private failure: Error | null = null
+	private notify: (() => void) | null = null
+
+	constructor(socket: Socket, timeoutMs: number) {
+		this.socket = socket
+		this.timeoutMs = timeoutMs
+		this.attach(socket)
+	}
+
+	/** Sends a command and checks the reply code. */
+	async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+		this.socket.write(`${line}\r\n`)
+		return this.expect(expected, label)
+	}
+
+	/** Reads the next reply and checks its code. */
+	async expect(expected: number[], label = 'greeting'): Promise<SmtpReply> {
+		const reply = await this.reply()
+		if (!expected.includes(reply.code)) {
+			throw new MailDeliveryError(`SMTP ${label} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+		}
+		return reply
+	}
+
+	/** Upgrades the connection to TLS after STARTTLS was accepted. */
+	async upgrade(host: string): Promise<void> {
+		const plain = this.socket
+		for (const event of ['data', 'error', 'close']) {
+			plain.removeAllListeners(event)
+		}
+		plain.setTimeout(0)
+		const secure = connectTls({ socket: plain, servername: host })
+		this.attach(secure)
+		await new Promise<void>((resolve, reject) => {
+			secure.once('secureConnect', resolve)
+			secure.once('error', reject)
+		})
+	}
+
+	close(): void {
+		this.socket.destroy()
+	}
+
+	private attach(socket: Socket): void {
+		this.socket = socket
+		socket.setEncoding('utf8')
+		socket.setTimeout(this.timeoutMs, () => {
+			this.fail(new MailDeliveryError(`SMTP server did not respond within ${this.timeoutMs}ms`))
+			socket.destroy()
+		})
+		socket.on('data', (chunk: string) => {
+			this.buffer += chunk
+			const parts = this.buffer.split('\r\n')
+			this.buffer = parts.pop() ?? ''
+			this.lines.push(...parts)
+			this.wake()
+		})
+		socket.on('error', (error) => this.fail(new MailDeliveryError(`SMTP connection failed: ${error.message}`)))
+		socket.on('close', () => this.fail(new MailDeliveryError('SMTP connection closed')))
+	}
+
+	private fail(error: Error): void {
+		this.failure ??= error
+		this.wake()
+	}
+
+	private wake(): void {
+		const notify = this.notify
+		this.notify = null
+		notify?.()
+	}
+
+	/** Reads one (possibly multi-line) reply. */
+	private async reply(): Promise<SmtpReply> {
+		for (;;) {
+			const end = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line))
+			if (end >= 0) {
+				const lines = this.lines.splice(0, end + 1)
+				return { code: parseInt(lines[end].slice(0, 3)), lines: lines.map((line) => line.slice(4)) }
+			}
+			if (this.failure) {
+				throw this.failure
+			}
+			await new Promise<void>((resolve) => {
+				this.notify = resolve
+			})
+		}
+	}
+}
+
+/**
+ * Extracts the address from "Name <address>".
+ * @internal
+ */
+function address(mailbox: string): string {
+	return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim()
+}
+
+/**
+ * Hostname announced in EHLO.
+ * @internal
+ */
+function localName(): string {
+	return address(config.mail.from).split('@')[1] || 'localhost'
+}
+
+/**
+ * Builds the RFC 5322 message, with CRLF line endings and dot-stuffing.
+ * @internal
+ */
+function formatMessage(from: string, message: MailMessage): string {
+	const headers = [
+		`From: ${from}`,
+		`To: ${message.to}`,
+		`Subject: ${message.subject}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${randomUUID()}@${localName()}>`,
+		'MIME-Version: 1.0',
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: 8bit'
+	]
+	const body = message.text
+		.split(/\r?\n/)
+		.map((line) => (line.startsWith('.') ? `.${line}` : line))
+	return [...headers, '', ...body].join('\r\n')
+}
+
+/**
+ * Creates the transport selected by `MAIL_TRANSPORT`.
+ *
+ * @param settings - Mail settings
+ * @returns The transport, or null if email is disabled
+ */
+export function createMailTransport(settings: Config['mail'] = config.mail): MailTransport | null {
+	switch (settings.transport) {
+		case 'smtp':
+			if (!settings.smtp.host || !settings.from) {
+				logger.warn('MAIL_TRANSPORT=smtp needs SMTP_HOST and MAIL_FROM; email disabled')
+				return null
+			}
+			return new SmtpTransport({ ...settings.smtp, from: settings.from })
+		case 'log':
+			return new LogTransport()
+		default:
+			return null
+	}
+}
+
+/**
+ * Shared transport configured from application settings, or null if email
+ * is disabled.
+ */
+export const mailTransport = createMailTransport()
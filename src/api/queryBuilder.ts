@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Typed builder for the Autotask query filter grammar.
+ * Produces `/query` request bodies with nested `and`/`or` groups, `in`,
+ * `exist` and date comparisons, and validates field names against cached
+ * entity metadata before the request is sent.
+ * @module api/queryBuilder
+ */
+import { autotaskClient, AutotaskQueryBody, AutotaskQueryOptions } from './autotaskClient.js'
+import { metadataService, MetadataEntity } from './autotaskMetadata.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Comparison operators supported by Autotask query filters.
+ */
+export type ComparisonOperator =
+	| 'eq'
+	| 'noteq'
+	| 'gt'
+	| 'gte'
+	| 'lt'
+	| 'lte'
+	| 'beginsWith'
+	| 'endsWith'
+	| 'contains'
+
+/**
+ * Values accepted in a comparison. Dates are sent as ISO 8601 strings.
+ */
+export type FilterValue = string | number | boolean | Date
+
+/**
+ * A single node of the Autotask filter grammar.
+ */
+export type FilterExpression =
+	| { op: ComparisonOperator; field: string; value: string | number | boolean; udf?: boolean }
+	| { op: 'in' | 'notIn'; field: string; value: Array<string | number>; udf?: boolean }
+	| { op: 'exist' | 'notExist'; field: string; udf?: boolean }
+	| { op: 'and' | 'or'; items: FilterExpression[] }
+
+/**
+ * Error raised when a query references fields the entity does not have
+ * or that cannot be queried.
+ */
+export class QueryValidationError extends Error {
+	/** Entity the query targeted */
+	readonly entity: string
+	/** Offending field names */
+	readonly fields: string[]
+
+	constructor(entity: string, fields: string[]) {
+		super(`Invalid query fields for ${entity}: ${fields.join(', ')}`)
+		this.name = 'QueryValidationError'
+		this.entity = entity
+		this.fields = fields
+	}
+}
+
+/**
+ * Converts a filter value into its wire form.
+ * @internal
+ */
+function toWireValue(value: FilterValue): string | number | boolean {
+	return value instanceof Date ? value.toISOString() : value
+}
+
+/**
+ * A list of conditions combined with `and` or `or`.
+ *
+ * @typeParam F - Field names allowed in conditions
+ */
+export class ConditionGroup<F extends string> {
+	/** @internal */
+	readonly items: FilterExpression[] = []
+
+	/**
+	 * Adds a comparison.
+	 *
+	 * @param field - Field name
+	 * @param op - Comparison operator
+	 * @param value - Value to compare against
+	 */
+	where(field: F, op: ComparisonOperator, value: FilterValue): this {
+		this.items.push({ op, field, value: toWireValue(value) })
+		return this
+	}
+
+	/**
+	 * Shorthand for an `eq` comparison.
+	 */
+	eq(field: F, value: FilterValue): this {
+		return this.where(field, 'eq', value)
+	}
+
+	/**
+	 * Matches records whose field equals any of the values.
+	 */
+	in(field: F, values: Array<string | number>): this {
+		this.items.push({ op: 'in', field, value: values })
+		return this
+	}
+
+	/**
+	 * Matches records whose field equals none of the values.
+	 */
+	notIn(field: F, values: Array<string | number>): this {
+		this.items.push({ op: 'notIn', field, value: values })
+		return this
+	}
+
+	/**
+	 * Matches records where the field has a value.
+	 */
+	exists(field: F): this {
+		this.items.push({ op: 'exist', field })
+		return this
+	}
+
+	/**
+	 * Matches records where the field is empty.
+	 */
+	notExists(field: F): this {
+		this.items.push({ op: 'notExist', field })
+		return this
+	}
+
+	/**
+	 * Matches records where the date field falls within [from, to).
+	 */
+	between(field: F, from: Date, to: Date): this {
+		return this.where(field, 'gte', from).where(field, 'lt', to)
+	}
+
+	/**
+	 * Adds a nested group whose conditions must all match.
+	 *
+	 * @param build - Callback that populates the nested group
+	 */
+	and(build: (group: ConditionGroup<F>) => void): this {
+		return this.group('and', build)
+	}
+
+	/**
+	 * Adds a nested group where any condition may match.
+	 *
+	 * @param build - Callback that populates the nested group
+	 */
+	or(build: (group: ConditionGroup<F>) => void): this {
+		return this.group('or', build)
+	}
+
+	/** @internal */
+	private group(op: 'and' | 'or', build: (group: ConditionGroup<F>) => void): this {
+		const nested = new ConditionGroup<F>()
+		build(nested)
+		if (nested.items.length > 0) {
+			this.items.push({ op, items: nested.items })
+		}
+		return this
+	}
+}
+
+/**
+ * Fluent builder for an entity query.
+ *
+ * Top-level conditions are combined with `and`, matching Autotask's
+ * semantics for the `filter` array.
+ *
+ * @typeParam T - Record type returned by the query
+ * @typeParam F - Field names allowed in conditions (defaults to the keys of T)
+ *
+ * @example
+ * ```typescript
+ * const contacts = await query<ContactDetails>('Contacts')
+ *   .eq('companyID', 123)
+ *   .eq('isActive', 1)
+ *   .or((g) => g.eq('phone', '5551234567').eq('mobilePhone', '5551234567'))
+ *   .includeFields('id', 'firstName', 'lastName')
+ *   .execute()
+ * ```
+ */
+export class QueryBuilder<T, F extends string = Extract<keyof T, string>> extends ConditionGroup<F> {
+	/** Entity being queried */
+	readonly entity: MetadataEntity
+	private fields: F[] = []
+	private max?: number
+
+	constructor(entity: MetadataEntity) {
+		super()
+		this.entity = entity
+	}
+
+	/**
+	 * Restricts the fields returned for each record.
+	 */
+	includeFields(...fields: F[]): this {
+		this.fields.push(...fields)
+		return this
+	}
+
+	/**
+	 * Sets the page size (Autotask allows 1-500).
+	 */
+	maxRecords(count: number): this {
+		this.max = Math.max(1, Math.min(500, Math.floor(count)))
+		return this
+	}
+
+	/**
+	 * Produces the `/query` request body.
+	 */
+	build(): AutotaskQueryBody {
+		const body: AutotaskQueryBody = { filter: this.items }
+		if (this.fields.length > 0) {
+			body.includeFields = [...this.fields]
+		}
+		if (this.max !== undefined) {
+			body.MaxRecords = this.max
+		}
+		return body
+	}
+
+	/**
+	 * Checks every referenced field against the entity metadata.
+	 *
+	 * Skips validation (with a warning) if metadata cannot be loaded, so an
+	 * unavailable metadata endpoint does not block searches.
+	 *
+	 * @throws QueryValidationError if any field is unknown or not queryable
+	 */
+	async validate(): Promise<void> {
+		const names = new Set<string>(this.fields)
+		collectFields(this.items, names)
+
+		let invalid: string[]
+		try {
+			const checks = await Promise.all(
+				[...names].map(async (name) => {
+					const field = await metadataService.getField(this.entity, name)
+					return !field || field.isQueryable === false ? name : null
+				})
+			)
+			invalid = checks.filter((name): name is string => name !== null)
+		} catch (error) {
+			logger.warn({ error, entity: this.entity }, 'Skipping query validation, metadata unavailable')
+			return
+		}
+
+		if (invalid.length > 0) {
+			throw new QueryValidationError(this.entity, invalid)
+		}
+	}
+
+	/**
+	 * Validates and runs the query, yielding records across pages.
+	 *
+	 * @param options - Page and record caps
+	 */
+	async *iterate(options: AutotaskQueryOptions = {}): AsyncGenerator<T, void, undefined> {
+		await this.validate()
+		yield* autotaskClient.query<T>(this.entity, this.build(), options)
+	}
+
+	/**
+	 * Validates the query and counts the records it matches.
+	 *
+	 * @returns Number of matching records, regardless of page caps
+	 */
+	async count(): Promise<number> {
+		await this.validate()
+		return autotaskClient.count(this.entity, this.build())
+	}
+
+	/**
+	 * Validates and runs the query, collecting all pages.
+	 *
+	 * @param options - Page and record caps
+	 * @returns Matching records
+	 */
+	async execute(options: AutotaskQueryOptions = {}): Promise<T[]> {
+		await this.validate()
+		return autotaskClient.queryAll<T>(this.entity, this.build(), options)
+	}
+}
+
+/**
+ * Collects field names from a filter tree, skipping user-defined fields.
+ * @internal
+ */
+function collectFields(items: FilterExpression[], into: Set<string>): void {
+	for (const item of items) {
+		if ('items' in item) {
+			collectFields(item.items, into)
+		} else if (!item.udf) {
+			into.add(item.field)
+		}
+	}
+}
+
+/**
+ * Starts a query against an entity.
+ *
+ * @param entity - Entity to query
+ * @returns A new builder
+ */
+export function query<T, F extends string = Extract<keyof T, string>>(
+	entity: MetadataEntity
+): QueryBuilder<T, F> {
+	return new QueryBuilder<T, F>(entity)
+}
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Adaptive rate limiter for the Autotask REST API.
+ * Combines a concurrency semaphore (Autotask caps concurrent threads per
+ * integration) with a token bucket sized from the tenant's hourly request
+ * threshold, and slows callers down as reported usage approaches the limit.
+ * @module api/rateLimiter
+ */
+import { logger } from '../utils/logger.js'
+
+/**
+ * Response from Autotask's `ThresholdInformation` endpoint.
+ */
+export interface ThresholdInformation {
+	/** Maximum requests allowed in the current timeframe */
+	externalRequestThreshold: number
+	/** Length of the threshold window in minutes */
+	requestThresholdTimeframe: number
+	/** Requests already made in the current timeframe */
+	currentTimeframeRequestCount: number
+}
+
+/**
+ * Tuning options for {@link AdaptiveRateLimiter}.
+ */
+export interface RateLimiterOptions {
+	/** Maximum concurrent in-flight requests */
+	maxConcurrent: number
+	/** Token bucket capacity (largest allowed burst) */
+	burstSize: number
+	/** Assumed hourly threshold until the real one has been fetched */
+	defaultHourlyThreshold: number
+	/** Usage ratio (0-1) at which added delay begins */
+	backoffStartRatio: number
+	/** Delay in milliseconds added per request as usage reaches the threshold */
+	maxBackoffMs: number
+	/** How often to refresh threshold information, in milliseconds */
+	refreshIntervalMs: number
+}
+
+/**
+ * Snapshot of limiter state, exposed on `/health`.
+ */
+export interface RateLimiterUsage {
+	/** Requests allowed per timeframe */
+	threshold: number
+	/** Timeframe length in minutes */
+	timeframeMinutes: number
+	/** Requests used in the timeframe (last reported plus local count since) */
+	estimatedRequestCount: number
+	/** estimatedRequestCount / threshold */
+	usageRatio: number
+	/** Requests currently in flight */
+	inFlight: number
+	/** Requests waiting for a concurrency slot */
+	queued: number
+	/** Concurrency cap */
+	maxConcurrent: number
+	/** Tokens currently available in the bucket */
+	availableTokens: number
+	/** Delay currently added to each request, in milliseconds */
+	currentBackoffMs: number
+	/** ISO timestamp of the last successful threshold refresh */
+	lastRefreshedAt: string | null
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ * @internal
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Token bucket plus concurrency semaphore driven by Autotask threshold data.
+ *
+ * Callers {@link acquire} a slot before each request and invoke the returned
+ * release function when the request completes. Threshold information is
+ * pulled through the supplied fetcher on first use and then periodically.
+ *
+ * @example
+ * ```typescript
+ * const release = await limiter.acquire()
+ * try {
+ *   await doRequest()
+ * } finally {
+ *   release()
+ * }
+ * ```
+ */
+export class AdaptiveRateLimiter {
+	private readonly options: RateLimiterOptions
+	private readonly fetchThreshold: () => Promise<ThresholdInformation>
+
+	private inFlight = 0
+	private readonly waiters: Array<() => void> = []
+
+	private tokens: number
+	private lastRefill = Date.now()
+
+	private threshold: number
+	private timeframeMinutes = 60
+	private reportedCount = 0
+	private localCountSinceRefresh = 0
+	private lastRefreshedAt: number | null = null
+	private refreshing: Promise<void> | null = null
+
+	constructor(options: RateLimiterOptions, fetchThreshold: () => Promise<ThresholdInformation>) {
+		this.options = options
+		this.fetchThreshold = fetchThreshold
+		this.tokens = options.burstSize
+		this.threshold = options.defaultHourlyThreshold
+	}
+
+	/**
+	 * Waits for a concurrency slot and a token, then applies any usage-based
+	 * backoff.
+	 *
+	 * @returns Function that must be called exactly once when the request finishes
+	 */
+	async acquire(): Promise<() => void> {
+		this.maybeRefresh()
+
+		await this.acquireSlot()
+		try {
+			await this.takeToken()
+
+			const backoff = this.currentBackoffMs()
+			if (backoff > 0) {
+				logger.debug({ backoff, usageRatio: this.usageRatio() }, 'Backing off near Autotask threshold')
+				await sleep(backoff)
+			}
+		} catch (error) {
+			this.releaseSlot()
+			throw error
+		}
+
+		this.localCountSinceRefresh++
+
+		let released = false
+		return () => {
+			if (!released) {
+				released = true
+				this.releaseSlot()
+			}
+		}
+	}
+
+	/**
+	 * Returns a snapshot of current usage for monitoring.
+	 */
+	getUsage(): RateLimiterUsage {
+		this.refillTokens()
+		return {
+			threshold: this.threshold,
+			timeframeMinutes: this.timeframeMinutes,
+			estimatedRequestCount: this.estimatedCount(),
+			usageRatio: Math.round(this.usageRatio() * 1000) / 1000,
+			inFlight: this.inFlight,
+			queued: this.waiters.length,
+			maxConcurrent: this.options.maxConcurrent,
+			availableTokens: Math.floor(this.tokens),
+			currentBackoffMs: this.currentBackoffMs(),
+			lastRefreshedAt: this.lastRefreshedAt ? new Date(this.lastRefreshedAt).toISOString() : null
+		}
+	}
+
+	/**
+	 * Starts a background threshold refresh if the cached data is stale.
+	 * Never blocks the caller and never refreshes concurrently.
+	 * @internal
+	 */
+	private maybeRefresh(): void {
+		const stale =
+			this.lastRefreshedAt === null ||
+			Date.now() - this.lastRefreshedAt >= this.options.refreshIntervalMs
+		if (!stale || this.refreshing) {
+			return
+		}
+
+		this.refreshing = this.fetchThreshold()
+			.then((info) => {
+				this.threshold = info.externalRequestThreshold || this.options.defaultHourlyThreshold
+				this.timeframeMinutes = info.requestThresholdTimeframe || 60
+				this.reportedCount = info.currentTimeframeRequestCount || 0
+				this.localCountSinceRefresh = 0
+				logger.debug({ usage: this.getUsage() }, 'Refreshed Autotask threshold information')
+			})
+			.catch((error) => {
+				logger.warn({ error }, 'Failed to refresh Autotask threshold information')
+			})
+			.finally(() => {
+				// Record the attempt either way so a failing endpoint isn't hammered
+				this.lastRefreshedAt = Date.now()
+				this.refreshing = null
+			})
+	}
+
+	/**
+	 * Waits until fewer than `maxConcurrent` requests are in flight.
+	 * @internal
+	 */
+	private async acquireSlot(): Promise<void> {
+		if (this.inFlight < this.options.maxConcurrent) {
+			this.inFlight++
+			return
+		}
+		await new Promise<void>((resolve) => this.waiters.push(resolve))
+	}
+
+	/**
+	 * Hands the slot to the next waiter, or frees it.
+	 * @internal
+	 */
+	private releaseSlot(): void {
+		const next = this.waiters.shift()
+		if (next) {
+			next()
+		} else {
+			this.inFlight--
+		}
+	}
+
+	/**
+	 * Tokens refill continuously at threshold / timeframe.
+	 * @internal
+	 */
+	private refillTokens(): void {
+		const now = Date.now()
+		const perMs = this.threshold / (this.timeframeMinutes * 60 * 1000)
+		this.tokens = Math.min(this.options.burstSize, this.tokens + (now - this.lastRefill) * perMs)
+		this.lastRefill = now
+	}
+
+	/**
+	 * Waits until a token is available and consumes it.
+	 * @internal
+	 */
+	private async takeToken(): Promise<void> {
+		for (;;) {
+			this.refillTokens()
+			if (this.tokens >= 1) {
+				this.tokens -= 1
+				return
+			}
+			const perMs = this.threshold / (this.timeframeMinutes * 60 * 1000)
+			const waitMs = Math.ceil((1 - this.tokens) / perMs)
+			logger.debug({ waitMs }, 'Rate limiting Autotask API call')
+			await sleep(waitMs)
+		}
+	}
+
+	/** @internal */
+	private estimatedCount(): number {
+		return this.reportedCount + this.localCountSinceRefresh
+	}
+
+	/** @internal */
+	private usageRatio(): number {
+		return this.threshold > 0 ? this.estimatedCount() / this.threshold : 0
+	}
+
+	/**
+	 * Quadratic ramp from zero at `backoffStartRatio` to `maxBackoffMs` at the threshold.
+	 * @internal
+	 */
+	private currentBackoffMs(): number {
+		const { backoffStartRatio, maxBackoffMs } = this.options
+		const ratio = this.usageRatio()
+		if (ratio <= backoffStartRatio) {
+			return 0
+		}
+		const progress = Math.min(1, (ratio - backoffStartRatio) / (1 - backoffStartRatio))
+		return Math.round(maxBackoffMs * progress * progress)
+	}
+}
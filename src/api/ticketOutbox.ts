@@ -0,0 +1,453 @@
+/**
+ * @fileoverview Durable outbox for tickets that could not be created while
+ * Autotask was unreachable.
+ *
+ * Payloads are appended to a JSON-lines event log on disk and given a
+ * provisional reference the agent can read back to the caller. A background
+ * worker replays pending payloads with backoff, gives up after a number of
+ * attempts or once an entry is too old, and records which real ticket each
+ * provisional reference became. Delivered entries keep only their reference
+ * and ticket: the log is compacted so caller details are not kept on disk
+ * once they have reached Autotask. Delivered and failed entries are dropped
+ * altogether once a retention period has passed, so neither the log nor the
+ * state kept in memory grows without bound.
+ * @module api/ticketOutbox
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { randomInt } from 'node:crypto'
+import { AutotaskApiError } from './autotaskClient.js'
+import { CallerValidationError } from './callerValidation.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Lifecycle state of an outbox entry.
+ */
+export type OutboxStatus = 'pending' | 'delivered' | 'failed'
+
+/**
+ * A queued ticket and its delivery state.
+ *
+ * @typeParam P - Payload type stored for replay
+ */
+export interface OutboxEntry<P> {
+	/** Provisional reference given to the caller (e.g., 'PR-20260105-7KQ4') */
+	reference: string
+	/** Deduplication key (e.g., externalID and contact) */
+	key: string
+	/** Payload replayed against Autotask; dropped once delivered */
+	payload?: P
+	/** Current state */
+	status: OutboxStatus
+	/** Delivery attempts made so far */
+	attempts: number
+	/** Epoch milliseconds of the next attempt */
+	nextAttemptAt: number
+	/** ISO timestamp when queued */
+	enqueuedAt: string
+	/** Real Autotask ticket ID once delivered */
+	ticketId?: string
+	/** Real ticket number once delivered */
+	ticketNumber?: string
+	/** Last delivery error */
+	lastError?: string
+	/** ISO timestamp when delivered or marked failed */
+	settledAt?: string
+}
+
+/**
+ * Result of delivering a payload to Autotask.
+ */
+export interface DeliveryResult {
+	/** Created (or already existing) ticket ID */
+	ticketId: string
+	/** Ticket number, if it could be retrieved */
+	ticketNumber?: string
+}
+
+/**
+ * Events appended to the outbox log.
+ * @internal
+ */
+type OutboxEvent<P> =
+	| { type: 'enqueued'; reference: string; key: string; payload?: P; attempts?: number; at: string }
+	| { type: 'attempt_failed'; reference: string; error: string; at: string }
+	| { type: 'delivered'; reference: string; ticketId: string; ticketNumber?: string; at: string }
+	| { type: 'failed'; reference: string; error: string; at: string }
+
+/**
+ * Characters used in provisional references; excludes ones that are easily
+ * confused when read aloud (0/O, 1/I/L).
+ * @internal
+ */
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+
+/**
+ * Generates a short, voice-friendly provisional reference.
+ * @internal
+ */
+function generateReference(): string {
+	const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+	let suffix = ''
+	for (let i = 0; i < 4; i++) {
+		suffix += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)]
+	}
+	return `PR-${date}-${suffix}`
+}
+
+/**
+ * Append-only, file-backed queue of ticket payloads awaiting delivery.
+ *
+ * State is rebuilt from the log on first use, so pending tickets survive
+ * restarts and merely importing the outbox touches no files. The log is
+ * rewritten with only the current state when it is loaded, whenever an entry
+ * is delivered or fails, and when settled entries expire.
+ *
+ * @typeParam P - Payload type stored for replay
+ *
+ * @example
+ * ```typescript
+ * const entry = ticketOutbox.enqueue('call-123:456', params)
+ * ticketOutbox.startWorker(async (payload) => deliver(payload))
+ * ```
+ */
+export class TicketOutbox<P> {
+	private readonly path: string
+	private readonly retryIntervalMs: number
+	private readonly maxBackoffMs: number
+	private readonly maxAttempts: number
+	private readonly maxAgeMs: number
+	private readonly retentionMs: number
+	private readonly entries = new Map<string, OutboxEntry<P>>()
+	private loaded = false
+	private timer: NodeJS.Timeout | null = null
+	private draining = false
+
+	/**
+	 * @param options.path - Path of the JSON-lines log
+	 * @param options.retryIntervalMs - How often the worker looks for due entries
+	 * @param options.maxBackoffMs - Upper bound on an entry's retry backoff
+	 * @param options.maxAttempts - Attempts after which an entry is marked failed
+	 * @param options.maxAgeMs - Age after which an undelivered entry is marked failed
+	 * @param options.retentionMs - How long delivered and failed entries are kept
+	 */
+	constructor(options: {
+		path: string
+		retryIntervalMs: number
+		maxBackoffMs: number
+		maxAttempts: number
+		maxAgeMs: number
+		retentionMs: number
+	}) {
+		this.path = options.path
+		this.retryIntervalMs = options.retryIntervalMs
+		this.maxBackoffMs = options.maxBackoffMs
+		this.maxAttempts = options.maxAttempts
+		this.maxAgeMs = options.maxAgeMs
+		this.retentionMs = options.retentionMs
+	}
+
+	/**
+	 * Queues a payload, or returns the pending or delivered entry with the
+	 * same key; a delivered one carries the real ticket to report instead of
+	 * a provisional reference. Only failed entries are queued again.
+	 *
+	 * @param key - Deduplication key
+	 * @param payload - Payload to replay
+	 * @returns The outbox entry holding the provisional reference
+	 */
+	enqueue(key: string, payload: P): OutboxEntry<P> {
+		this.open()
+		for (const entry of this.entries.values()) {
+			if (entry.key === key && entry.status !== 'failed') {
+				return entry
+			}
+		}
+
+		let reference = generateReference()
+		while (this.entries.has(reference)) {
+			reference = generateReference()
+		}
+
+		const at = new Date().toISOString()
+		this.append({ type: 'enqueued', reference, key, payload, at })
+		const entry: OutboxEntry<P> = {
+			reference,
+			key,
+			payload,
+			status: 'pending',
+			attempts: 0,
+			nextAttemptAt: Date.now(),
+			enqueuedAt: at
+		}
+		this.entries.set(reference, entry)
+
+		logger.warn({ reference, key }, 'Ticket queued in outbox')
+		return entry
+	}
+
+	/**
+	 * Looks up an entry by provisional reference (case-insensitive).
+	 */
+	get(reference: string): OutboxEntry<P> | undefined {
+		this.open()
+		return this.entries.get(reference.trim().toUpperCase())
+	}
+
+	/**
+	 * Counts entries by status, for health reporting.
+	 */
+	stats(): Record<OutboxStatus, number> {
+		this.open()
+		const counts: Record<OutboxStatus, number> = { pending: 0, delivered: 0, failed: 0 }
+		for (const entry of this.entries.values()) {
+			counts[entry.status]++
+		}
+		return counts
+	}
+
+	/**
+	 * Starts the background worker that replays pending entries.
+	 *
+	 * @param deliver - Creates the ticket for a payload; should be idempotent
+	 */
+	startWorker(deliver: (payload: P) => Promise<DeliveryResult>): void {
+		if (this.timer) {
+			return
+		}
+		this.timer = setInterval(() => void this.drain(deliver), this.retryIntervalMs)
+		this.timer.unref()
+		void this.drain(deliver)
+	}
+
+	/**
+	 * Stops the background worker.
+	 */
+	stopWorker(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+	}
+
+	/**
+	 * Attempts delivery of every due entry, one at a time.
+	 *
+	 * Non-retryable Autotask errors (e.g., validation failures), callers
+	 * refused by {@link CallerValidationError}, and entries that have used up
+	 * `maxAttempts` or are older than `maxAgeMs` are marked as failed so they
+	 * are not replayed forever; anything else backs off.
+	 */
+	async drain(deliver: (payload: P) => Promise<DeliveryResult>): Promise<void> {
+		if (this.draining) {
+			return
+		}
+		this.open()
+		this.draining = true
+		let settled = false
+		try {
+			for (const entry of this.entries.values()) {
+				const { payload } = entry
+				if (entry.status !== 'pending' || payload === undefined || entry.nextAttemptAt > Date.now()) {
+					continue
+				}
+
+				entry.attempts++
+				try {
+					const result = await deliver(payload)
+					this.append({ type: 'delivered', reference: entry.reference, ...result, at: new Date().toISOString() })
+					entry.status = 'delivered'
+					entry.payload = undefined
+					entry.ticketId = result.ticketId
+					entry.ticketNumber = result.ticketNumber
+					entry.settledAt = new Date().toISOString()
+					settled = true
+					logger.info(
+						{ reference: entry.reference, ticketId: result.ticketId, ticketNumber: result.ticketNumber },
+						'Outbox ticket delivered'
+					)
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error)
+					entry.lastError = message
+
+					if ((error instanceof AutotaskApiError && !error.retryable) || error instanceof CallerValidationError) {
+						this.fail(entry, message)
+						settled = true
+						logger.error({ reference: entry.reference, error }, 'Outbox ticket rejected by Autotask, manual follow-up needed')
+						continue
+					}
+
+					const ageMs = Date.now() - Date.parse(entry.enqueuedAt)
+					if (entry.attempts >= this.maxAttempts || ageMs >= this.maxAgeMs) {
+						this.fail(entry, message)
+						settled = true
+						logger.error(
+							{ reference: entry.reference, attempts: entry.attempts, ageMs, error: message },
+							'Outbox ticket still undelivered, giving up; manual follow-up needed'
+						)
+						continue
+					}
+
+					this.append({ type: 'attempt_failed', reference: entry.reference, error: message, at: new Date().toISOString() })
+					entry.nextAttemptAt = Date.now() + this.backoff(entry.attempts)
+					logger.warn(
+						{ reference: entry.reference, attempts: entry.attempts, error: message },
+						'Outbox delivery failed, will retry'
+					)
+				}
+			}
+		} finally {
+			if (this.prune() || settled) {
+				this.compact()
+			}
+			this.draining = false
+		}
+	}
+
+	/**
+	 * Loads the log on first use.
+	 * @internal
+	 */
+	private open(): void {
+		if (this.loaded) {
+			return
+		}
+		this.loaded = true
+		this.load()
+		this.prune()
+		this.compact()
+	}
+
+	/**
+	 * Marks an entry failed for manual follow-up. Its payload is kept, for
+	 * staff to act on, until the entry expires.
+	 * @internal
+	 */
+	private fail(entry: OutboxEntry<P>, error: string): void {
+		const at = new Date().toISOString()
+		this.append({ type: 'failed', reference: entry.reference, error, at })
+		entry.status = 'failed'
+		entry.settledAt = at
+	}
+
+	/**
+	 * Forgets delivered and failed entries settled longer than the retention
+	 * period ago.
+	 * @returns True if any were dropped
+	 * @internal
+	 */
+	private prune(): boolean {
+		const cutoff = Date.now() - this.retentionMs
+		let pruned = 0
+		for (const [reference, entry] of this.entries) {
+			if (entry.status !== 'pending' && Date.parse(entry.settledAt ?? entry.enqueuedAt) <= cutoff) {
+				this.entries.delete(reference)
+				pruned++
+			}
+		}
+		if (pruned > 0) {
+			logger.info({ pruned }, 'Expired settled outbox entries')
+		}
+		return pruned > 0
+	}
+
+	/** @internal */
+	private backoff(attempts: number): number {
+		return Math.min(this.maxBackoffMs, this.retryIntervalMs * 2 ** Math.max(0, attempts - 1))
+	}
+
+	/**
+	 * Writes one event to the log.
+	 * @internal
+	 */
+	private append(event: OutboxEvent<P>): void {
+		mkdirSync(dirname(this.path), { recursive: true })
+		appendFileSync(this.path, JSON.stringify(event) + '\n', 'utf8')
+	}
+
+	/**
+	 * Rewrites the log with one `enqueued` event per entry, followed by its
+	 * outcome if it has one. Delivered entries are written without their
+	 * payload; expired ones are no longer in memory and so are not written at
+	 * all. The new log replaces the old one only once fully written.
+	 * @internal
+	 */
+	private compact(): void {
+		const events: OutboxEvent<P>[] = []
+		for (const entry of this.entries.values()) {
+			const { reference, key, payload, attempts, enqueuedAt } = entry
+			const settledAt = entry.settledAt ?? enqueuedAt
+			events.push({ type: 'enqueued', reference, key, payload, attempts, at: enqueuedAt })
+			if (entry.status === 'delivered' && entry.ticketId) {
+				events.push({ type: 'delivered', reference, ticketId: entry.ticketId, ticketNumber: entry.ticketNumber, at: settledAt })
+			} else if (entry.status === 'failed') {
+				events.push({ type: 'failed', reference, error: entry.lastError ?? 'Delivery failed', at: settledAt })
+			}
+		}
+
+		try {
+			mkdirSync(dirname(this.path), { recursive: true })
+			const temporary = `${this.path}.tmp`
+			writeFileSync(temporary, events.map((event) => JSON.stringify(event) + '\n').join(''), 'utf8')
+			renameSync(temporary, this.path)
+		} catch (error) {
+			logger.warn({ error, file: this.path }, 'Failed to compact ticket outbox')
+		}
+	}
+
+	/**
+	 * Rebuilds state from the log, skipping unreadable lines.
+	 * @internal
+	 */
+	private load(): void {
+		if (!existsSync(this.path)) {
+			return
+		}
+
+		const lines = readFileSync(this.path, 'utf8').split('\n').filter((line) => line.trim())
+		for (const line of lines) {
+			let event: OutboxEvent<P>
+			try {
+				event = JSON.parse(line)
+			} catch {
+				logger.warn({ file: this.path }, 'Skipping unreadable outbox line')
+				continue
+			}
+
+			if (event.type === 'enqueued') {
+				this.entries.set(event.reference, {
+					reference: event.reference,
+					key: event.key,
+					payload: event.payload,
+					status: 'pending',
+					attempts: event.attempts ?? 0,
+					nextAttemptAt: Date.now(),
+					enqueuedAt: event.at
+				})
+				continue
+			}
+
+			const entry = this.entries.get(event.reference)
+			if (!entry) {
+				continue
+			}
+			if (event.type === 'attempt_failed') {
+				entry.attempts++
+				entry.lastError = event.error
+			} else if (event.type === 'delivered') {
+				entry.status = 'delivered'
+				entry.payload = undefined
+				entry.ticketId = event.ticketId
+				entry.ticketNumber = event.ticketNumber
+				entry.settledAt = event.at
+			} else if (event.type === 'failed') {
+				entry.status = 'failed'
+				entry.lastError = event.error
+				entry.settledAt = event.at
+			}
+		}
+
+		const stats = this.stats()
+		logger.info({ file: this.path, ...stats }, 'Loaded ticket outbox')
+	}
+}
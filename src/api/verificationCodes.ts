@@ -0,0 +1,197 @@
+/**
+ * @fileoverview One-time verification codes, kept per call and contact.
+ *
+ * A code is emailed to the contact's address on file and read back by the
+ * caller; confirming it marks the caller verified for the rest of the call,
+ * which `createTicket` requires for sensitive request categories. Codes are
+ * stored hashed, expire, and lock after too many wrong entries.
+ * @module api/verificationCodes
+ */
+import { createHash, randomInt, timingSafeEqual } from 'crypto'
+import { config } from '../config.js'
+import { TtlCache } from '../utils/ttlCache.js'
+
+/**
+ * Outcome of checking a code read back by the caller.
+ */
+export type CodeCheckResult =
+	| { status: 'verified' }
+	| { status: 'invalid'; remainingAttempts: number }
+	| { status: 'locked' }
+	| { status: 'expired' }
+
+/**
+ * A code waiting to be confirmed.
+ * @internal
+ */
+interface PendingCode {
+	hash: Buffer
+	attempts: number
+	expiresAt: number
+	/** Code this one replaced, restored if this one is withdrawn */
+	replaced?: PendingCode
+}
+
+/**
+ * Issues and checks one-time codes.
+ *
+ * @example
+ * ```typescript
+ * const key = verificationKey(sessionId, 'call-123', 2001)
+ * const code = verificationCodes.issue(key) // '482915', or null if too many were sent
+ * // ... email it; if that fails: verificationCodes.withdraw(key, code)
+ * verificationCodes.check(key, '482915')    // { status: 'verified' }
+ * verificationCodes.isVerified(key)         // true
+ * ```
+ */
+export class VerificationCodeStore {
+	private readonly options: {
+		length: number
+		ttlMs: number
+		maxAttempts: number
+		maxSends: number
+		verifiedTtlMs: number
+	}
+	private readonly pending: TtlCache<string, PendingCode>
+	private readonly sends: TtlCache<string, number>
+	private readonly verified: TtlCache<string, true>
+
+	constructor(options: { length: number; ttlMs: number; maxAttempts: number; maxSends: number; verifiedTtlMs: number }) {
+		this.options = options
+		this.pending = new TtlCache(options.ttlMs)
+		this.sends = new TtlCache(options.verifiedTtlMs)
+		this.verified = new TtlCache(options.verifiedTtlMs)
+	}
+
+	/**
+	 * Creates a new code for a key, replacing any earlier one.
+	 *
+	 * @param key - Call and contact the code is for (see {@link verificationKey})
+	 * @returns The code to send, or null if the send limit was reached
+	 */
+	issue(key: string): string | null {
+		const sent = this.sends.get(key) ?? 0
+		if (sent >= this.options.maxSends) {
+			return null
+		}
+
+		const code = String(randomInt(0, 10 ** this.options.length)).padStart(this.options.length, '0')
+		const current = this.pending.get(key)
+		this.sends.set(key, sent + 1)
+		this.pending.set(key, {
+			hash: hashCode(code),
+			attempts: 0,
+			expiresAt: Date.now() + this.options.ttlMs,
+			replaced: current && { ...current, replaced: undefined }
+		})
+		return code
+	}
+
+	/**
+	 * Takes back a code that could not be sent: it no longer counts toward
+	 * the send limit, and the code it replaced (if still unexpired) is valid
+	 * again. Does nothing if another code has been issued since.
+	 *
+	 * @param key - Call and contact the code was issued for
+	 * @param code - The code returned by {@link issue}
+	 */
+	withdraw(key: string, code: string): void {
+		const entry = this.pending.get(key)
+		if (!entry || !timingSafeEqual(hashCode(code), entry.hash)) {
+			return
+		}
+
+		const sent = this.sends.get(key) ?? 0
+		if (sent > 0) {
+			this.sends.set(key, sent - 1)
+		}
+		const replaced = entry.replaced
+		if (replaced && replaced.expiresAt > Date.now()) {
+			this.pending.set(key, replaced, replaced.expiresAt - Date.now())
+		} else {
+			this.pending.delete(key)
+		}
+	}
+
+	/**
+	 * Checks a code read back by the caller.
+	 *
+	 * @param key - Call and contact the code was issued for
+	 * @param code - Digits as entered
+	 * @returns Whether the code was right, and what is left if not
+	 */
+	check(key: string, code: string): CodeCheckResult {
+		const entry = this.pending.get(key)
+		if (!entry) {
+			return { status: 'expired' }
+		}
+		if (entry.attempts >= this.options.maxAttempts) {
+			return { status: 'locked' }
+		}
+
+		if (code.length === this.options.length && timingSafeEqual(hashCode(code), entry.hash)) {
+			this.pending.delete(key)
+			this.verified.set(key, true)
+			return { status: 'verified' }
+		}
+
+		entry.attempts++
+		const remainingAttempts = this.options.maxAttempts - entry.attempts
+		return remainingAttempts > 0 ? { status: 'invalid', remainingAttempts } : { status: 'locked' }
+	}
+
+	/**
+	 * Whether a code was confirmed for this key within the verified period.
+	 *
+	 * @param key - Call and contact to check
+	 */
+	isVerified(key: string): boolean {
+		return this.verified.get(key) === true
+	}
+}
+
+/**
+ * Hashes a code so plain codes are not held in memory.
+ * @internal
+ */
+function hashCode(code: string): Buffer {
+	return createHash('sha256').update(code).digest()
+}
+
+/**
+ * Builds the store key for a contact on a call. Both the MCP session and the
+ * call ID are part of it, so a code confirmed on one call never verifies
+ * another.
+ *
+ * @param sessionId - MCP session ID, if the transport has one
+ * @param externalID - Call ID
+ * @param contactId - Contact being verified
+ * @returns The key
+ */
+export function verificationKey(sessionId: string | undefined, externalID: string, contactId: number): string {
+	return `${sessionId ?? '-'}:${externalID}:${contactId}`
+}
+
+/**
+ * Whether a createTicket request category requires a confirmed code
+ * (`VERIFY_CODE_REQUIRED_CATEGORIES`). Categories are compared ignoring
+ * case, spaces and hyphens ("Password Reset" is `password_reset`).
+ *
+ * @param category - Request category as given
+ * @returns True if a code must be confirmed first
+ */
+export function requiresVerificationCode(category: string | undefined): boolean {
+	const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+	return !!category && config.verification.codeRequiredCategories.some((c) => normalize(c) === normalize(category))
+}
+
+/**
+ * Shared store configured from application settings.
+ */
+export const verificationCodes = new VerificationCodeStore({
+	length: config.verification.codeLength,
+	ttlMs: config.verification.codeTtlMs,
+	maxAttempts: config.verification.codeMaxAttempts,
+	maxSends: config.verification.codeMaxSends,
+	verifiedTtlMs: config.verification.codeVerifiedTtlMs
+})
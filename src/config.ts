@@ -16,6 +16,28 @@ configDotenv({
 				: '.env.development',
 })
 
+/**
+ * Ticket status changes the voice agent can request through updateTicket.
+ */
+export const TICKET_TRANSITIONS = ['reopen', 'waiting_customer', 'customer_resolved', 'escalate'] as const
+
+/**
+ * A ticket status change the voice agent can request.
+ */
+export type TicketTransition = (typeof TICKET_TRANSITIONS)[number]
+
+/**
+ * What happens when a caller is not found among a company's contacts:
+ * create the contact, create it inactive for staff to review, or create no
+ * contact and record the caller's details on the ticket instead.
+ */
+export const CONTACT_CREATION_POLICIES = ['create', 'inactive', 'refuse'] as const
+
+/**
+ * How contacts are created for callers not yet in Autotask.
+ */
+export type ContactCreationPolicy = (typeof CONTACT_CREATION_POLICIES)[number]
+
 /**
  * Main application configuration interface.
  * Contains server settings, authentication, and Autotask API credentials.
@@ -30,8 +52,17 @@ export interface Config {
 	}
 	/** Autotask REST API configuration */
 	autotask: {
-		/** Autotask API hostname (e.g., 'webservices15.autotask.net') */
+		/** Fallback Autotask API hostname when zone discovery fails (e.g., 'webservices15.autotask.net') */
 		hostname: string
+		/** Zone-information service base URL; empty disables discovery */
+		zoneDiscoveryUrl: string
+		/** How long to use AUTOTASK_HOSTNAME after a failed zone discovery before trying again, in milliseconds */
+		zoneRetryMs: number
+		/**
+		 * Base URL of a mock Autotask server (e.g., 'http://127.0.0.1:4010').
+		 * When set, zone discovery is skipped and credentials are optional.
+		 */
+		mockUrl: string
 		/** API integration tracking code */
 		apiIntegrationCode: string
 		/** API username */
@@ -40,6 +71,182 @@ export interface Config {
 		secret: string
 		/** Default company ID (fallback) */
 		companyId: number
+		/** Per-attempt request timeout in milliseconds */
+		timeoutMs: number
+		/** Maximum retries for transient failures (429, 5xx, network errors); requests that create records only retry 429 and failed connections */
+		maxRetries: number
+		/** Base delay in milliseconds for exponential retry backoff */
+		retryBaseDelayMs: number
+		/** Longest Retry-After delay honored before retrying, in milliseconds */
+		maxRetryAfterMs: number
+		/** How often cached entity metadata and picklists are reloaded, in milliseconds */
+		metadataRefreshMs: number
+		/** Maximum pages followed when a query result spans several pages */
+		maxQueryPages: number
+		/** Adaptive rate limiting settings */
+		rateLimit: {
+			/** Maximum concurrent requests (Autotask allows 3 threads per integration) */
+			maxConcurrent: number
+			/** Largest burst of requests allowed before throttling to the threshold rate */
+			burstSize: number
+			/** Hourly request threshold assumed until ThresholdInformation is fetched */
+			defaultHourlyThreshold: number
+			/** Usage ratio (0-1) at which requests start being delayed */
+			backoffStartRatio: number
+			/** Per-request delay in milliseconds when usage reaches the threshold */
+			maxBackoffMs: number
+			/** How often to refresh ThresholdInformation, in milliseconds */
+			refreshIntervalMs: number
+		}
+	}
+	/** Ticket creation behaviour */
+	tickets: {
+		/** How long a created ticket is remembered per externalID to absorb duplicate tool calls, in milliseconds */
+		idempotencyTtlMs: number
+		/** Maximum open tickets read back to a caller by listOpenTickets */
+		listLimit: number
+		/** Delays between auto-assignment polls, in milliseconds; the last delay repeats */
+		assignmentPollScheduleMs: number[]
+		/** Overall time allowed for auto-assignment before reporting it as pending, in milliseconds */
+		assignmentDeadlineMs: number
+	}
+	/** In-memory company index for fuzzy company name matching */
+	companyIndex: {
+		/** How often the index is reloaded from Autotask, in milliseconds */
+		syncIntervalMs: number
+		/** Maximum query pages (500 companies each) loaded per sync */
+		maxPages: number
+		/** Lowest match score (0-1) for a company to be offered as a candidate */
+		minScore: number
+		/** Score (0-1) at which the best candidate is taken without asking the caller */
+		confidentScore: number
+		/** How far the best candidate must lead the next one to be taken without asking */
+		minMargin: number
+	}
+	/** Contact lookup behaviour */
+	contacts: {
+		/** Country calling code assumed for phone numbers stored without one (e.g., '1') */
+		defaultCountryCode: string
+		/** Lowest name match score (0-1) for an existing contact to be offered to the caller */
+		minMatchScore: number
+		/** Whether unknown callers become active contacts, inactive contacts pending review, or none */
+		creationPolicy: ContactCreationPolicy
+	}
+	/** Server-side caller verification against the contact details on file */
+	verification: {
+		/** Failed verifyCaller attempts allowed per contact on a call before the call is locked out */
+		maxAttempts: number
+		/** How long a call stays locked out after its last failed attempt, in milliseconds */
+		lockoutMs: number
+		/** Failed attempts for a contact across all calls, within the lockout period, that log a warning */
+		alertFailures: number
+		/** Failed attempts for a contact across all calls after which every call is locked out of it */
+		contactMaxFailures: number
+		/** How long a contact stays locked out after its last failed attempt, in milliseconds */
+		contactLockoutMs: number
+		/** Typing or transcription errors tolerated in the mailbox part of an email address */
+		emailMaxEdits: number
+		/** Digits in a one-time verification code */
+		codeLength: number
+		/** How long a one-time code can be confirmed, in milliseconds */
+		codeTtlMs: number
+		/** Wrong entries allowed per code before it is locked */
+		codeMaxAttempts: number
+		/** Codes that can be sent per call and contact */
+		codeMaxSends: number
+		/** How long a confirmed code keeps the caller verified, in milliseconds */
+		codeVerifiedTtlMs: number
+		/** createTicket request categories that need a confirmed one-time code (e.g., 'password_reset') */
+		codeRequiredCategories: string[]
+	}
+	/** What the tools remember about each call (see `mcp/callContext`) */
+	callContext: {
+		/** How long a call's identified caller is kept after the last tool call, in milliseconds */
+		ttlMs: number
+	}
+	/** Which customers this deployment may act for */
+	access: {
+		/** Company IDs tickets and contact changes are allowed for; empty allows every company */
+		allowedCompanyIds: number[]
+	}
+	/** Customer tenants from `.tenants.json` (see `tenants`) */
+	tenants: {
+		/** Path of the tenant registry written by `scripts/generate-agent.ts` */
+		path: string
+		/** How often the registry file is checked for changes, in milliseconds */
+		reloadIntervalMs: number
+		/** Header carrying the tenant's company ID when the shared secret is used */
+		header: string
+		/**
+		 * 'required' refuses MCP sessions that cannot be bound to a tenant,
+		 * 'optional' serves them unscoped, and 'auto' is 'required' whenever
+		 * any tenants are configured
+		 */
+		binding: 'auto' | 'optional' | 'required'
+	}
+	/** Outgoing email, used for one-time verification codes */
+	mail: {
+		/** 'smtp' sends mail, 'log' only logs it (development), 'none' disables email */
+		transport: 'none' | 'log' | 'smtp'
+		/** Sender address */
+		from: string
+		/** SMTP server settings (transport 'smtp') */
+		smtp: {
+			/** SMTP server hostname */
+			host: string
+			/** SMTP server port */
+			port: number
+			/** 'starttls' (upgrade, required), 'tls' (implicit TLS) or 'none' (plain, local relays only) */
+			security: 'starttls' | 'tls' | 'none'
+			/** Username for AUTH PLAIN; empty sends without authentication */
+			username: string
+			/** Password for AUTH PLAIN */
+			password: string
+			/** Connection and reply timeout, in milliseconds */
+			timeoutMs: number
+		}
+	}
+	/** Notes added to existing tickets by the voice agent */
+	ticketNotes: {
+		/** TicketNotes noteType label or code */
+		noteType: string
+		/** TicketNotes publish label or code (who can see the note) */
+		publish: string
+		/** Ticket status label or code set after a caller adds a note; empty leaves the status unchanged */
+		customerNoteStatus: string
+	}
+	/** Status changes the voice agent may make on existing tickets */
+	ticketUpdates: {
+		/** Transitions the agent is allowed to make for tenants without their own `ticketTransitions` */
+		allowedTransitions: TicketTransition[]
+		/** Ticket status label or code each transition moves the ticket to */
+		statuses: Record<TicketTransition, string>
+		/** Ticket priority label or code set on escalation; empty leaves the priority unchanged */
+		escalationPriority: string
+	}
+	/** Durable outbox for tickets created while Autotask is unreachable */
+	outbox: {
+		/** Path of the append-only outbox log */
+		path: string
+		/** How often the worker retries pending tickets, in milliseconds */
+		retryIntervalMs: number
+		/** Upper bound on per-ticket retry backoff, in milliseconds */
+		maxBackoffMs: number
+		/** Delivery attempts after which a ticket is marked failed */
+		maxAttempts: number
+		/** Age after which an undelivered ticket is marked failed, in milliseconds */
+		maxAgeMs: number
+		/** How long delivered and failed tickets are kept after settling, in milliseconds */
+		retentionMs: number
+	}
+	/** Record-and-replay of Autotask and BVoip HTTP traffic, for debugging */
+	cassette: {
+		/** 'off', 'record' (capture redacted traffic) or 'replay' (serve from the cassette) */
+		mode: 'off' | 'record' | 'replay'
+		/** Path of the JSON-lines cassette file */
+		path: string
+		/** Key for the hash personal data is pseudonymized with; replay needs the key used to record */
+		salt: string
 	}
 	/** BVoip 1Stream API configuration */
 	bvoip: {
@@ -68,6 +275,20 @@ function requireEnv(key: string): string {
 	return value
 }
 
+/**
+ * Retrieves an Autotask credential. Required against the real API; against
+ * a mock server (`AUTOTASK_MOCK_URL`) or when replaying a cassette a
+ * placeholder is used when unset.
+ * 
+ * @param key - Environment variable name
+ * @returns The trimmed environment variable value
+ * @internal
+ */
+function requireCredential(key: string): string {
+	const offline = getEnv('AUTOTASK_MOCK_URL', '') || getEnv('HTTP_CASSETTE_MODE', '') === 'replay'
+	return offline ? getEnv(key, 'mock') : requireEnv(key)
+}
+
 /**
  * Retrieves an optional environment variable with a default fallback.
  * 
@@ -93,6 +314,80 @@ function getEnvInt(key: string, defaultValue: number): number {
 	return value ? parseInt(value) : defaultValue
 }
 
+/**
+ * Retrieves an optional comma-separated list of integers with a default fallback.
+ * 
+ * @param key - Environment variable name
+ * @param defaultValue - Value to return if env var is not set or has no valid entries
+ * @returns The parsed integers or default
+ * @internal
+ */
+function getEnvIntList(key: string, defaultValue: number[]): number[] {
+	const values = (process.env[key] ?? '')
+		.split(',')
+		.map((v) => parseInt(v.trim()))
+		.filter((v) => !Number.isNaN(v))
+	return values.length > 0 ? values : defaultValue
+}
+
+/**
+ * Retrieves an optional comma-separated list of strings with a default fallback.
+ * 
+ * @param key - Environment variable name
+ * @param defaultValue - Value to return if env var is not set
+ * @returns The trimmed, non-empty entries, or default
+ * @internal
+ */
+function getEnvList(key: string, defaultValue: string[]): string[] {
+	const value = process.env[key]
+	if (value === undefined) {
+		return defaultValue
+	}
+	return value.split(',').map((v) => v.trim()).filter(Boolean)
+}
+
+/**
+ * Retrieves an optional environment variable restricted to a set of values.
+ * Unknown values are logged and replaced by the default.
+ * 
+ * @param key - Environment variable name
+ * @param choices - Allowed values
+ * @param defaultValue - Value to return if env var is not set or not allowed
+ * @returns The environment variable value or default
+ * @internal
+ */
+function getEnvChoice<T extends string>(key: string, choices: readonly T[], defaultValue: T): T {
+	const value = getEnv(key, defaultValue)
+	if (!choices.includes(value as T)) {
+		logger.warn({ envVariable: key, value, choices }, `Invalid value for ${key}, using ${defaultValue}`)
+		return defaultValue
+	}
+	return value as T
+}
+
+/**
+ * Retrieves an optional comma-separated list restricted to a set of values.
+ * Unknown entries are logged and dropped.
+ * 
+ * @param key - Environment variable name
+ * @param choices - Allowed values
+ * @param defaultValue - Value to return if env var is not set
+ * @returns The allowed values listed, or default
+ * @internal
+ */
+function getEnvChoiceList<T extends string>(key: string, choices: readonly T[], defaultValue: T[]): T[] {
+	const value = process.env[key]
+	if (value === undefined) {
+		return defaultValue
+	}
+	const entries = value.split(',').map((v) => v.trim()).filter(Boolean)
+	const invalid = entries.filter((v) => !choices.includes(v as T))
+	if (invalid.length > 0) {
+		logger.warn({ envVariable: key, invalid, choices }, `Ignoring invalid values in ${key}`)
+	}
+	return entries.filter((v): v is T => choices.includes(v as T))
+}
+
 /**
  * Global application configuration object.
  * Populated from environment variables at module load time.
@@ -112,10 +407,115 @@ export const config: Config = {
 	},
 	autotask: {
 		hostname: getEnv('AUTOTASK_HOSTNAME', 'webservices15.autotask.net'),
-		apiIntegrationCode: requireEnv('AUTOTASK_API_INTEGRATION_CODE'),
-		username: requireEnv('AUTOTASK_USERNAME'),
-		secret: requireEnv('AUTOTASK_SECRET'),
-		companyId: getEnvInt('AUTOTASK_COMPANY_ID', 0)
+		zoneDiscoveryUrl: process.env.AUTOTASK_ZONE_DISCOVERY_URL?.trim() ?? 'https://webservices.autotask.net/atservicesrest',
+		zoneRetryMs: getEnvInt('AUTOTASK_ZONE_RETRY_MS', 5 * 60 * 1000),
+		mockUrl: getEnv('AUTOTASK_MOCK_URL', ''),
+		apiIntegrationCode: requireCredential('AUTOTASK_API_INTEGRATION_CODE'),
+		username: requireCredential('AUTOTASK_USERNAME'),
+		secret: requireCredential('AUTOTASK_SECRET'),
+		companyId: getEnvInt('AUTOTASK_COMPANY_ID', 0),
+		timeoutMs: getEnvInt('AUTOTASK_TIMEOUT_MS', 15000),
+		maxRetries: getEnvInt('AUTOTASK_MAX_RETRIES', 3),
+		retryBaseDelayMs: getEnvInt('AUTOTASK_RETRY_BASE_DELAY_MS', 250),
+		maxRetryAfterMs: getEnvInt('AUTOTASK_MAX_RETRY_AFTER_MS', 10 * 1000),
+		metadataRefreshMs: getEnvInt('AUTOTASK_METADATA_REFRESH_MS', 60 * 60 * 1000),
+		maxQueryPages: getEnvInt('AUTOTASK_QUERY_MAX_PAGES', 10),
+		rateLimit: {
+			maxConcurrent: getEnvInt('AUTOTASK_MAX_CONCURRENT_REQUESTS', 3),
+			burstSize: getEnvInt('AUTOTASK_RATE_LIMIT_BURST', 20),
+			defaultHourlyThreshold: getEnvInt('AUTOTASK_HOURLY_THRESHOLD', 10000),
+			backoffStartRatio: parseFloat(getEnv('AUTOTASK_BACKOFF_START_RATIO', '0.5')),
+			maxBackoffMs: getEnvInt('AUTOTASK_MAX_BACKOFF_MS', 5000),
+			refreshIntervalMs: getEnvInt('AUTOTASK_THRESHOLD_REFRESH_MS', 5 * 60 * 1000)
+		}
+	},
+	tickets: {
+		idempotencyTtlMs: getEnvInt('TICKET_IDEMPOTENCY_TTL_MS', 10 * 60 * 1000),
+		listLimit: getEnvInt('TICKET_LIST_LIMIT', 5),
+		assignmentPollScheduleMs: getEnvIntList('TICKET_ASSIGNMENT_POLL_SCHEDULE_MS', [250, 500, 750, 1000]),
+		assignmentDeadlineMs: getEnvInt('TICKET_ASSIGNMENT_DEADLINE_MS', 4000)
+	},
+	companyIndex: {
+		syncIntervalMs: getEnvInt('COMPANY_INDEX_SYNC_INTERVAL_MS', 15 * 60 * 1000),
+		maxPages: getEnvInt('COMPANY_INDEX_MAX_PAGES', 50),
+		minScore: parseFloat(getEnv('COMPANY_MATCH_MIN_SCORE', '0.7')),
+		confidentScore: parseFloat(getEnv('COMPANY_MATCH_CONFIDENT_SCORE', '0.9')),
+		minMargin: parseFloat(getEnv('COMPANY_MATCH_MIN_MARGIN', '0.15'))
+	},
+	contacts: {
+		defaultCountryCode: getEnv('PHONE_DEFAULT_COUNTRY_CODE', '1').replace(/\D/g, ''),
+		minMatchScore: parseFloat(getEnv('CONTACT_MATCH_MIN_SCORE', '0.75')),
+		creationPolicy: getEnvChoice('CONTACT_CREATION_POLICY', CONTACT_CREATION_POLICIES, 'create')
+	},
+	verification: {
+		maxAttempts: getEnvInt('VERIFY_MAX_ATTEMPTS', 3),
+		lockoutMs: getEnvInt('VERIFY_LOCKOUT_MS', 15 * 60 * 1000),
+		alertFailures: getEnvInt('VERIFY_ALERT_FAILURES', 10),
+		contactMaxFailures: getEnvInt('VERIFY_CONTACT_MAX_FAILURES', 10),
+		contactLockoutMs: getEnvInt('VERIFY_CONTACT_LOCKOUT_MS', 60 * 60 * 1000),
+		emailMaxEdits: getEnvInt('VERIFY_EMAIL_MAX_EDITS', 1),
+		codeLength: getEnvInt('VERIFY_CODE_LENGTH', 6),
+		codeTtlMs: getEnvInt('VERIFY_CODE_TTL_MS', 10 * 60 * 1000),
+		codeMaxAttempts: getEnvInt('VERIFY_CODE_MAX_ATTEMPTS', 3),
+		codeMaxSends: getEnvInt('VERIFY_CODE_MAX_SENDS', 3),
+		codeVerifiedTtlMs: getEnvInt('VERIFY_CODE_VERIFIED_TTL_MS', 60 * 60 * 1000),
+		codeRequiredCategories: getEnvList('VERIFY_CODE_REQUIRED_CATEGORIES', ['password_reset', 'new_user', 'access_change'])
+	},
+	callContext: {
+		ttlMs: getEnvInt('CALL_CONTEXT_TTL_MS', 2 * 60 * 60 * 1000)
+	},
+	access: {
+		allowedCompanyIds: getEnvIntList('ALLOWED_COMPANY_IDS', [])
+	},
+	tenants: {
+		path: getEnv('TENANTS_FILE', '.tenants.json'),
+		reloadIntervalMs: getEnvInt('TENANTS_RELOAD_INTERVAL_MS', 5000),
+		header: getEnv('TENANT_HEADER', 'x-tenant-id').toLowerCase(),
+		binding: getEnvChoice('TENANT_BINDING', ['auto', 'optional', 'required'], 'auto')
+	},
+	mail: {
+		transport: getEnvChoice('MAIL_TRANSPORT', ['none', 'log', 'smtp'], 'none'),
+		from: getEnv('MAIL_FROM', ''),
+		smtp: {
+			host: getEnv('SMTP_HOST', ''),
+			port: getEnvInt('SMTP_PORT', 587),
+			security: getEnvChoice('SMTP_SECURITY', ['starttls', 'tls', 'none'], 'starttls'),
+			username: getEnv('SMTP_USERNAME', ''),
+			password: getEnv('SMTP_PASSWORD', ''),
+			timeoutMs: getEnvInt('SMTP_TIMEOUT_MS', 15 * 1000)
+		}
+	},
+	ticketNotes: {
+		noteType: getEnv('TICKET_NOTE_TYPE', '1'),
+		publish: getEnv('TICKET_NOTE_PUBLISH', '1'),
+		customerNoteStatus: process.env.TICKET_CUSTOMER_NOTE_STATUS?.trim() ?? 'Customer Note Added'
+	},
+	ticketUpdates: {
+		allowedTransitions: getEnvChoiceList('TICKET_UPDATE_TRANSITIONS', TICKET_TRANSITIONS, [
+			'reopen',
+			'waiting_customer',
+			'escalate'
+		]),
+		statuses: {
+			reopen: getEnv('TICKET_REOPEN_STATUS', 'In Progress'),
+			waiting_customer: getEnv('TICKET_WAITING_CUSTOMER_STATUS', 'Waiting Customer'),
+			customer_resolved: getEnv('TICKET_RESOLVED_STATUS', 'Complete'),
+			escalate: getEnv('TICKET_ESCALATE_STATUS', 'Escalate')
+		},
+		escalationPriority: process.env.TICKET_ESCALATION_PRIORITY?.trim() ?? 'High'
+	},
+	outbox: {
+		path: getEnv('OUTBOX_PATH', '.outbox/tickets.jsonl'),
+		retryIntervalMs: getEnvInt('OUTBOX_RETRY_INTERVAL_MS', 30 * 1000),
+		maxBackoffMs: getEnvInt('OUTBOX_MAX_BACKOFF_MS', 15 * 60 * 1000),
+		maxAttempts: getEnvInt('OUTBOX_MAX_ATTEMPTS', 100),
+		maxAgeMs: getEnvInt('OUTBOX_MAX_AGE_MS', 24 * 60 * 60 * 1000),
+		retentionMs: getEnvInt('OUTBOX_RETENTION_MS', 7 * 24 * 60 * 60 * 1000)
+	},
+	cassette: {
+		mode: getEnvChoice('HTTP_CASSETTE_MODE', ['off', 'record', 'replay'], 'off'),
+		path: getEnv('HTTP_CASSETTE_PATH', '.cassettes/session.jsonl'),
+		salt: getEnv('HTTP_CASSETTE_SALT', '')
 	},
 	bvoip: {
 		apiKey: getEnv('BVOIP_API_KEY', ''),
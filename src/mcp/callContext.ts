@@ -0,0 +1,364 @@
+/**
+ * @fileoverview What the tools know about the call in progress.
+ *
+ * Tool handlers are otherwise stateless, so the agent has to carry company
+ * and contact IDs from one tool call to the next, and sometimes garbles
+ * them. Lookups record the caller they identified here and verification
+ * marks them verified; later tools default to that identity and refuse IDs
+ * that contradict it; until a caller is identified, no IDs are accepted at
+ * all. Tools that reveal or change a caller's tickets also require the
+ * caller to be verified, and a contact created on this call only ever sees
+ * its own tickets. A context belongs to the MCP session, and the tenant,
+ * that created it: another session passing the same Retell call ID does not
+ * get its caller, and starts from scratch.
+ * @module mcp/callContext
+ */
+import { config } from '../config.js'
+import { tenants } from '../tenants.js'
+import { logger } from '../utils/logger.js'
+import { TtlCache } from '../utils/ttlCache.js'
+
+/**
+ * Identifies the call a tool invocation belongs to.
+ */
+export interface CallRef {
+	/** MCP session ID, if the transport has one */
+	sessionId?: string
+	/** Retell call ID (the tools' `externalID`), if the tool takes one */
+	callId?: string
+}
+
+/**
+ * What is known about the caller on a call.
+ */
+export interface CallContext {
+	/** MCP session that created the context, if the transport has one */
+	sessionId?: string
+	/** Tenant (by company ID) the session was bound to when the context was created */
+	tenantId?: number
+	/** Retell call ID, once a tool has passed it */
+	callId?: string
+	/** Company of the caller identified by a lookup */
+	companyId?: number
+	/** Contact identified or created by a lookup; unset if no contact was created */
+	contactId?: number
+	/** True if the contact was created on this call */
+	isNewContact?: boolean
+	/** True if the contact is inactive pending review by staff, from this or an earlier call */
+	pendingReview?: boolean
+	/** True once the caller proved they are the contact (verifyCaller or a one-time code) */
+	verified: boolean
+}
+
+/**
+ * The IDs a tool should act on, after defaults and checks.
+ */
+export interface ResolvedCaller {
+	/** Company ID given, or the identified caller's */
+	companyId?: number
+	/** Contact ID given, or the identified caller's */
+	contactId?: number
+	/** Whether the identified contact was created on this call, if known */
+	isNewContact?: boolean
+	/** Whether the identified contact is pending review, if known */
+	pendingReview?: boolean
+	/** True if the identified caller has been verified */
+	verified: boolean
+}
+
+/**
+ * Error raised when a tool is given an ID that contradicts what was looked
+ * up earlier in the call.
+ */
+export class CallContextMismatchError extends Error {
+	/** The parameter that did not match */
+	readonly field: 'companyId' | 'contactId' | 'externalID'
+
+	constructor(field: 'companyId' | 'contactId' | 'externalID', message: string) {
+		super(message)
+		this.name = 'CallContextMismatchError'
+		this.field = field
+	}
+}
+
+/**
+ * Error raised when a tool that reveals or changes a caller's tickets is
+ * used before the caller proved who they are.
+ */
+export class CallerNotVerifiedError extends Error {
+	constructor(message = 'The caller has not been verified on this call. Verify them with verifyCaller first.') {
+		super(message)
+		this.name = 'CallerNotVerifiedError'
+	}
+}
+
+/**
+ * Per-call caller identity, shared by the tools.
+ *
+ * @example
+ * ```typescript
+ * callContexts.identify({ sessionId }, { companyId: 1001, contactId: 2001, isNewContact: false })
+ * callContexts.resolve({ sessionId, callId: 'call-123' }, {})                      // { companyId: 1001, contactId: 2001, ... }
+ * callContexts.resolve({ sessionId, callId: 'call-123' }, { contactId: '2002' })  // throws CallContextMismatchError
+ * ```
+ */
+export class CallContextStore {
+	private readonly contexts: TtlCache<string, CallContext>
+
+	/**
+	 * @param ttlMs - How long a context is kept after it was last used
+	 */
+	constructor(ttlMs: number) {
+		this.contexts = new TtlCache(ttlMs)
+	}
+
+	/**
+	 * Returns what is known about a call.
+	 *
+	 * @param ref - The call
+	 * @returns The context, or undefined if nothing was recorded for the session
+	 * @throws CallContextMismatchError if the call ID differs from the session's
+	 */
+	get(ref: CallRef): CallContext | undefined {
+		return this.find(ref)
+	}
+
+	/**
+	 * Records the caller a lookup identified. A different contact than before
+	 * replaces the earlier one and is not verified.
+	 *
+	 * @param ref - The call
+	 * @param caller - Company and, if one was found or created, contact
+	 */
+	identify(
+		ref: CallRef,
+		caller: { companyId: number; contactId?: number; isNewContact?: boolean; pendingReview?: boolean }
+	): void {
+		const context = this.find(ref) ?? this.create(ref)
+		const sameContact = caller.contactId !== undefined && caller.contactId === context.contactId
+
+		context.companyId = caller.companyId
+		context.contactId = caller.contactId
+		context.isNewContact = caller.isNewContact
+		context.pendingReview = caller.pendingReview
+		context.verified = sameContact && context.verified
+		this.save(ref, context)
+	}
+
+	/**
+	 * Marks the caller verified as a contact.
+	 *
+	 * @param ref - The call
+	 * @param caller - The verified company and contact
+	 */
+	markVerified(ref: CallRef, caller: { companyId?: number; contactId: number }): void {
+		const context = this.find(ref) ?? this.create(ref)
+
+		context.companyId = caller.companyId ?? context.companyId
+		context.contactId = caller.contactId
+		context.verified = true
+		this.save(ref, context)
+	}
+
+	/**
+	 * Works out which company and contact a tool should act on. IDs left out
+	 * default to the caller identified on this call; IDs given must match it.
+	 * Without an identified caller, IDs given are refused: they could only
+	 * have come from the agent, not from a lookup.
+	 *
+	 * @param ref - The call
+	 * @param given - IDs as passed to the tool
+	 * @returns The IDs to use (either may be undefined if not known)
+	 * @throws CallContextMismatchError if an ID contradicts the identified caller, or no caller was identified
+	 * @throws Error if an ID given is not numeric
+	 */
+	resolve(ref: CallRef, given: { companyId?: string; contactId?: string }): ResolvedCaller {
+		const context = this.find(ref)
+		const identified = context?.companyId !== undefined
+
+		const resolved: ResolvedCaller = {
+			companyId: reconcile('companyId', given.companyId, context?.companyId, identified),
+			contactId: reconcile('contactId', given.contactId, context?.contactId, identified),
+			isNewContact: context?.isNewContact,
+			pendingReview: context?.pendingReview,
+			verified: context?.verified ?? false
+		}
+
+		if (context) {
+			this.save(ref, context)
+		}
+		return resolved
+	}
+
+	/**
+	 * Drops a closed session's context.
+	 *
+	 * @param sessionId - The closed MCP session
+	 */
+	forget(sessionId: string): void {
+		this.contexts.delete(`session:${sessionId}`)
+	}
+
+	/**
+	 * Starts an empty context owned by the call's session and its tenant.
+	 * @internal
+	 */
+	private create(ref: CallRef): CallContext {
+		return { sessionId: ref.sessionId, tenantId: boundTenantId(ref), callId: ref.callId, verified: false }
+	}
+
+	/**
+	 * Finds the call's context, and attaches the call ID to it when first
+	 * seen. A context is only looked up by its own session (by call ID only
+	 * when there is no session), and is ignored if the session's tenant
+	 * binding changed since.
+	 * @internal
+	 */
+	private find(ref: CallRef): CallContext | undefined {
+		const key = contextKey(ref)
+		const context = key !== undefined ? this.contexts.get(key) : undefined
+		if (!context) {
+			return undefined
+		}
+
+		if (context.sessionId !== ref.sessionId || context.tenantId !== boundTenantId(ref)) {
+			logger.warn(
+				{ sessionId: ref.sessionId, callId: ref.callId, tenantId: boundTenantId(ref), contextTenantId: context.tenantId },
+				'Call context of another session or tenant ignored'
+			)
+			return undefined
+		}
+
+		if (ref.callId) {
+			if (context.callId && context.callId !== ref.callId) {
+				throw new CallContextMismatchError(
+					'externalID',
+					`externalID "${ref.callId}" does not match this call ("${context.callId}"). Pass the call's own externalID.`
+				)
+			}
+			context.callId = ref.callId
+		}
+		return context
+	}
+
+	/**
+	 * Stores the context under its key, restarting its expiry.
+	 * @internal
+	 */
+	private save(ref: CallRef, context: CallContext): void {
+		const key = contextKey(ref)
+		if (key !== undefined) {
+			this.contexts.set(key, context)
+		}
+	}
+}
+
+/**
+ * Key a call's context is stored under: its session, or its call ID when
+ * the transport has no sessions.
+ * @internal
+ */
+function contextKey(ref: CallRef): string | undefined {
+	if (ref.sessionId !== undefined) {
+		return `session:${ref.sessionId}`
+	}
+	return ref.callId ? `call:${ref.callId}` : undefined
+}
+
+/**
+ * Tenant (by company ID) the call's session is bound to.
+ * @internal
+ */
+function boundTenantId(ref: CallRef): number | undefined {
+	return ref.sessionId !== undefined ? tenants.boundTenantId(ref.sessionId) : undefined
+}
+
+/**
+ * Parses an ID given to a tool and checks it against the one identified on
+ * the call.
+ * @internal
+ */
+function reconcile(
+	field: 'companyId' | 'contactId',
+	given: string | undefined,
+	known: number | undefined,
+	identified: boolean
+): number | undefined {
+	const id = given?.trim() ? parseInt(given) : undefined
+	if (id !== undefined && isNaN(id)) {
+		throw new Error(`${field} must be a numeric ID from the lookup result`)
+	}
+	if (!identified) {
+		if (id !== undefined) {
+			throw new CallContextMismatchError(
+				field,
+				`${field} ${id} was not identified on this call. Look the caller up first, then leave ${field} out.`
+			)
+		}
+		return undefined
+	}
+
+	if (id !== undefined && id !== known) {
+		throw new CallContextMismatchError(
+			field,
+			known === undefined
+				? `${field} ${id} was not identified on this call. Leave ${field} out, or look the caller up again.`
+				: `${field} ${id} does not match the caller identified on this call (${known}). Leave ${field} out to use ${known}, or look the caller up again.`
+		)
+	}
+	return known
+}
+
+/**
+ * Checks that a caller proved who they are on this call, with verifyCaller
+ * or a one-time code. A contact created on this call has nothing on file to
+ * prove against and is accepted, but only for its own tickets (see
+ * {@link callerOwnsTicket}).
+ *
+ * @param caller - The caller as resolved for the tool
+ * @throws CallerNotVerifiedError if the caller is not verified
+ *
+ * @example
+ * ```typescript
+ * const caller = callContexts.resolve({ sessionId, callId }, params)
+ * assertVerified(caller) // throws until verifyCaller succeeds on this call
+ * ```
+ */
+export function assertVerified(caller: ResolvedCaller): void {
+	if (!caller.verified && !caller.isNewContact) {
+		throw new CallerNotVerifiedError()
+	}
+}
+
+/**
+ * Checks that a ticket is one the caller may see or change. A verified
+ * caller may use any ticket of their company. A contact created on this call
+ * is only who they said they are, so it is limited to tickets raised for
+ * that contact, even after verifyCaller matched the details it was just
+ * created with.
+ *
+ * @param caller - The caller as resolved for the tool
+ * @param ticket - Company and contact the ticket belongs to
+ * @returns True if the caller may use the ticket
+ *
+ * @example
+ * ```typescript
+ * if (!callerOwnsTicket(caller, ticket)) {
+ *   return notFound(`No ticket ${ticketId} was found for this caller.`)
+ * }
+ * ```
+ */
+export function callerOwnsTicket(
+	caller: ResolvedCaller,
+	ticket: { companyID?: number | string; contactID?: number | string }
+): boolean {
+	if (caller.companyId === undefined || Number(ticket.companyID) !== caller.companyId) {
+		return false
+	}
+	return !caller.isNewContact || (caller.contactId !== undefined && Number(ticket.contactID) === caller.contactId)
+}
+
+/**
+ * Shared store configured from application settings.
+ */
+export const callContexts = new CallContextStore(config.callContext.ttlMs)
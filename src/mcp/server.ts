@@ -7,8 +7,15 @@
  * 
  * Registered Tools:
  * - `lookupCompanyContact` — Search for companies and contacts by name
+ * - `lookupContactByPhone` — Identify the caller from their caller ID
+ * - `verifyCaller` — Verify the caller against the contact details on file without exposing them
+ * - `sendVerificationCode` — Email a one-time code to the contact's address on file
+ * - `confirmVerificationCode` — Check a one-time code read back by the caller
  * - `createTicket` — Create new service requests or incidents
  * - `getTicket` — Retrieve existing ticket details
+ * - `listOpenTickets` — List a contact's open tickets
+ * - `addTicketNote` — Add a caller's update to their ticket
+ * - `updateTicket` — Change the status of a caller's ticket within the allowed transitions
  * - `checkResourceAvailability` — Check if a technician's phone line is available via BVoip
  * 
  * @module mcp/server
@@ -16,7 +23,14 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { createTicketSchema, createTicketHandler } from './tools/createTicket.js'
 import { lookupCompanyContactSchema, lookupCompanyContactHandler } from './tools/lookupCompanyContact.js'
+import { lookupContactByPhoneSchema, lookupContactByPhoneHandler } from './tools/lookupContactByPhone.js'
+import { verifyCallerSchema, verifyCallerHandler } from './tools/verifyCaller.js'
+import { sendVerificationCodeSchema, sendVerificationCodeHandler } from './tools/sendVerificationCode.js'
+import { confirmVerificationCodeSchema, confirmVerificationCodeHandler } from './tools/confirmVerificationCode.js'
 import { getTicketSchema, getTicketHandler } from './tools/getTicket.js'
+import { listOpenTicketsSchema, listOpenTicketsHandler } from './tools/listOpenTickets.js'
+import { addTicketNoteSchema, addTicketNoteHandler } from './tools/addTicketNote.js'
+import { updateTicketSchema, updateTicketHandler } from './tools/updateTicket.js'
 import { checkResourceAvailabilitySchema, checkResourceAvailabilityHandler } from './tools/checkResourceAvailability.js'
 import { logger } from '../utils/logger.js'
 
@@ -68,10 +82,10 @@ export function createMcpServer(): McpServer {
 			description: lookupCompanyContactSchema.description,
 			inputSchema: lookupCompanyContactSchema.inputSchema
 		},
-		async (params) => {
+		async (params, extra) => {
 			try {
 				logger.info({ params, tool: lookupCompanyContactSchema.name }, 'Tool handler called')
-				return await lookupCompanyContactHandler(params as Parameters<typeof lookupCompanyContactHandler>[0])
+				return await lookupCompanyContactHandler(params as Parameters<typeof lookupCompanyContactHandler>[0], extra.sessionId)
 			} catch (error) {
 				logger.error({ error, tool: lookupCompanyContactSchema.name }, 'Unexpected error in tool handler')
 				return {
@@ -90,6 +104,122 @@ export function createMcpServer(): McpServer {
 		}
 	)
 
+	// Register the lookupContactByPhone tool
+	server.registerTool(
+		lookupContactByPhoneSchema.name,
+		{
+			description: lookupContactByPhoneSchema.description,
+			inputSchema: lookupContactByPhoneSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: lookupContactByPhoneSchema.name }, 'Tool handler called')
+				return await lookupContactByPhoneHandler(params as Parameters<typeof lookupContactByPhoneHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: lookupContactByPhoneSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
+	// Register the verifyCaller tool
+	server.registerTool(
+		verifyCallerSchema.name,
+		{
+			description: verifyCallerSchema.description,
+			inputSchema: verifyCallerSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: verifyCallerSchema.name }, 'Tool handler called')
+				return await verifyCallerHandler(params as Parameters<typeof verifyCallerHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: verifyCallerSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
+	// Register the sendVerificationCode tool
+	server.registerTool(
+		sendVerificationCodeSchema.name,
+		{
+			description: sendVerificationCodeSchema.description,
+			inputSchema: sendVerificationCodeSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: sendVerificationCodeSchema.name }, 'Tool handler called')
+				return await sendVerificationCodeHandler(params as Parameters<typeof sendVerificationCodeHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: sendVerificationCodeSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
+	// Register the confirmVerificationCode tool
+	server.registerTool(
+		confirmVerificationCodeSchema.name,
+		{
+			description: confirmVerificationCodeSchema.description,
+			inputSchema: confirmVerificationCodeSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: confirmVerificationCodeSchema.name }, 'Tool handler called')
+				return await confirmVerificationCodeHandler(params as Parameters<typeof confirmVerificationCodeHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: confirmVerificationCodeSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
 	// Register the createTicket tool
 	server.registerTool(
 		createTicketSchema.name,
@@ -97,10 +227,10 @@ export function createMcpServer(): McpServer {
 			description: createTicketSchema.description,
 			inputSchema: createTicketSchema.inputSchema
 		},
-		async (params) => {
+		async (params, extra) => {
 			try {
 				logger.info({ params, tool: createTicketSchema.name }, 'Tool handler called')
-				return await createTicketHandler(params as Parameters<typeof createTicketHandler>[0])
+				return await createTicketHandler(params as Parameters<typeof createTicketHandler>[0], extra.sessionId)
 			} catch (error) {
 				// Ensure any unexpected errors are properly caught and returned
 				logger.error({ error, tool: createTicketSchema.name }, 'Unexpected error in tool handler')
@@ -127,10 +257,10 @@ export function createMcpServer(): McpServer {
 			description: getTicketSchema.description,
 			inputSchema: getTicketSchema.inputSchema
 		},
-		async (params) => {
+		async (params, extra) => {
 			try {
 				logger.info({ params, tool: getTicketSchema.name }, 'Tool handler called')
-				return await getTicketHandler(params as Parameters<typeof getTicketHandler>[0])
+				return await getTicketHandler(params as Parameters<typeof getTicketHandler>[0], extra.sessionId)
 			} catch (error) {
 				logger.error({ error, tool: getTicketSchema.name }, 'Unexpected error in tool handler')
 				return {
@@ -149,6 +279,93 @@ export function createMcpServer(): McpServer {
 		}
 	)
 
+	// Register the listOpenTickets tool
+	server.registerTool(
+		listOpenTicketsSchema.name,
+		{
+			description: listOpenTicketsSchema.description,
+			inputSchema: listOpenTicketsSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: listOpenTicketsSchema.name }, 'Tool handler called')
+				return await listOpenTicketsHandler(params as Parameters<typeof listOpenTicketsHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: listOpenTicketsSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
+	// Register the addTicketNote tool
+	server.registerTool(
+		addTicketNoteSchema.name,
+		{
+			description: addTicketNoteSchema.description,
+			inputSchema: addTicketNoteSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: addTicketNoteSchema.name }, 'Tool handler called')
+				return await addTicketNoteHandler(params as Parameters<typeof addTicketNoteHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: addTicketNoteSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
+	// Register the updateTicket tool
+	server.registerTool(
+		updateTicketSchema.name,
+		{
+			description: updateTicketSchema.description,
+			inputSchema: updateTicketSchema.inputSchema
+		},
+		async (params, extra) => {
+			try {
+				logger.info({ params, tool: updateTicketSchema.name }, 'Tool handler called')
+				return await updateTicketHandler(params as Parameters<typeof updateTicketHandler>[0], extra.sessionId)
+			} catch (error) {
+				logger.error({ error, tool: updateTicketSchema.name }, 'Unexpected error in tool handler')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'error',
+								error: error instanceof Error ? error.message : 'Unknown error occurred'
+							})
+						}
+					],
+					isError: true
+				}
+			}
+		}
+	)
+
 	// Register the checkResourceAvailability tool
 	server.registerTool(
 		checkResourceAvailabilitySchema.name,
@@ -179,7 +396,21 @@ export function createMcpServer(): McpServer {
 	)
 
 	logger.info(
-		{ tools: [lookupCompanyContactSchema.name, createTicketSchema.name, getTicketSchema.name, checkResourceAvailabilitySchema.name] },
+		{
+			tools: [
+				lookupCompanyContactSchema.name,
+				lookupContactByPhoneSchema.name,
+				verifyCallerSchema.name,
+				sendVerificationCodeSchema.name,
+				confirmVerificationCodeSchema.name,
+				createTicketSchema.name,
+				getTicketSchema.name,
+				listOpenTicketsSchema.name,
+				addTicketNoteSchema.name,
+				updateTicketSchema.name,
+				checkResourceAvailabilitySchema.name
+			]
+		},
 		'MCP server created with tools registered'
 	)
 
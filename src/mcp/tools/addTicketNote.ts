@@ -0,0 +1,181 @@
+/**
+ * @fileoverview MCP tool for adding a caller's update to an existing ticket.
+ *
+ * When a caller phones back with new information the agent appends it to
+ * their ticket as a note instead of opening a new ticket, and optionally
+ * flags the ticket so technicians notice the update.
+ *
+ * @module mcp/tools/addTicketNote
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { createTicketNote, getTicketForCaller, updateTicket } from '../../api/autotask.js'
+import { metadataService } from '../../api/autotaskMetadata.js'
+import { validateContact } from '../../api/callerValidation.js'
+import { config } from '../../config.js'
+import { assertVerified, callContexts, CallerNotVerifiedError } from '../callContext.js'
+import { tenants } from '../../tenants.js'
+import { logger } from '../../utils/logger.js'
+
+/**
+ * Schema definition for the addTicketNote MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   ticketId: '3001',
+ *   companyId: '1001',
+ *   contactId: '2001',
+ *   note: 'Printer now shows error E5 after restarting',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const addTicketNoteSchema = {
+	name: 'addTicketNote',
+	description: 'Add the caller\'s new information to one of their existing tickets as a note, instead of creating a new ticket. The ticket must belong to the verified caller (companyId and contactId from lookupCompanyContact, which default to the caller identified on this call). Technicians are notified through the ticket status. The caller must be verified with verifyCaller first; otherwise status is verification_required.',
+	inputSchema: z.object({
+		ticketId: z.string().describe('Autotask ticket ID (from listOpenTickets or getTicket)'),
+		companyId: z.string().optional().describe('Verified caller\'s company ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		contactId: z.string().optional().describe('Verified caller\'s contact ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		note: z.string().min(1).describe('The update from the caller, summarized in plain language'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Handles the addTicketNote tool invocation from MCP clients.
+ *
+ * The contact must belong to the company and be active (see
+ * {@link validateContact}). Posts a TicketNote with the configured note type and publish level and
+ * the Retell call ID in its body. If `TICKET_CUSTOMER_NOTE_STATUS` is set,
+ * the ticket is then moved to that status; a failure there is logged and
+ * reported as `statusUpdated: false` without failing the call, since the
+ * note itself was saved.
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with the note ID or error
+ *
+ * @example
+ * ```typescript
+ * // Success response:
+ * {
+ *   status: 'success',
+ *   ticketId: '3001',
+ *   ticketNumber: 'T20240101.0001',
+ *   noteId: '9001',
+ *   statusUpdated: true,
+ *   ticketStatus: 'Customer Note Added'
+ * }
+ * ```
+ */
+export async function addTicketNoteHandler(params: {
+	ticketId: string
+	companyId?: string
+	contactId?: string
+	note: string
+	externalID: string
+}, sessionId?: string): Promise<CallToolResult> {
+	logger.info(
+		{
+			tool: 'addTicketNote',
+			ticketId: params.ticketId,
+			companyId: params.companyId,
+			contactId: params.contactId,
+			externalID: params.externalID
+		},
+		'Tool call: addTicketNote'
+	)
+
+	try {
+		const caller = callContexts.resolve({ sessionId, callId: params.externalID }, params)
+		const { companyId, contactId, isNewContact, pendingReview } = caller
+		if (companyId === undefined || contactId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up first')
+		}
+		assertVerified(caller)
+		await validateContact(companyId, contactId, { newContact: isNewContact, pendingReview, tenant: tenants.forSession(sessionId) })
+
+		const ticket = await getTicketForCaller(params.ticketId, companyId, contactId)
+		if (!ticket) {
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							status: 'not_found',
+							message: 'No ticket with that ID was found for this caller.'
+						})
+					}
+				]
+			}
+		}
+
+		const noteType = await metadataService.resolveValue('TicketNotes', 'noteType', config.ticketNotes.noteType)
+		const publish = await metadataService.resolveValue('TicketNotes', 'publish', config.ticketNotes.publish)
+
+		const noteId = await createTicketNote(params.ticketId, {
+			title: 'Caller update via phone',
+			description: `${params.note.trim()}
+
+Added by the voice agent during call ${params.externalID}`,
+			noteType,
+			publish
+		})
+
+		const responseData: Record<string, unknown> = {
+			status: 'success',
+			ticketId: String(ticket.id),
+			ticketNumber: ticket.ticketNumber,
+			noteId,
+			statusUpdated: false
+		}
+
+		if (config.ticketNotes.customerNoteStatus) {
+			try {
+				const status = await metadataService.resolveValue('Tickets', 'status', config.ticketNotes.customerNoteStatus)
+				if (status !== Number(ticket.status)) {
+					await updateTicket(params.ticketId, { status })
+				}
+				responseData.statusUpdated = true
+				responseData.ticketStatus = await metadataService.labelOrCode('Tickets', 'status', status)
+			} catch (statusError) {
+				logger.warn(
+					{ error: statusError, ticketId: params.ticketId, status: config.ticketNotes.customerNoteStatus },
+					'Failed to update ticket status after adding note'
+				)
+			}
+		}
+
+		logger.info({ ticketId: params.ticketId, noteId, statusUpdated: responseData.statusUpdated }, 'Ticket note added via tool')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify(responseData)
+				}
+			]
+		}
+	} catch (error) {
+		logger.error(
+			{ error, ticketId: params.ticketId, externalID: params.externalID, tool: 'addTicketNote' },
+			'Tool call failed: addTicketNote'
+		)
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: error instanceof CallerNotVerifiedError ? 'verification_required' : 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview MCP tool for checking a one-time verification code read
+ * back by the caller.
+ *
+ * A confirmed code marks the caller verified for the rest of the call, which
+ * `createTicket` requires for the categories in
+ * `VERIFY_CODE_REQUIRED_CATEGORIES`.
+ *
+ * @module mcp/tools/confirmVerificationCode
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { verificationCodes, verificationKey } from '../../api/verificationCodes.js'
+import { callContexts } from '../callContext.js'
+import { normalizeSpokenDigits } from '../../utils/spokenInput.js'
+import { logger } from '../../utils/logger.js'
+
+/**
+ * Schema definition for the confirmVerificationCode MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   contactId: '2001',
+ *   code: 'four eight two nine one five',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const confirmVerificationCodeSchema = {
+	name: 'confirmVerificationCode',
+	description: 'Check the one-time code the caller read out from the email sent by sendVerificationCode. Pass the code exactly as said (spoken digits are fine). Returns verified true or false, remainingAttempts, and locked or expired when a new code is needed.',
+	inputSchema: z.object({
+		contactId: z.string().optional().describe('Autotask contact ID the code was sent to (defaults to the caller identified on this call)'),
+		code: z.string().describe('Code as the caller read it out'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Handles the confirmVerificationCode tool invocation from MCP clients.
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with the verification outcome or error
+ *
+ * @example
+ * ```typescript
+ * // Response:
+ * { status: 'success', verified: false, remainingAttempts: 2, message: 'That code is not right. ...' }
+ * ```
+ */
+export async function confirmVerificationCodeHandler(
+	params: {
+		contactId?: string
+		code: string
+		externalID: string
+	},
+	sessionId?: string
+): Promise<CallToolResult> {
+	logger.info(
+		{ tool: 'confirmVerificationCode', contactId: params.contactId, externalID: params.externalID },
+		'Tool call: confirmVerificationCode'
+	)
+
+	try {
+		const call = { sessionId, callId: params.externalID }
+		const { contactId } = callContexts.resolve(call, { contactId: params.contactId })
+		if (contactId === undefined) {
+			throw new Error('contactId must be the numeric ID the code was sent to')
+		}
+
+		const result = verificationCodes.check(
+			verificationKey(sessionId, params.externalID, contactId),
+			normalizeSpokenDigits(params.code)
+		)
+		logger.info({ contactId, externalID: params.externalID, result: result.status }, 'Verification code checked')
+
+		const response: Record<string, unknown> = { status: 'success', verified: result.status === 'verified' }
+		switch (result.status) {
+			case 'verified':
+				callContexts.markVerified(call, { contactId })
+				response.message = 'Code confirmed. The caller is verified for this call.'
+				break
+			case 'invalid':
+				response.remainingAttempts = result.remainingAttempts
+				response.message = 'That code is not right. Ask the caller to read it again carefully.'
+				break
+			case 'locked':
+				response.locked = true
+				response.message = 'Too many wrong codes. Offer to send a new code with sendVerificationCode.'
+				break
+			case 'expired':
+				response.expired = true
+				response.message = 'No code is waiting for this caller (it expired or was never sent). Offer to send a new code with sendVerificationCode.'
+				break
+		}
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify(response)
+				}
+			]
+		}
+	} catch (error) {
+		logger.error({ error, tool: 'confirmVerificationCode' }, 'Tool call failed: confirmVerificationCode')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
@@ -6,7 +6,23 @@
  */
 import { z } from 'zod'
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
-import { createTicket, getTicketById, getResourceById, updateContact } from '../../api/autotask.js'
+import {
+	AutotaskApiError,
+	createTicket,
+	findTicketByExternalId,
+	getResourceById,
+	getTicketById,
+	updateContact,
+	waitForTicketAssignment
+} from '../../api/autotask.js'
+import { metadataService } from '../../api/autotaskMetadata.js'
+import { assertCompanyAllowed, CallerValidationError, validateContact } from '../../api/callerValidation.js'
+import { DeliveryResult, TicketOutbox } from '../../api/ticketOutbox.js'
+import { requiresVerificationCode, verificationCodes, verificationKey } from '../../api/verificationCodes.js'
+import { config } from '../../config.js'
+import { callContexts } from '../callContext.js'
+import { tenants } from '../../tenants.js'
+import { TtlCache } from '../../utils/ttlCache.js'
 import { logger } from '../../utils/logger.js'
 
 /**
@@ -27,51 +43,110 @@ import { logger } from '../../utils/logger.js'
  *   preferredContactMethod: 'phone',
  *   issueDescription: 'Printer not working',
  *   title: 'Printer Issue',
- *   ticketType: '2',  // Incident
- *   priority: '2',    // P3 Medium
+ *   ticketType: 'Incident',
+ *   priority: 'Medium',
+ *   requestCategory: 'other',
  *   externalID: 'retell-call-abc123'
  * }
  * ```
  */
 export const createTicketSchema = {
 	name: 'createTicket',
-	description: 'Create an Autotask ticket (service request or incident). Use lookupCompanyContact first to get companyId and contactId. If isNewContact is true and contact info is provided, the contact record will be updated.',
+	description: 'Create an Autotask ticket (service request or incident). Use lookupCompanyContact first; companyId and contactId default to the caller it identified on this call, and IDs for anyone else are refused. Contact info provided updates the contact record only for a contact created on this call; for an existing contact it is recorded in the ticket description instead. Without a contactId (when lookupCompanyContact did not create a contact), the caller\'s name, phone and email are recorded in the ticket description. Safe to retry: a repeated call with the same externalID returns the existing ticket with alreadyExisted set to true. If Autotask is unreachable the ticket is queued and status is "queued" with a provisionalReference to give the caller instead of a ticket number. Sensitive request categories (e.g., password_reset, new_user, access_change) return status "verification_required" until the caller has confirmed a code from sendVerificationCode.',
 	inputSchema: z.object({
-		companyId: z.string().describe('Autotask company ID (from lookupCompanyContact result)'),
-		contactId: z.string().optional().describe('Autotask contact ID (from lookupCompanyContact result)'),
-		isNewContact: z.boolean().optional().default(false).describe('Set to true if this is a newly created contact that needs callback info updated'),
-		contactName: z.string().optional().describe('Name of the person reporting the issue (optional - contact already linked via contactId)'),
-		contactPhone: z.string().optional().describe('Phone number of the contact (optional - only needed for new contacts or to update existing)'),
-		contactEmail: z.string().optional().describe('Email of the contact (optional - only needed for new contacts or to update existing)'),
+		companyId: z.string().optional().describe('Autotask company ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		contactId: z.string().optional().describe('Autotask contact ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		contactName: z.string().optional().describe('Name of the person reporting the issue (optional - contact already linked via contactId; required without one)'),
+		contactPhone: z.string().optional().describe('Callback phone number (optional - saved on contacts created on this call, otherwise noted on the ticket)'),
+		contactEmail: z.string().optional().describe('Callback email address (optional - saved on contacts created on this call, otherwise noted on the ticket)'),
 		preferredContactMethod: z
 			.enum(['phone', 'email'])
 			.describe('Preferred method of contact: phone or email'),
 		issueDescription: z.string().describe('Description of the issue or service request'),
 		title: z.string().describe('Title of the issue or service request'),
-		ticketType: z.enum(['1', '2']).describe('1 for Service Request, 2 for Incident'),
+		ticketType: z
+			.string()
+			.describe('Ticket type label as configured in Autotask (e.g., "Service Request" or "Incident"); numeric codes are also accepted'),
 		priority: z
-			.enum(['4', '1', '2', '5'])
-			.describe('4=P1 Critical, 1=P2 High, 2=P3 Medium, 5=P4 Low'),
+			.string()
+			.describe('Priority label as configured in Autotask (e.g., "Critical", "High", "Medium", "Low"); numeric codes are also accepted'),
+		requestCategory: z
+			.string()
+			.optional()
+			.describe('Kind of request: "password_reset", "new_user", "access_change" (permissions, shared mailboxes, MFA) or "other"'),
 		externalID: z.string().describe('External ID from Retell call')
 	})
 }
 
+/**
+ * createTicket parameters once the caller's company is known, as written to
+ * the outbox: with whether the contact was created on this call or is
+ * pending review, and the tenant (by company ID) of the session it came from.
+ */
+export type TicketRequest = Parameters<typeof createTicketHandler>[0] & {
+	companyId: string
+	isNewContact: boolean
+	pendingReview?: boolean
+	tenantId?: number
+}
+
+/**
+ * Ticket lookups/creations per externalID and contact, kept briefly so that a
+ * retried or repeated tool call returns the same ticket even before Autotask
+ * has indexed it for querying.
+ * @internal
+ */
+const recentTickets = new TtlCache<string, Promise<{ ticketId: string; created: boolean }>>(
+	config.tickets.idempotencyTtlMs
+)
+
+/**
+ * Durable outbox for tickets that could not be created because Autotask was
+ * unreachable. Drained in the background by {@link deliverQueuedTicket};
+ * its log is only read (and created) on first use.
+ */
+export const ticketOutbox = new TicketOutbox<TicketRequest>({
+	path: config.outbox.path,
+	retryIntervalMs: config.outbox.retryIntervalMs,
+	maxBackoffMs: config.outbox.maxBackoffMs,
+	maxAttempts: config.outbox.maxAttempts,
+	maxAgeMs: config.outbox.maxAgeMs,
+	retentionMs: config.outbox.retentionMs
+})
+
 /**
  * Handles the createTicket tool invocation from MCP clients.
  * 
  * This handler:
- * 1. Creates a ticket in Autotask via the REST API
- * 2. Retrieves ticket details including ticket number
- * 3. Optionally retrieves assigned resource details for call transfer
+ * 1. Fills in the company and contact identified earlier in the call,
+ *    refusing IDs that contradict them
+ * 2. Refuses request categories listed in `VERIFY_CODE_REQUIRED_CATEGORIES`
+ *    unless the caller confirmed a one-time code on this call
+ * 3. Resolves priority and ticket type labels to this instance's picklist values
+ * 4. Confirms the contact belongs to the company and is active, and that the
+ *    company is allowed for the session's tenant (see {@link validateContact}),
+ *    failing closed
+ * 5. Returns the existing ticket if one was already filed for this externalID,
+ *    otherwise creates a ticket in Autotask via the REST API, in the tenant's
+ *    queue (or the default queue when the session has no tenant)
+ * 6. Polls the ticket until a technician is auto-assigned or the deadline passes
+ * 7. Optionally retrieves assigned resource details for call transfer
+ * 
+ * `assignmentPending` in the response tells the agent whether to offer a
+ * callback instead of a transfer. If Autotask cannot be reached (network
+ * errors, throttling or 5xx after retries), the ticket is written to the
+ * outbox and a provisional reference is returned instead; if the outbox has
+ * already delivered this call's ticket, that ticket is returned.
  * 
  * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
  * @returns MCP tool result with ticket details or error
  * 
  * @example
  * ```typescript
  * // Success response:
  * {
- *   content: [{ type: 'text', text: '{"status":"success","ticket_id":"123","ticket_number":"T20240101.0001"}' }]
+ *   content: [{ type: 'text', text: '{"status":"success","ticketId":"123","ticketNumber":"T20240101.0001"}' }]
  * }
  * 
  * // Error response:
@@ -82,120 +157,140 @@ export const createTicketSchema = {
  * ```
  */
 export async function createTicketHandler(params: {
-	companyId: string
+	companyId?: string
 	contactId?: string
-	isNewContact?: boolean
 	contactName: string
 	contactPhone?: string
 	contactEmail?: string
 	issueDescription: string,
 	preferredContactMethod: 'phone' | 'email'
 	title: string
-	ticketType: '1' | '2'
-	priority: '4' | '1' | '2' | '5'
+	ticketType: string
+	priority: string
+	requestCategory?: string
 	externalID: string
-}): Promise<CallToolResult> {
-	const companyId = parseInt(params.companyId)
-	const contactId = params.contactId ? parseInt(params.contactId) : undefined
-	const isNewContact = params.isNewContact || false
+}, sessionId?: string): Promise<CallToolResult> {
+	let ticket: TicketRequest | undefined
 
 	logger.info(
 		{
 			tool: 'createTicket',
-			companyId,
-			contactId,
-			isNewContact,
+			companyId: params.companyId,
+			contactId: params.contactId,
 			externalID: params.externalID,
 			ticketType: params.ticketType,
 			priority: params.priority,
+			requestCategory: params.requestCategory,
 			title: params.title
 		},
 		'Tool call: createTicket'
 	)
 
 	try {
-		// Update contact info if:
-		// 1. This is a new contact that needs callback info, OR
-		// 2. Contact info is provided and we have a contactId (update existing contact too)
-		logger.debug({ 
-			contactId, 
-			contactEmail: params.contactEmail, 
-			contactPhone: params.contactPhone,
-			hasContactId: !!contactId,
-			hasEmail: !!params.contactEmail,
-			hasPhone: !!params.contactPhone
-		}, 'Checking if contact update is needed')
-		
-		if (contactId && (params.contactEmail || params.contactPhone)) {
-			logger.info({ contactId, companyId, email: params.contactEmail, phone: params.contactPhone }, 'Attempting to update contact info')
-			try {
-				await updateContact(companyId, contactId, {
-					emailAddress: params.contactEmail,
-					phone: params.contactPhone
-				})
-				logger.info({ contactId, email: params.contactEmail, phone: params.contactPhone, isNewContact }, 'Updated contact with callback info')
-			} catch (updateError) {
-				logger.warn({ error: updateError, contactId }, 'Failed to update contact info, continuing with ticket creation')
+		const caller = callContexts.resolve({ sessionId, callId: params.externalID }, params)
+		const { companyId, contactId } = caller
+		if (companyId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up with lookupCompanyContact first')
+		}
+		ticket = {
+			...params,
+			companyId: String(companyId),
+			contactId: contactId?.toString(),
+			isNewContact: caller.isNewContact ?? false,
+			pendingReview: caller.pendingReview,
+			tenantId: tenants.forSession(sessionId)?.companyId
+		}
+
+		if (
+			requiresVerificationCode(params.requestCategory) &&
+			!(contactId && verificationCodes.isVerified(verificationKey(sessionId, params.externalID, contactId)))
+		) {
+			logger.warn({ contactId, externalID: params.externalID, requestCategory: params.requestCategory }, 'Ticket needs a confirmed verification code')
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							status: 'verification_required',
+							message: `A ${params.requestCategory} request needs the caller to confirm a one-time code first. Call sendVerificationCode, have the caller read the code back, check it with confirmVerificationCode, then call createTicket again.`
+						})
+					}
+				]
+			}
+		}
+
+		// Resolve labels up front so an invalid value fails before anything is written
+		const priority = await metadataService.resolveValue('Tickets', 'priority', params.priority)
+		const ticketType = await metadataService.resolveValue('Tickets', 'ticketType', params.ticketType)
+
+		// Check and register the lookup/creation without awaiting in between so that a
+		// concurrent duplicate call for the same externalID joins it instead of racing it
+		const idempotencyKey = `${params.externalID}:${contactId ?? ''}`
+		let pending = params.externalID ? recentTickets.get(idempotencyKey) : undefined
+		const isDuplicateCall = pending !== undefined
+
+		if (!pending) {
+			pending = findOrCreateTicket(ticket, { companyId, contactId, priority, ticketType })
+			if (params.externalID) {
+				recentTickets.set(idempotencyKey, pending)
 			}
 		} else {
-			logger.debug({ contactId, hasEmail: !!params.contactEmail, hasPhone: !!params.contactPhone }, 'Skipping contact update - no contactId or no contact info provided')
+			logger.info({ externalID: params.externalID, contactId }, 'Duplicate createTicket call, joining earlier request')
 		}
 
-		const result = await createTicket({ ...params, companyId, contactId })
-		const ticketId = result.itemId || result.item?.id || 'Unknown'
+		let outcome: { ticketId: string; created: boolean }
+		try {
+			outcome = await pending
+		} catch (creationError) {
+			recentTickets.delete(idempotencyKey)
+			throw creationError
+		}
 
-		logger.info({ ticketId, externalID: params.externalID }, 'Ticket created successfully via tool')
+		const ticketId = outcome.ticketId
+		const alreadyExisted = isDuplicateCall || !outcome.created
 
-		// Wait for auto-assignment workflow to complete before fetching ticket details
-		await new Promise(resolve => setTimeout(resolve, 1500))
+		logger.info({ ticketId, externalID: params.externalID, alreadyExisted }, 'Ticket resolved via tool')
 
-		// Get ticket details to retrieve ticket number and assigned resource
-		let ticketDetails = null
+		// Poll until workflow rules assign a technician or the deadline passes
+		const assignment = await waitForTicketAssignment(ticketId, {
+			scheduleMs: config.tickets.assignmentPollScheduleMs,
+			deadlineMs: config.tickets.assignmentDeadlineMs
+		})
+		const ticketDetails = assignment.ticket
 		let resourceDetails = null
 		let transferPhone = null
 
-		try {
-			ticketDetails = await getTicketById(ticketId)
-			logger.info(
-				{
-					ticketId,
-					ticketNumber: ticketDetails.ticketNumber,
-					assignedResourceID: ticketDetails.assignedResourceID
-				},
-				'Retrieved ticket details'
-			)
-
-			// If a resource is assigned, get their details for phone transfer
-			if (ticketDetails.assignedResourceID) {
-				try {
-					resourceDetails = await getResourceById(ticketDetails.assignedResourceID)
-					// Prefer mobile phone, then office phone
-					transferPhone = resourceDetails.officePhone || resourceDetails.officePhone
+		// If a resource is assigned, get their details for phone transfer
+		if (ticketDetails?.assignedResourceID) {
+			try {
+				resourceDetails = await getResourceById(ticketDetails.assignedResourceID)
+				// Prefer mobile phone, then office phone
+				transferPhone = resourceDetails.mobilePhone || resourceDetails.officePhone
 
-					logger.info(
-						{
-							resourceId: resourceDetails.id,
-							resourceName: `${resourceDetails.firstName} ${resourceDetails.lastName}`,
-							transferPhone
-						},
-						'Retrieved assigned resource details'
-					)
-				} catch (resourceError) {
-					logger.warn(
-						{ error: resourceError, resourceId: ticketDetails.assignedResourceID },
-						'Failed to retrieve resource details'
-					)
-				}
+				logger.info(
+					{
+						resourceId: resourceDetails.id,
+						resourceName: `${resourceDetails.firstName} ${resourceDetails.lastName}`,
+						transferPhone
+					},
+					'Retrieved assigned resource details'
+				)
+			} catch (resourceError) {
+				logger.warn(
+					{ error: resourceError, resourceId: ticketDetails.assignedResourceID },
+					'Failed to retrieve resource details'
+				)
 			}
-		} catch (ticketError) {
-			logger.warn({ error: ticketError, ticketId }, 'Failed to retrieve ticket details')
 		}
 
 		// Build response as stringified JSON object
 		const responseData: Record<string, unknown> = {
 			status: 'success',
 			ticketId: ticketId,
-			ticketNumber: ticketDetails?.ticketNumber || ticketId
+			ticketNumber: ticketDetails?.ticketNumber || ticketId,
+			alreadyExisted,
+			assignmentPending: assignment.pending,
+			priority: (await metadataService.labelFor('Tickets', 'priority', priority).catch(() => undefined)) ?? params.priority
 		}
 
 		if (resourceDetails) {
@@ -215,6 +310,62 @@ export async function createTicketHandler(params: {
 			]
 		}
 	} catch (error) {
+		if (error instanceof CallerValidationError) {
+			logger.warn(
+				{ reason: error.reason, companyId: ticket?.companyId, contactId: ticket?.contactId, externalID: params.externalID },
+				'Ticket refused: caller validation failed'
+			)
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							status: 'error',
+							reason: error.reason,
+							error: error.message
+						})
+					}
+				],
+				isError: true
+			}
+		}
+
+		if (error instanceof AutotaskApiError && error.retryable && ticket) {
+			const entry = ticketOutbox.enqueue(`${ticket.externalID}:${ticket.contactId ?? ''}`, ticket)
+
+			// Queued earlier on this call and delivered since: report the real ticket
+			if (entry.status === 'delivered' && entry.ticketId) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: 'success',
+								ticketId: entry.ticketId,
+								ticketNumber: entry.ticketNumber,
+								alreadyExisted: true,
+								message: 'The ticket saved earlier on this call has already been created.'
+							})
+						}
+					]
+				}
+			}
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							status: 'queued',
+							provisionalReference: entry.reference,
+							message: 'Autotask is temporarily unavailable. The ticket has been saved and will be created automatically.'
+						})
+					}
+				]
+			}
+		}
+
 		logger.error(
 			{
 				error,
@@ -238,3 +389,119 @@ export async function createTicketHandler(params: {
 		}
 	}
 }
+
+/**
+ * Creates (or finds) the ticket for a payload taken from the outbox.
+ * 
+ * Safe to call repeatedly for the same payload: the externalID lookup in
+ * {@link findOrCreateTicket} returns the ticket if an earlier attempt
+ * succeeded but its response was lost.
+ * 
+ * @param params - The tool parameters captured when the ticket was queued
+ * @returns The real ticket ID and number
+ * @throws AutotaskApiError if Autotask is still unavailable or rejects the ticket
+ */
+export async function deliverQueuedTicket(params: TicketRequest): Promise<DeliveryResult> {
+	const companyId = parseInt(params.companyId)
+	const contactId = params.contactId ? parseInt(params.contactId) : undefined
+	const priority = await metadataService.resolveValue('Tickets', 'priority', params.priority)
+	const ticketType = await metadataService.resolveValue('Tickets', 'ticketType', params.ticketType)
+
+	const { ticketId } = await findOrCreateTicket(params, { companyId, contactId, priority, ticketType })
+
+	let ticketNumber: string | undefined
+	try {
+		ticketNumber = (await getTicketById(ticketId)).ticketNumber
+	} catch (error) {
+		logger.warn({ error, ticketId }, 'Failed to retrieve number for delivered outbox ticket')
+	}
+
+	return { ticketId, ticketNumber }
+}
+
+/**
+ * Returns the ticket already filed for this call, or creates one.
+ * 
+ * The company and contact are validated first, so neither a live call nor a
+ * queued ticket can touch another customer's account; a contact created
+ * inactive on this call under `CONTACT_CREATION_POLICY=inactive` is accepted.
+ * A ticket from a tenant's session is checked against the tenant as
+ * currently configured and filed in its queue; a tenant since removed from
+ * the registry is refused. Then Autotask is checked for a ticket with the
+ * same externalID (and contact), so retries after a lost response do not
+ * create duplicates. Callback details update the contact only when it was
+ * created on this call and a new ticket is actually created; for an existing
+ * contact they are added to the ticket description.
+ * 
+ * @param params - The tool parameters
+ * @param resolved - Parsed IDs and resolved picklist values
+ * @returns The ticket ID and whether it was newly created
+ * @throws CallerValidationError if the company or contact may not be acted for
+ * @internal
+ */
+async function findOrCreateTicket(
+	params: TicketRequest,
+	resolved: { companyId: number; contactId?: number; priority: number; ticketType: number }
+): Promise<{ ticketId: string; created: boolean }> {
+	const { companyId, contactId, priority, ticketType } = resolved
+	const isNewContact = params.isNewContact || false
+
+	const tenant = params.tenantId !== undefined ? tenants.byCompanyId(params.tenantId) : undefined
+	if (params.tenantId !== undefined && !tenant) {
+		throw new CallerValidationError(
+			'company_not_allowed',
+			`Tenant ${params.tenantId} is no longer served by this service desk. Transfer the caller to a technician.`
+		)
+	}
+
+	if (contactId !== undefined) {
+		await validateContact(companyId, contactId, { newContact: isNewContact, pendingReview: params.pendingReview, tenant })
+	} else {
+		assertCompanyAllowed(companyId, tenant)
+	}
+
+	if (params.externalID) {
+		const existing = await findTicketByExternalId(params.externalID, contactId)
+		if (existing) {
+			logger.info({ ticketId: existing.id, externalID: params.externalID }, 'Ticket already exists for this call')
+			return { ticketId: existing.id, created: false }
+		}
+	}
+
+	// Callback details only change a contact created on this call. An existing contact's
+	// email and phone are where verification codes go, so an unverified caller must not
+	// be able to replace them; their details are noted on the ticket instead.
+	let issueDescription = params.issueDescription
+	const hasCallbackDetails = !!(params.contactEmail || params.contactPhone)
+
+	if (contactId && hasCallbackDetails && isNewContact) {
+		logger.info({ contactId, companyId }, 'Updating new contact with callback info')
+		try {
+			await updateContact(companyId, contactId, {
+				emailAddress: params.contactEmail,
+				phone: params.contactPhone
+			})
+			logger.info({ contactId }, 'Updated contact with callback info')
+		} catch (updateError) {
+			logger.warn({ error: updateError, contactId }, 'Failed to update contact info, continuing with ticket creation')
+		}
+	} else if (contactId && hasCallbackDetails) {
+		const details = [
+			params.contactPhone && `Phone: ${params.contactPhone}`,
+			params.contactEmail && `Email: ${params.contactEmail}`
+		].filter(Boolean)
+		issueDescription += `\n\nCallback details given on the call (contact record not changed):\n${details.join('\n')}`
+		logger.info({ contactId }, 'Callback details for existing contact recorded on the ticket')
+	}
+
+	const result = await createTicket({
+		...params,
+		issueDescription,
+		companyId,
+		contactId,
+		priority,
+		ticketType,
+		queueId: tenant?.queueId
+	})
+	return { ticketId: result.itemId || result.item?.id || 'Unknown', created: true }
+}
@@ -8,7 +8,13 @@
  */
 import { z } from 'zod'
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
-import { getTicketById, getResourceById } from '../../api/autotask.js'
+import { findTicketByNumber, getTicketById, getResourceById, TicketDetails } from '../../api/autotask.js'
+import { metadataService } from '../../api/autotaskMetadata.js'
+import { isCompanyAllowed } from '../../api/callerValidation.js'
+import { normalizeTicketNumber } from '../../utils/spokenInput.js'
+import { assertVerified, callContexts, CallerNotVerifiedError, callerOwnsTicket } from '../callContext.js'
+import { tenants } from '../../tenants.js'
+import { ticketOutbox } from './createTicket.js'
 import { logger } from '../../utils/logger.js'
 
 /**
@@ -19,27 +25,37 @@ import { logger } from '../../utils/logger.js'
  * 
  * @example
  * ```typescript
- * // Tool input:
- * { ticketId: '123456789' }
+ * // Tool input (by ID, or by ticket number as the caller said it):
+ * { ticketId: '123456789', externalID: 'retell-call-abc123' }
+ * { ticketNumber: 'T 2024 0101 dot 0001', companyId: '1001', externalID: 'retell-call-abc123' }
  * 
  * // Successful response:
  * {
  *   status: 'success',
- *   ticket_id: '123456789',
- *   ticket_number: 'T20240101.0001',
+ *   ticketId: 123456789,
+ *   ticketNumber: 'T20240101.0001',
  *   title: 'Printer Issue',
- *   ticket_status: 1,
- *   priority: 2,
- *   assigned_tech: 'John Smith',
- *   transfer_phone: '555-1234'
+ *   ticketStatus: 'New',
+ *   priority: 'Medium',
+ *   assignedTech: 'John Smith',
+ *   transferPhone: '555-1234'
  * }
  * ```
  */
 export const getTicketSchema = {
 	name: 'getTicket',
-	description: 'Retrieve details of an existing Autotask ticket by ticket ID. Returns ticket number, status, priority, assigned technician, and transfer phone if available.',
+	description: 'Retrieve details of an existing Autotask ticket by ticket ID or by the ticket number the caller reads out. Returns ticket number, status, priority, assigned technician, and transfer phone if available. Also accepts a provisional reference from a queued createTicket call. Only tickets of the verified caller\'s company are returned (only their own for a contact created on this call); other tickets are reported as not found. The caller must be verified with verifyCaller first; otherwise status is verification_required.',
 	inputSchema: z.object({
-		ticketId: z.string().describe('The Autotask ticket ID to retrieve')
+		ticketId: z.string().optional().describe('The Autotask ticket ID to retrieve, or a provisional reference (e.g., "PR-20260105-7KQ4")'),
+		ticketNumber: z
+			.string()
+			.optional()
+			.describe('Ticket number as spoken or transcribed (e.g., "T20240101.0001" or "T 2024 0101 dot 0001")'),
+		companyId: z
+			.string()
+			.optional()
+			.describe('Verified caller\'s company ID (from lookupCompanyContact; defaults to the caller identified on this call)'),
+		externalID: z.string().describe('External ID from Retell call')
 	})
 }
 
@@ -50,32 +66,116 @@ export const getTicketSchema = {
  * including the assigned technician's contact details for potential
  * call transfer functionality.
  * 
- * Response fields include: `status`, `ticket_id`, `ticket_number`, `title`,
- * `ticket_status`, `priority`, `assigned_tech` (if assigned), and
- * `transfer_phone` (if available).
+ * Response fields include: `status`, `ticketId`, `ticketNumber`, `title`,
+ * `ticketStatus` and `priority` (as Autotask labels), `assignedTech`
+ * (if assigned), and `transferPhone` (if available).
+ * 
+ * A provisional reference resolves to the real ticket once the outbox has
+ * delivered it; until then the response has status `queued`.
+ * 
+ * The caller must be identified and verified on this call, and only their
+ * company's tickets are returned, whether looked up by ID, by provisional
+ * reference or by a ticket number normalized from its spoken form, so
+ * callers cannot enumerate other customers' tickets. A contact created on
+ * this call only gets its own tickets. Tickets of companies outside
+ * `ALLOWED_COMPANY_IDS` are never returned.
  * 
  * @param params - The validated tool parameters
  * @param params.ticketId - The Autotask ticket ID to retrieve
+ * @param params.ticketNumber - Ticket number as spoken or transcribed
+ * @param params.companyId - Verified caller's company ID
+ * @param params.externalID - Retell call ID
+ * @param sessionId - MCP session the call belongs to
  * @returns MCP tool result with ticket details or error
  * 
  * @example
  * ```typescript
- * const result = await getTicketHandler({ ticketId: '123456' })
+ * const result = await getTicketHandler({ ticketId: '123456', externalID: 'retell-call-abc123' })
  * const data = JSON.parse(result.content[0].text)
- * if (data.transfer_phone) {
- *   console.log(`Transfer to ${data.assigned_tech} at ${data.transfer_phone}`)
+ * if (data.transferPhone) {
+ *   console.log(`Transfer to ${data.assignedTech} at ${data.transferPhone}`)
  * }
  * ```
  */
 export async function getTicketHandler(params: {
-	ticketId: string
-}): Promise<CallToolResult> {
-	const { ticketId } = params
+	ticketId?: string
+	ticketNumber?: string
+	companyId?: string
+	externalID: string
+}, sessionId?: string): Promise<CallToolResult> {
+	let ticketId = params.ticketId
 
-	logger.info({ tool: 'getTicket', ticketId }, 'Tool call: getTicket')
+	logger.info(
+		{ tool: 'getTicket', ticketId, ticketNumber: params.ticketNumber, companyId: params.companyId },
+		'Tool call: getTicket'
+	)
 
 	try {
-		const ticketDetails = await getTicketById(ticketId)
+		const caller = callContexts.resolve({ sessionId, callId: params.externalID }, { companyId: params.companyId })
+		const { companyId } = caller
+		if (companyId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up first')
+		}
+		assertVerified(caller)
+		let ticketDetails: TicketDetails | null = null
+		let ticketNumber: string | null = null
+
+		if (!ticketId && params.ticketNumber) {
+			ticketNumber = normalizeTicketNumber(params.ticketNumber)
+			if (!ticketNumber) {
+				return notFound(
+					`"${params.ticketNumber}" is not a valid ticket number. Ticket numbers look like T20240101.0001.`
+				)
+			}
+
+			ticketDetails = await findTicketByNumber(ticketNumber)
+			if (!ticketDetails) {
+				return notFound(`No ticket ${ticketNumber} was found for this caller's company.`)
+			}
+			ticketId = String(ticketDetails.id)
+		}
+
+		if (!ticketId) {
+			throw new Error('Either ticketId or ticketNumber is required')
+		}
+
+		const queued = ticketOutbox.get(ticketId)
+		const queuedFor = queued?.payload && { companyID: queued.payload.companyId, contactID: queued.payload.contactId }
+		if (queuedFor && !callerOwnsTicket(caller, queuedFor)) {
+			logger.warn({ ticketId, companyId }, 'Provisional reference of another caller refused')
+			return notFound(`No ticket ${ticketId} was found for this caller's company.`)
+		}
+		if (queued) {
+			if (queued.status !== 'delivered' || !queued.ticketId) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify({
+								status: queued.status === 'failed' ? 'error' : 'queued',
+								provisionalReference: queued.reference,
+								message:
+									queued.status === 'failed'
+										? 'The ticket could not be created automatically and needs manual follow-up.'
+										: 'The ticket is saved and will be created once Autotask is available.'
+							})
+						}
+					]
+				}
+			}
+			ticketId = queued.ticketId
+		}
+
+		ticketDetails ??= await getTicketById(ticketId)
+
+		// Report other companies' tickets, and those of companies not served, exactly like missing ones
+		if (!callerOwnsTicket(caller, ticketDetails) || !isCompanyAllowed(companyId, tenants.forSession(sessionId))) {
+			logger.warn(
+				{ ticketId, ticketCompanyId: ticketDetails.companyID, companyId },
+				'Ticket lookup outside the caller\'s company refused'
+			)
+			return notFound(`No ticket ${ticketNumber ?? ticketId} was found for this caller's company.`)
+		}
 
 		logger.info(
 			{
@@ -91,15 +191,15 @@ export async function getTicketHandler(params: {
 			ticketId: ticketDetails.id,
 			ticketNumber: ticketDetails.ticketNumber,
 			title: ticketDetails.title,
-			ticketStatus: ticketDetails.status,
-			priority: ticketDetails.priority
+			ticketStatus: await metadataService.labelOrCode('Tickets', 'status', ticketDetails.status),
+			priority: await metadataService.labelOrCode('Tickets', 'priority', ticketDetails.priority)
 		}
 
 		// If a resource is assigned, get their details for phone transfer
 		if (ticketDetails.assignedResourceID) {
 			try {
 				const resourceDetails = await getResourceById(ticketDetails.assignedResourceID)
-				const transferPhone = resourceDetails.officePhone || resourceDetails.officePhone
+				const transferPhone = resourceDetails.mobilePhone || resourceDetails.officePhone
 
 				responseData.assignedTech = `${resourceDetails.firstName} ${resourceDetails.lastName}`
 
@@ -110,7 +210,7 @@ export async function getTicketHandler(params: {
 				logger.info(
 					{
 						resourceId: resourceDetails.id,
-						resourceName: responseData.assigned_tech,
+						resourceName: responseData.assignedTech,
 						transferPhone
 					},
 					'Retrieved assigned resource details'
@@ -140,7 +240,7 @@ export async function getTicketHandler(params: {
 				{
 					type: 'text',
 					text: JSON.stringify({
-						status: 'error',
+						status: error instanceof CallerNotVerifiedError ? 'verification_required' : 'error',
 						error: error instanceof Error ? error.message : String(error)
 					})
 				}
@@ -149,3 +249,18 @@ export async function getTicketHandler(params: {
 		}
 	}
 }
+
+/**
+ * Builds a `not_found` response.
+ * @internal
+ */
+function notFound(message: string): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: JSON.stringify({ status: 'not_found', message })
+			}
+		]
+	}
+}
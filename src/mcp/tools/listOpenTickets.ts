@@ -0,0 +1,185 @@
+/**
+ * @fileoverview MCP tool for listing a caller's open Autotask tickets.
+ *
+ * Lets the agent recognise that a caller is ringing about something already
+ * logged ("Are you calling about your Outlook ticket from Tuesday?") instead
+ * of opening a duplicate.
+ *
+ * @module mcp/tools/listOpenTickets
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { getResourceById, listOpenTickets } from '../../api/autotask.js'
+import { metadataService } from '../../api/autotaskMetadata.js'
+import { assertCompanyAllowed } from '../../api/callerValidation.js'
+import { config } from '../../config.js'
+import { assertVerified, callContexts, CallerNotVerifiedError } from '../callContext.js'
+import { tenants } from '../../tenants.js'
+import { describeDay, truncate } from '../../utils/voiceFormat.js'
+import { logger } from '../../utils/logger.js'
+
+/**
+ * Longest ticket title read back to the caller.
+ * @internal
+ */
+const MAX_TITLE_LENGTH = 60
+
+/**
+ * Schema definition for the listOpenTickets MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   companyId: '1001',
+ *   contactId: '2001',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const listOpenTicketsSchema = {
+	name: 'listOpenTickets',
+	description: 'List the caller\'s open (not completed) Autotask tickets, most recently active first. Use after lookupCompanyContact to ask whether the caller is calling about an existing ticket. Returns ticket number, title, status, assigned technician and a spoken last-activity day for each ticket, plus a summary sentence. The caller must be verified with verifyCaller first; otherwise status is verification_required.',
+	inputSchema: z.object({
+		companyId: z.string().optional().describe('Autotask company ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		contactId: z.string().optional().describe('Autotask contact ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Handles the listOpenTickets tool invocation from MCP clients.
+ *
+ * Returns at most `TICKET_LIST_LIMIT` tickets with titles shortened for
+ * speech; `totalOpen` reports how many there are in all. IDs left out
+ * default to the caller identified earlier in the call.
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with open tickets or error
+ *
+ * @example
+ * ```typescript
+ * // Success response:
+ * {
+ *   status: 'success',
+ *   count: 1,
+ *   totalOpen: 1,
+ *   tickets: [{ ticketId: '3001', ticketNumber: 'T20240101.0001', title: 'Outlook not syncing',
+ *     ticketStatus: 'In Progress', assignedTech: 'Alex Tech', lastActivity: 'Tuesday' }],
+ *   summary: 'One open ticket: "Outlook not syncing", last updated Tuesday, In Progress with Alex Tech.'
+ * }
+ * ```
+ */
+export async function listOpenTicketsHandler(params: {
+	companyId?: string
+	contactId?: string
+	externalID: string
+}, sessionId?: string): Promise<CallToolResult> {
+	logger.info(
+		{ tool: 'listOpenTickets', companyId: params.companyId, contactId: params.contactId },
+		'Tool call: listOpenTickets'
+	)
+
+	try {
+		const caller = callContexts.resolve({ sessionId, callId: params.externalID }, params)
+		const { companyId, contactId } = caller
+		if (companyId === undefined || contactId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up first')
+		}
+		assertVerified(caller)
+		assertCompanyAllowed(companyId, tenants.forSession(sessionId))
+
+		const { tickets, total } = await listOpenTickets(companyId, contactId, config.tickets.listLimit)
+
+		// Look each technician up once, even if they own several tickets
+		const techNames = new Map<string, Promise<string | undefined>>()
+		const techName = (resourceId: string) => {
+			let name = techNames.get(resourceId)
+			if (!name) {
+				name = getResourceById(resourceId)
+					.then((r) => `${r.firstName} ${r.lastName}`)
+					.catch((error) => {
+						logger.warn({ error, resourceId }, 'Failed to retrieve resource details')
+						return undefined
+					})
+				techNames.set(resourceId, name)
+			}
+			return name
+		}
+
+		const items = await Promise.all(
+			tickets.map(async (ticket) => ({
+				ticketId: ticket.id,
+				ticketNumber: ticket.ticketNumber,
+				title: truncate(ticket.title ?? '', MAX_TITLE_LENGTH),
+				ticketStatus: await metadataService.labelOrCode('Tickets', 'status', ticket.status),
+				assignedTech: ticket.assignedResourceID ? await techName(String(ticket.assignedResourceID)) : undefined,
+				lastActivity: describeDay(ticket.lastActivityDate ?? ticket.createDate)
+			}))
+		)
+
+		const responseData = {
+			status: items.length > 0 ? 'success' : 'not_found',
+			count: items.length,
+			totalOpen: total,
+			tickets: items,
+			summary: summarize(items, total)
+		}
+
+		logger.info({ companyId, contactId, count: items.length, totalOpen: total }, 'Listed open tickets')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify(responseData)
+				}
+			]
+		}
+	} catch (error) {
+		logger.error({ error, companyId: params.companyId, contactId: params.contactId, tool: 'listOpenTickets' }, 'Tool call failed: listOpenTickets')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: error instanceof CallerNotVerifiedError ? 'verification_required' : 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
+
+/**
+ * Builds a sentence the agent can read out describing the open tickets.
+ * @internal
+ */
+function summarize(
+	items: Array<{ title: string; ticketStatus: string | number; assignedTech?: string; lastActivity?: string }>,
+	total: number
+): string {
+	if (items.length === 0) {
+		return 'No open tickets.'
+	}
+
+	const described = items.map((item) => {
+		let text = `"${item.title}"`
+		if (item.lastActivity) {
+			text += `, last updated ${item.lastActivity}`
+		}
+		text += `, ${item.ticketStatus}`
+		if (item.assignedTech) {
+			text += ` with ${item.assignedTech}`
+		}
+		return text
+	})
+
+	const heading = total === 1 ? 'One open ticket' : `${total} open tickets`
+	const more = total > items.length ? ` (the ${items.length} most recent)` : ''
+	return `${heading}${more}: ${described.join('; ')}.`
+}
@@ -10,7 +10,21 @@
  */
 import { z } from 'zod'
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
-import { searchCompanyByName, searchContactByName, createContact } from '../../api/autotask.js'
+import {
+	createContact,
+	searchContactByEmail,
+	getCompaniesByIds,
+	ContactDetails
+} from '../../api/autotask.js'
+import { isCompanyAllowed } from '../../api/callerValidation.js'
+import { rankCompanyCandidates } from '../../api/companyIndex.js'
+import { findDuplicateContacts, rankContactCandidates } from '../../api/contactMatching.js'
+import { config } from '../../config.js'
+import { CallRef, callContexts } from '../callContext.js'
+import { Tenant, tenants } from '../../tenants.js'
+import { MatchConfidence } from '../../utils/nameMatching.js'
+import { maskEmail, maskPhone } from '../../utils/piiMask.js'
+import { normalizeSpokenEmail } from '../../utils/spokenInput.js'
 import { logger } from '../../utils/logger.js'
 
 /**
@@ -18,27 +32,42 @@ import { logger } from '../../utils/logger.js'
  * 
  * Defines the tool's name, description, and input validation schema.
  * Used for searching companies by organization name and finding or
- * creating contacts within those companies.
+ * creating contacts within those companies, or for finding a contact and
+ * its company by email address.
  * 
  * @example
  * ```typescript
- * // Tool input:
+ * // Tool input (name mode):
  * {
  *   organizationName: 'Acme Corp',
  *   firstName: 'John',
  *   lastName: 'Doe',
- *   createIfNotFound: true
+ *   contactPhone: '555-123-4567',
+ *   contactEmail: 'john.doe@acme.example',
+ *   createIfNotFound: true,
+ *   externalID: 'retell-call-abc123'
+ * }
+ * 
+ * // Tool input (email mode):
+ * {
+ *   emailAddress: 'john dot doe at acme dot com',
+ *   externalID: 'retell-call-abc123'
  * }
  * ```
  */
 export const lookupCompanyContactSchema = {
 	name: 'lookupCompanyContact',
-	description: 'Look up a company by organization name, then find or create a contact within that company by first and last name. Returns company ID, contact ID, and contact details (including email/phone on file) for caller verification. Use this before creating a ticket.',
+	description: 'Look up a company by organization name, then find or create a contact within that company by first and last name. Alternatively pass only emailAddress (written or as spoken, e.g. "john dot smith at acme dot com") to find the contact and company in one step. Returns company ID, contact ID, and masked hints of the email/phone on file (e.g., "ending in 0001"); verify the caller with verifyCaller. Before a new contact is created, the caller\'s phone and email (contactPhone, contactEmail) are required and checked against existing contacts to avoid duplicates. Use this before creating a ticket.',
 	inputSchema: z.object({
-		organizationName: z.string().describe('The organization/company name to search for'),
-		firstName: z.string().describe('Contact first name'),
-		lastName: z.string().describe('Contact last name'),
-		createIfNotFound: z.boolean().optional().default(true).describe('Create a new contact if no matching contact is found (default: true)')
+		organizationName: z.string().optional().describe('The organization/company name to search for (name mode)'),
+		firstName: z.string().optional().describe('Contact first name (name mode)'),
+		lastName: z.string().optional().describe('Contact last name (name mode)'),
+		emailAddress: z.string().optional().describe('Caller\'s email address as given, for email mode instead of the name fields'),
+		contactPhone: z.string().optional().describe('Caller\'s callback phone number; required before a new contact is created'),
+		contactEmail: z.string().optional().describe('Caller\'s email address (written or as spoken); required before a new contact is created'),
+		confirmedNew: z.boolean().optional().default(false).describe('Set to true after the caller said they are none of the similar contacts offered, to skip them and create a new contact'),
+		createIfNotFound: z.boolean().optional().default(true).describe('Create a new contact if no matching contact is found (default: true, name mode only)'),
+		externalID: z.string().describe('External ID from Retell call')
 	})
 }
 
@@ -46,24 +75,34 @@ export const lookupCompanyContactSchema = {
  * Result of a company/contact lookup operation.
  * 
  * Flattened structure designed for direct mapping to Retell AI dynamic variables.
- * The status field indicates the outcome of the lookup operation.
- * @internal
+ * The status field indicates the outcome of the lookup operation. Shared by
+ * the other contact lookup tools so the agent handles every lookup alike.
  */
-interface LookupResult {
+export interface LookupResult {
 	/** Operation outcome: 'success', 'error', 'not_found', or 'multiple_matches' */
 	status: 'success' | 'error' | 'not_found' | 'multiple_matches'
 	/** Autotask company ID (when found) */
 	companyId?: number
 	/** Autotask contact ID (when found or created) */
 	contactId?: number
-	/** Contact's email address on file (for verification) */
-	emailAddress?: string
-	/** Contact's phone number on file (for verification) */
-	phone?: string
+	/** Masked email address on file (e.g., 'j***@a***.example'); verify with verifyCaller */
+	emailHint?: string
+	/** Last four digits of the phone number on file (e.g., 'ending in 0001') */
+	phoneHint?: string
+	/** Contact's full name, when found by caller ID (email lookups leave it to verifyCaller) */
+	contactName?: string
+	/** Company name, when found by caller ID (email lookups leave it to verifyCaller) */
+	companyName?: string
 	/** True if the contact was newly created */
 	isNew?: boolean
-	/** Multiple company matches for disambiguation */
-	matches?: Array<{ id: number; name: string }>
+	/** True if the contact is inactive pending review by staff, created on this or an earlier call */
+	pendingReview?: boolean
+	/** True if no contact was created; the caller's details go in the ticket description instead */
+	contactNotCreated?: boolean
+	/** Multiple company (or contact) matches for disambiguation, most likely first */
+	matches?: Array<{ id: number; name: string; score?: number }>
+	/** How sure the contact name match is: 'exact', 'high', 'medium' or 'low' */
+	confidence?: MatchConfidence
 	/** Error message (when status is 'error' or 'not_found') */
 	error?: string
 	/** User-facing message for the AI agent */
@@ -73,11 +112,29 @@ interface LookupResult {
 /**
  * Handles the lookupCompanyContact tool invocation from MCP clients.
  * 
- * Implements a multi-step lookup workflow:
- * 1. Searches for the company by organization name
- * 2. If found, searches for the contact by name within that company
- * 3. Creates a new contact if not found and `createIfNotFound` is true
- * 4. Returns contact info on file for caller verification
+ * With `emailAddress`, the address is normalized from its spoken form and
+ * the contact and its company are found together (see
+ * {@link resolveContactMatches}) without naming them until the caller is
+ * verified; no contact is created in this mode.
+ * 
+ * Otherwise implements a multi-step lookup workflow:
+ * 1. Ranks companies by fuzzy and phonetic similarity to the organization
+ *    name, keeping those the session may serve (`ALLOWED_COMPANY_IDS` and
+ *    the session's tenant); the best candidate is used if it is confident
+ *    and clearly ahead, otherwise the candidates are returned in order of
+ *    likelihood
+ * 2. If found, ranks the company's contacts by name (nicknames, phonetic
+ *    and edit distance); similar but inexact names are returned as
+ *    `multiple_matches` for the caller to confirm, unless `confirmedNew`
+ * 3. If not found and `createIfNotFound` is true, checks the company's
+ *    contacts for one sharing the caller's phone or email (and, when new
+ *    contacts are held for review, for their earlier pending contact), then
+ *    applies `CONTACT_CREATION_POLICY` (see {@link createContactForCaller})
+ * 4. Returns masked hints of the contact info on file; the caller is
+ *    verified against the details themselves with `verifyCaller`
+ * 
+ * The caller identified is remembered for the call (see
+ * {@link rememberCaller}), so later tools can leave out its IDs.
  * 
  * Status outcomes: `success` (found/created), `not_found` (company or contact missing),
  * `multiple_matches` (needs disambiguation), `error` (API/system error).
@@ -86,7 +143,13 @@ interface LookupResult {
  * @param params.organizationName - Company/organization name to search for
  * @param params.firstName - Contact's first name
  * @param params.lastName - Contact's last name
+ * @param params.emailAddress - Email address as given, to look up by email instead of name
+ * @param params.contactPhone - Caller's phone number, for a new contact
+ * @param params.contactEmail - Caller's email address, for a new contact
+ * @param params.confirmedNew - Skip similar-name candidates the caller has already declined
  * @param params.createIfNotFound - Whether to create a new contact if not found
+ * @param params.externalID - Retell call ID, so the caller is remembered for the call
+ * @param sessionId - MCP session the call belongs to
  * @returns MCP tool result with lookup results or error
  * 
  * @example
@@ -95,7 +158,8 @@ interface LookupResult {
  *   organizationName: 'Acme Corp',
  *   firstName: 'John',
  *   lastName: 'Doe',
- *   createIfNotFound: true
+ *   createIfNotFound: true,
+ *   externalID: 'retell-call-abc123'
  * })
  * const data = JSON.parse(result.content[0].text)
  * if (data.status === 'success') {
@@ -104,117 +168,363 @@ interface LookupResult {
  * ```
  */
 export async function lookupCompanyContactHandler(params: {
-	organizationName: string
-	firstName: string
-	lastName: string
+	organizationName?: string
+	firstName?: string
+	lastName?: string
+	emailAddress?: string
+	contactPhone?: string
+	contactEmail?: string
+	confirmedNew?: boolean
 	createIfNotFound?: boolean
-}): Promise<CallToolResult> {
-	const { organizationName, firstName, lastName, createIfNotFound = true } = params
-
+	externalID: string
+}, sessionId?: string): Promise<CallToolResult> {
 	logger.info(
-		{ tool: 'lookupCompanyContact', organizationName, firstName, lastName },
+		{
+			tool: 'lookupCompanyContact',
+			organizationName: params.organizationName,
+			firstName: params.firstName,
+			lastName: params.lastName,
+			emailAddress: params.emailAddress
+		},
 		'Tool call: lookupCompanyContact'
 	)
 
-	const result: LookupResult = { status: 'success' }
-
 	try {
-		// Step 1: Search for company by name
-		const companies = await searchCompanyByName(organizationName)
+		const result = await findCaller(params, tenants.forSession(sessionId))
+		rememberCaller({ sessionId, callId: params.externalID }, result)
+		return formatResult(result)
+	} catch (error) {
+		logger.error({ error, tool: 'lookupCompanyContact' }, 'Tool call failed: lookupCompanyContact')
 
-		if (companies.length === 0) {
-			result.status = 'not_found'
-			result.error = `No company found matching "${organizationName}"`
-			result.message = 'Please verify the organization name with the caller.'
-			return formatResult(result)
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
 		}
+	}
+}
 
-		if (companies.length > 1) {
-			// Multiple matches - return them for disambiguation
-			result.status = 'multiple_matches'
-			result.matches = companies.slice(0, 5).map(c => ({ id: c.id, name: c.companyName }))
-			result.message = `Found ${companies.length} companies matching "${organizationName}". Please ask the caller to clarify which organization.`
-			return formatResult(result)
-		}
+/**
+ * Runs the lookup for {@link lookupCompanyContactHandler}.
+ * @internal
+ */
+async function findCaller(
+	params: Parameters<typeof lookupCompanyContactHandler>[0],
+	tenant: Tenant | undefined
+): Promise<LookupResult> {
+	const { organizationName, firstName, lastName, emailAddress, confirmedNew = false, createIfNotFound = true } = params
+	const result: LookupResult = { status: 'success' }
 
-		// Single company match
-		const company = companies[0]
-		result.companyId = company.id
-
-		logger.info({ companyId: company.id, companyName: company.companyName, companyIdType: typeof company.id }, 'Company found')
-
-		// Step 2: Search for contact within the company
-		const contacts = await searchContactByName(company.id, firstName, lastName)
-
-		if (contacts.length === 0) {
-			// No contact found
-			if (createIfNotFound) {
-				// Create new contact (without email/phone - will be updated on ticket creation)
-				logger.info({ companyId: company.id, firstName, lastName }, 'Creating new contact')
-				const newContact = await createContact({
-					companyID: company.id,
-					firstName,
-					lastName
-				})
-
-				result.contactId = newContact.id
-				result.emailAddress = ''
-				result.phone = ''
-				result.isNew = true
-				result.message = `Created new contact. Please collect callback information (email and phone).`
-			} else {
-				result.status = 'not_found'
-				result.error = `No contact named "${firstName} ${lastName}" found at ${company.companyName}`
-				result.message = 'Please verify the contact name with the caller.'
-			}
-			return formatResult(result)
-		}
+	if (emailAddress) {
+		return lookupByEmail(emailAddress, tenant)
+	}
+
+	if (!organizationName || !firstName || !lastName) {
+		result.status = 'error'
+		result.error = 'Provide organizationName, firstName and lastName, or emailAddress'
+		return result
+	}
+
+	// Step 1: Rank the companies this session may serve by how closely their name matches what was heard
+	const companies = (await rankCompanyCandidates(organizationName)).filter((c) => isCompanyAllowed(c.id, tenant))
+
+	if (companies.length === 0) {
+		result.status = 'not_found'
+		result.error = `No company found matching "${organizationName}"`
+		result.message = 'Please verify the organization name with the caller.'
+		return result
+	}
+
+	const [best, runnerUp] = companies
+	const clearWinner =
+		!runnerUp ||
+		(best.score >= config.companyIndex.confidentScore && best.score - runnerUp.score >= config.companyIndex.minMargin)
+
+	if (!clearWinner) {
+		// Several plausible matches - return them, most likely first, for disambiguation
+		result.status = 'multiple_matches'
+		result.matches = companies.map(c => ({ id: c.id, name: c.companyName, score: c.score }))
+		result.message = `Found ${companies.length} companies matching "${organizationName}". Please ask the caller to clarify which organization, starting with the first.`
+		return result
+	}
+
+	// Single (or clearly best) company match
+	const company = best
+	result.companyId = company.id
+
+	logger.info({ companyId: company.id, companyName: company.companyName, companyIdType: typeof company.id }, 'Company found')
+
+	// Step 2: Rank the company's contacts by name, allowing nicknames and misheard spellings
+	const candidates = await rankContactCandidates(company.id, firstName, lastName)
+	const contacts = candidates.filter((c) => c.confidence === 'exact')
 
-		if (contacts.length > 1) {
-			// Multiple contact matches - need verification to disambiguate
-			// Return the first match but flag that verification is essential
-			const contact = contacts[0]
-			result.contactId = contact.id
-			result.emailAddress = contact.emailAddress
-			result.phone = contact.phone || contact.officePhone 
-			result.isNew = false
-			result.message = `Found ${contacts.length} contacts with this name. Ask caller to verify their email or phone to confirm identity.`
-			return formatResult(result)
+	if (contacts.length === 0 && candidates.length > 0 && !confirmedNew) {
+		// Similar names only - have the caller confirm before anyone is created
+		const [likely] = candidates
+		result.status = 'multiple_matches'
+		result.confidence = likely.confidence
+		result.matches = candidates.map((c) => ({ id: c.id, name: `${c.firstName} ${c.lastName}`, score: c.score }))
+		result.message = `No exact match for "${firstName} ${lastName}" at ${company.companyName}, but found similar contacts (most likely first). Ask the caller whether they are ${likely.firstName} ${likely.lastName}. If they confirm a contact, call lookupCompanyContact again with that contact's exact first and last name. If they are none of them, call again with confirmedNew true.`
+		return result
+	}
+
+	if (contacts.length === 0) {
+		// No contact found
+		if (createIfNotFound) {
+			return createContactForCaller(company, {
+				firstName,
+				lastName,
+				phone: params.contactPhone?.trim(),
+				emailAddress: params.contactEmail && (normalizeSpokenEmail(params.contactEmail) ?? params.contactEmail.trim())
+			})
+		} else {
+			result.status = 'not_found'
+			result.error = `No contact named "${firstName} ${lastName}" found at ${company.companyName}`
+			result.message = 'Please verify the contact name with the caller.'
 		}
+		return result
+	}
 
-		// Single contact match - return with contact info on file for verification
+	if (contacts.length > 1) {
+		// Multiple contact matches - need verification to disambiguate
+		// Return the first match but flag that verification is essential
 		const contact = contacts[0]
-
 		result.contactId = contact.id
-		result.emailAddress = contact.emailAddress
-		result.phone = contact.phone || contact.officePhone
+		result.emailHint = maskEmail(contact.emailAddress)
+		result.phoneHint = maskPhone(contact.phone || contact.officePhone)
 		result.isNew = false
+		result.confidence = 'exact'
+		result.message = `Found ${contacts.length} contacts with this name. Ask the caller for their email or phone and confirm their identity with verifyCaller.`
+		return result
+	}
 
-		// Build verification message
-		if (result.emailAddress || result.phone) {
-			result.message = `Found contact. Ask caller to verify their email or phone on file to confirm identity.`
-		} else {
-			result.message = `Found contact but no email or phone on file. Please collect callback information.`
+	// Single contact match - return with contact info on file for verification
+	const contact = contacts[0]
+
+	result.contactId = contact.id
+	result.emailHint = maskEmail(contact.emailAddress)
+	result.phoneHint = maskPhone(contact.phone || contact.officePhone)
+	result.isNew = false
+	result.confidence = 'exact'
+
+	// Build verification message
+	if (result.emailHint || result.phoneHint) {
+		result.message = `Found contact. Ask the caller for their email or phone and confirm their identity with verifyCaller.`
+	} else {
+		result.message = `Found contact but no email or phone on file. Please collect callback information.`
+	}
+
+	return result
+}
+
+/**
+ * Sets up a caller who is not among the company's contacts, without
+ * duplicating an existing contact.
+ * 
+ * The caller's phone or email is required first. A contact sharing either
+ * is offered back as `multiple_matches` instead of creating another one.
+ * Otherwise `CONTACT_CREATION_POLICY` decides: `create` adds an active
+ * contact, `inactive` adds one pending review (or reuses the caller's
+ * pending contact from an earlier call), and `refuse` creates nothing so the
+ * agent files the ticket with the caller's details in its description.
+ * A reused pending contact is not new: it was only matched on the name and
+ * one detail, so the caller still has to pass verifyCaller.
+ * 
+ * @param company - The company the caller belongs to
+ * @param caller - The caller's name and callback details
+ * @returns The lookup result, with a message for the agent
+ * @internal
+ */
+async function createContactForCaller(
+	company: { id: number; companyName: string },
+	caller: { firstName: string; lastName: string; phone?: string; emailAddress?: string }
+): Promise<LookupResult> {
+	const policy = config.contacts.creationPolicy
+	const result: LookupResult = { status: 'success', companyId: company.id }
+
+	if (!caller.phone && !caller.emailAddress) {
+		result.status = 'not_found'
+		result.error = `No contact named "${caller.firstName} ${caller.lastName}" found at ${company.companyName}`
+		result.message = 'Collect the caller\'s phone number and email address, then call lookupCompanyContact again with the same details plus contactPhone and contactEmail to set them up.'
+		return result
+	}
+
+	const duplicates = await findDuplicateContacts(company.id, caller, { includeInactive: policy === 'inactive' })
+
+	// Under review, a caller's own pending contact (same name and details) is reused rather than created again
+	const pending = duplicates.find((d) => !d.isActive && d.matchedOn.includes('name') && d.matchedOn.length > 1)
+	if (pending) {
+		logger.info({ companyId: company.id, contactId: pending.id }, 'Reusing contact pending review')
+		result.contactId = pending.id
+		result.emailHint = maskEmail(pending.emailAddress)
+		result.phoneHint = maskPhone(pending.phone || pending.mobilePhone)
+		result.isNew = false
+		result.pendingReview = true
+		result.message = 'The caller was already set up on an earlier call and is pending review. Ask the caller for their email or phone and confirm their identity with verifyCaller, then continue with their ticket.'
+		return result
+	}
+
+	// Active contacts sharing the caller's phone or email; similar names alone were already offered
+	const conflicts = duplicates.filter((d) => d.isActive && d.matchedOn.some((reason) => reason !== 'name'))
+	if (conflicts.length > 0) {
+		const [likely] = conflicts
+		const shared = likely.matchedOn[0] === 'email' ? 'email address' : 'phone number'
+		result.status = 'multiple_matches'
+		result.contactNotCreated = true
+		result.matches = conflicts.map((c) => ({ id: c.id, name: `${c.firstName} ${c.lastName}` }))
+		result.message = `The ${shared} given is already on file for ${likely.firstName} ${likely.lastName} at ${company.companyName}. Ask whether the caller is ${likely.firstName} ${likely.lastName}; if so, call lookupCompanyContact again with that exact name. If not, create the ticket without a contactId and pass the caller's name, phone and email so they are recorded on the ticket.`
+		logger.info({ companyId: company.id, duplicates: conflicts.map((c) => c.id) }, 'New contact would duplicate an existing contact')
+		return result
+	}
+
+	if (policy === 'refuse') {
+		result.isNew = true
+		result.contactNotCreated = true
+		result.message = 'New contacts are not created from calls. Create the ticket without a contactId and pass the caller\'s name, phone and email so they are recorded on the ticket.'
+		logger.info({ companyId: company.id }, 'Contact creation refused by policy')
+		return result
+	}
+
+	logger.info({ companyId: company.id, firstName: caller.firstName, lastName: caller.lastName, policy }, 'Creating new contact')
+	const newContact = await createContact({
+		companyID: company.id,
+		firstName: caller.firstName,
+		lastName: caller.lastName,
+		emailAddress: caller.emailAddress,
+		phone: caller.phone,
+		isActive: policy === 'create'
+	})
+
+	result.contactId = newContact.id
+	result.emailHint = maskEmail(caller.emailAddress)
+	result.phoneHint = maskPhone(caller.phone)
+	result.isNew = true
+	if (policy === 'inactive') {
+		result.pendingReview = true
+		result.message = 'Created new contact pending review by our team. Continue with their ticket.'
+	} else {
+		result.message = 'Created new contact with the callback details given.'
+	}
+	return result
+}
+
+/**
+ * Finds a contact and its company by email address. Names (of the contact,
+ * its company, or the contacts sharing the address) are left out: anyone
+ * can say an email address, so they come from verifyCaller instead.
+ * 
+ * @param spokenEmail - Email address as given by the caller
+ * @param tenant - Tenant the session serves, if bound to one
+ * @returns The lookup result, with a message for the agent
+ * @internal
+ */
+async function lookupByEmail(spokenEmail: string, tenant: Tenant | undefined): Promise<LookupResult> {
+	const email = normalizeSpokenEmail(spokenEmail)
+	if (!email) {
+		return {
+			status: 'not_found',
+			error: `"${spokenEmail}" is not a valid email address`,
+			message: 'Ask the caller to spell their email address again, or use their name and organization instead.'
 		}
+	}
 
-		return formatResult(result)
+	const result = await resolveContactMatches(await searchContactByEmail(email), tenant)
 
-	} catch (error) {
-		logger.error({ error, tool: 'lookupCompanyContact' }, 'Tool call failed: lookupCompanyContact')
+	// Names come from verifyCaller once the caller is verified
+	result.contactName = undefined
+	result.companyName = undefined
+	result.matches = undefined
+
+	if (result.status === 'not_found') {
+		result.error = `No contact found with email address ${email}`
+		result.message = 'Ask for the caller\'s name and organization and look them up by name instead.'
+	} else if (result.status === 'multiple_matches') {
+		result.message = `Several contacts share ${email}. Ask the caller's name and organization and look them up by name instead.`
+	} else {
+		result.message = 'Found a contact with this email address. Ask the caller for their phone number and confirm their identity with verifyCaller, which gives their name and company once verified.'
+	}
 
+	logger.info({ email, status: result.status, contactId: result.contactId }, 'Contact email lookup completed')
+	return result
+}
+
+/**
+ * Turns contacts found without knowing their company (by email or phone)
+ * into a LookupResult, resolving their companies in one step.
+ * 
+ * Contacts of inactive companies, and of companies the session may not
+ * serve (see {@link isCompanyAllowed}), are dropped. One remaining contact gives
+ * `success` with the contact and company filled in; several give
+ * `multiple_matches` listing them as "First Last (Company)", with
+ * `companyId` set if they all belong to the same company. The caller adds
+ * `message` and `error`.
+ * 
+ * @param contacts - Contacts matching the caller
+ * @param tenant - Tenant the session serves, if bound to one
+ * @returns The lookup result without a message
+ */
+export async function resolveContactMatches(contacts: ContactDetails[], tenant?: Tenant): Promise<LookupResult> {
+	const allowed = contacts.filter((c) => isCompanyAllowed(Number(c.companyID), tenant))
+	const companies = await getCompaniesByIds(allowed.map((c) => Number(c.companyID)))
+	const companyNames = new Map(companies.map((c) => [Number(c.id), c.companyName]))
+	const matches = allowed.filter((c) => companyNames.has(Number(c.companyID)))
+
+	if (matches.length === 0) {
+		return { status: 'not_found' }
+	}
+
+	if (matches.length > 1) {
+		const companyIds = new Set(matches.map((c) => Number(c.companyID)))
+		const companyId = companyIds.size === 1 ? Number(matches[0].companyID) : undefined
 		return {
-			content: [
-				{
-					type: 'text',
-					text: JSON.stringify({
-						status: 'error',
-						error: error instanceof Error ? error.message : String(error)
-					})
-				}
-			],
-			isError: true
+			status: 'multiple_matches',
+			companyId,
+			companyName: companyId !== undefined ? companyNames.get(companyId) : undefined,
+			matches: matches.slice(0, 5).map((c) => ({
+				id: c.id,
+				name: `${c.firstName} ${c.lastName} (${companyNames.get(Number(c.companyID))})`
+			}))
 		}
 	}
+
+	const contact = matches[0]
+	return {
+		status: 'success',
+		companyId: Number(contact.companyID),
+		contactId: contact.id,
+		emailHint: maskEmail(contact.emailAddress),
+		phoneHint: maskPhone(contact.phone || contact.officePhone || contact.mobilePhone),
+		isNew: false,
+		contactName: `${contact.firstName} ${contact.lastName}`,
+		companyName: companyNames.get(Number(contact.companyID))
+	}
+}
+
+/**
+ * Records the caller a lookup identified in the call context: a contact
+ * found or created, or only their company when no contact was created.
+ * Other outcomes leave the context as it was.
+ * 
+ * @param ref - The call the lookup belongs to
+ * @param result - The lookup result
+ */
+export function rememberCaller(ref: CallRef, result: LookupResult): void {
+	if ((result.status !== 'success' && !result.contactNotCreated) || result.companyId === undefined) {
+		return
+	}
+	callContexts.identify(ref, {
+		companyId: result.companyId,
+		contactId: result.contactNotCreated ? undefined : result.contactId,
+		isNewContact: result.isNew ?? false,
+		pendingReview: result.pendingReview ?? false
+	})
 }
 
 /**
@@ -226,9 +536,8 @@ export async function lookupCompanyContactHandler(params: {
  * 
  * @param result - The lookup operation result
  * @returns Formatted MCP tool result
- * @internal
  */
-function formatResult(result: LookupResult): CallToolResult {
+export function formatResult(result: LookupResult): CallToolResult {
 	return {
 		content: [
 			{
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview MCP tool for identifying a caller from their caller ID.
+ *
+ * Searches Autotask contacts by the number the call came from so a known
+ * caller does not have to spell their name and organization. Returns the
+ * same flattened result as `lookupCompanyContact`, so the agent can go
+ * straight to verification on a hit.
+ *
+ * @module mcp/tools/lookupContactByPhone
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { searchContactByPhone } from '../../api/autotask.js'
+import { config } from '../../config.js'
+import { tenants } from '../../tenants.js'
+import { logger } from '../../utils/logger.js'
+import { formatResult, rememberCaller, resolveContactMatches } from './lookupCompanyContact.js'
+
+/**
+ * Schema definition for the lookupContactByPhone MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   phoneNumber: '+15551010001',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const lookupContactByPhoneSchema = {
+	name: 'lookupContactByPhone',
+	description: 'Look up the caller by the phone number they are calling from. Searches contact phone, mobile and alternate numbers in any format. Returns the same result as lookupCompanyContact (company ID, contact ID, contact and company name, masked email/phone hints). Call at the start of the call; if not found, fall back to lookupCompanyContact.',
+	inputSchema: z.object({
+		phoneNumber: z.string().describe('Caller ID phone number (e.g., +15551010001)'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Handles the lookupContactByPhone tool invocation from MCP clients.
+ *
+ * Contacts of inactive companies, and of companies outside the session's
+ * tenant, are ignored. When several contacts share
+ * the number (a shared office line, for instance) they are returned as
+ * `multiple_matches` so the agent asks the caller who they are (see
+ * {@link resolveContactMatches}).
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with lookup results or error
+ *
+ * @example
+ * ```typescript
+ * // Success response:
+ * {
+ *   status: 'success',
+ *   companyId: 1001,
+ *   contactId: 2001,
+ *   emailHint: 'j***@a***.example',
+ *   phoneHint: 'ending in 0001',
+ *   isNew: false,
+ *   contactName: 'John Smith',
+ *   companyName: 'Acme Corporation',
+ *   message: 'Found John Smith at Acme Corporation from caller ID. ...'
+ * }
+ * ```
+ */
+export async function lookupContactByPhoneHandler(params: { phoneNumber: string; externalID: string }, sessionId?: string): Promise<CallToolResult> {
+	logger.info({ tool: 'lookupContactByPhone', phoneNumber: params.phoneNumber }, 'Tool call: lookupContactByPhone')
+
+	try {
+		const result = await resolveContactMatches(
+			await searchContactByPhone(params.phoneNumber, config.contacts.defaultCountryCode),
+			tenants.forSession(sessionId)
+		)
+
+		if (result.status === 'not_found') {
+			result.error = 'No contact has this phone number on file'
+			result.message = 'Ask for the caller\'s name and organization and use lookupCompanyContact.'
+		} else if (result.status === 'multiple_matches') {
+			result.message = 'Several contacts share this phone number. Ask for the caller\'s name and organization and use lookupCompanyContact.'
+		} else {
+			result.message = `Found ${result.contactName} at ${result.companyName} from caller ID. Confirm the caller is ${result.contactName}, then ask for their email address and confirm their identity with verifyCaller.`
+			logger.info({ companyId: result.companyId, contactId: result.contactId }, 'Contact found by phone')
+		}
+
+		rememberCaller({ sessionId, callId: params.externalID }, result)
+		return formatResult(result)
+	} catch (error) {
+		logger.error({ error, tool: 'lookupContactByPhone' }, 'Tool call failed: lookupContactByPhone')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
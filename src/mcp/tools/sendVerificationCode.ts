@@ -0,0 +1,180 @@
+/**
+ * @fileoverview MCP tool for emailing a one-time verification code to a
+ * contact's address on file.
+ *
+ * Used for requests where knowing someone's email address or phone number
+ * is not proof enough (password resets, new-user access): the caller must
+ * read back the code from their mailbox with `confirmVerificationCode`.
+ *
+ * @module mcp/tools/sendVerificationCode
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { ContactDetails } from '../../api/autotask.js'
+import { CallerValidationError, validateContact } from '../../api/callerValidation.js'
+import { mailTransport } from '../../api/mail.js'
+import { verificationCodes, verificationKey } from '../../api/verificationCodes.js'
+import { config } from '../../config.js'
+import { callContexts } from '../callContext.js'
+import { tenants } from '../../tenants.js'
+import { maskEmail } from '../../utils/piiMask.js'
+import { logger } from '../../utils/logger.js'
+
+/**
+ * Schema definition for the sendVerificationCode MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   companyId: '1001',
+ *   contactId: '2001',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const sendVerificationCodeSchema = {
+	name: 'sendVerificationCode',
+	description: 'Email a one-time numeric code to the contact\'s email address on file. Required before createTicket for sensitive requests such as password resets or new-user access. The caller reads the code back and you check it with confirmVerificationCode. Returns sentTo (masked address) and expiresInMinutes.',
+	inputSchema: z.object({
+		companyId: z.string().optional().describe('Autotask company ID (from the lookup result; defaults to the caller identified on this call)'),
+		contactId: z.string().optional().describe('Autotask contact ID (from the lookup result; defaults to the caller identified on this call)'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Handles the sendVerificationCode tool invocation from MCP clients.
+ *
+ * Each call sends a new code that replaces the previous one, up to
+ * `VERIFY_CODE_MAX_SENDS` per call and contact. A code that cannot be
+ * emailed is withdrawn, so it does not count toward the limit and the
+ * previous code stays valid. `unavailable` is returned when email is not
+ * configured or the contact has no address on file.
+ * IDs left out default to the caller identified earlier in the call.
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with the masked destination or error
+ *
+ * @example
+ * ```typescript
+ * // Response:
+ * {
+ *   status: 'success',
+ *   sentTo: 'j***@a***.example',
+ *   expiresInMinutes: 10,
+ *   message: 'A 6-digit code was emailed to j***@a***.example. Ask the caller to read it out.'
+ * }
+ * ```
+ */
+export async function sendVerificationCodeHandler(
+	params: {
+		companyId?: string
+		contactId?: string
+		externalID: string
+	},
+	sessionId?: string
+): Promise<CallToolResult> {
+	logger.info(
+		{ tool: 'sendVerificationCode', companyId: params.companyId, contactId: params.contactId, externalID: params.externalID },
+		'Tool call: sendVerificationCode'
+	)
+
+	try {
+		const { companyId, contactId, pendingReview } = callContexts.resolve({ sessionId, callId: params.externalID }, params)
+		if (companyId === undefined || contactId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up first')
+		}
+
+		let contact: ContactDetails
+		try {
+			contact = await validateContact(companyId, contactId, { pendingReview, tenant: tenants.forSession(sessionId) })
+		} catch (error) {
+			if (!(error instanceof CallerValidationError)) {
+				throw error
+			}
+			return respond({
+				status: 'not_found',
+				message: 'This contact was not found for the caller\'s company. Look the caller up again by name and organization.'
+			})
+		}
+
+		if (!mailTransport || !contact.emailAddress) {
+			logger.warn({ contactId, mailConfigured: !!mailTransport }, 'Verification code cannot be emailed')
+			return respond({
+				status: 'unavailable',
+				message: mailTransport
+					? 'There is no email address on file to send a code to. This request cannot be verified by phone; ask the caller to contact their IT administrator.'
+					: 'Email verification is not available. This request cannot be verified by phone; ask the caller to contact their IT administrator.'
+			})
+		}
+
+		const key = verificationKey(sessionId, params.externalID, contactId)
+		const code = verificationCodes.issue(key)
+		if (!code) {
+			return respond({
+				status: 'limit_reached',
+				message: 'Too many codes have been sent on this call. Do not send another; ask the caller to check their inbox or call back later.'
+			})
+		}
+
+		const expiresInMinutes = Math.round(config.verification.codeTtlMs / 60000)
+		try {
+			await mailTransport.send({
+				to: contact.emailAddress,
+				subject: 'Your service desk verification code',
+				text: [
+					`Your verification code is ${code}.`,
+					'',
+					`Read it to the service desk agent on your call. It expires in ${expiresInMinutes} minutes.`,
+					'If you are not on a call with our service desk, ignore this email and do not share the code.'
+				].join('\n')
+			})
+		} catch (error) {
+			// The caller never received this code, so it must not use up a send
+			verificationCodes.withdraw(key, code)
+			throw error
+		}
+
+		const sentTo = maskEmail(contact.emailAddress)
+		logger.info({ contactId, externalID: params.externalID }, 'Verification code sent')
+
+		return respond({
+			status: 'success',
+			sentTo,
+			expiresInMinutes,
+			message: `A ${code.length}-digit code was emailed to ${sentTo}. Ask the caller to read it out.`
+		})
+	} catch (error) {
+		logger.error({ error, tool: 'sendVerificationCode' }, 'Tool call failed: sendVerificationCode')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
+
+/**
+ * Serializes a tool response.
+ * @internal
+ */
+function respond(data: Record<string, unknown>): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: JSON.stringify(data)
+			}
+		]
+	}
+}
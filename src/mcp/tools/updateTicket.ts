@@ -0,0 +1,241 @@
+/**
+ * @fileoverview MCP tool for changing the status of a caller's ticket.
+ *
+ * Lets the agent reopen a ticket, mark it waiting on the customer or
+ * resolved, or request escalation, limited to the transitions allowed for
+ * the tenant. Every change is recorded in an audit note on the ticket.
+ *
+ * @module mcp/tools/updateTicket
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import {
+	createTicketNote,
+	getTicketForCaller,
+	TICKET_STATUS_COMPLETE,
+	updateTicket
+} from '../../api/autotask.js'
+import { metadataService } from '../../api/autotaskMetadata.js'
+import { validateContact } from '../../api/callerValidation.js'
+import { config, TICKET_TRANSITIONS, TicketTransition } from '../../config.js'
+import { assertVerified, callContexts, CallerNotVerifiedError } from '../callContext.js'
+import { tenants, tenantTransitions } from '../../tenants.js'
+import { logger } from '../../utils/logger.js'
+
+/**
+ * How each transition is described in the audit note.
+ * @internal
+ */
+const TRANSITION_DESCRIPTIONS: Record<TicketTransition, string> = {
+	reopen: 'Reopened',
+	waiting_customer: 'Marked as waiting on the customer',
+	customer_resolved: 'Marked as resolved by the customer',
+	escalate: 'Escalated'
+}
+
+/**
+ * Schema definition for the updateTicket MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   ticketId: '3001',
+ *   companyId: '1001',
+ *   contactId: '2001',
+ *   transition: 'escalate',
+ *   reason: 'Whole sales team is now unable to print',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const updateTicketSchema = {
+	name: 'updateTicket',
+	description: 'Change the status of one of the verified caller\'s existing tickets: reopen a completed ticket, mark it waiting on the customer, mark it resolved because the caller says the issue is fixed, or escalate it. Only some transitions may be enabled; a reason is required and is recorded in an audit note on the ticket. The caller must be verified with verifyCaller first; otherwise status is verification_required.',
+	inputSchema: z.object({
+		ticketId: z.string().describe('Autotask ticket ID (from listOpenTickets or getTicket)'),
+		companyId: z.string().optional().describe('Verified caller\'s company ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		contactId: z.string().optional().describe('Verified caller\'s contact ID (from lookupCompanyContact result; defaults to the caller identified on this call)'),
+		transition: z.enum(TICKET_TRANSITIONS).describe('reopen, waiting_customer, customer_resolved or escalate'),
+		reason: z.string().min(1).describe('Why the caller wants the change, in plain language'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Handles the updateTicket tool invocation from MCP clients.
+ *
+ * Refuses transitions not allowed for the session's tenant (its
+ * `ticketTransitions`, or `TICKET_UPDATE_TRANSITIONS` by default), contacts
+ * that do not belong to the company (see {@link validateContact}) and
+ * tickets that belong to another company, or to another contact when the
+ * caller's contact was created on this call. Completed tickets can only be
+ * reopened, and only completed tickets can be reopened. After the PATCH an audit note
+ * records the old and new values, the reason and the Retell call ID; if the
+ * note fails the change stands and `auditNoteId` is omitted. IDs left out
+ * default to the caller identified earlier in the call.
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with the new status or error
+ *
+ * @example
+ * ```typescript
+ * // Success response:
+ * {
+ *   status: 'success',
+ *   ticketId: '3001',
+ *   ticketNumber: 'T20240101.0001',
+ *   transition: 'escalate',
+ *   ticketStatus: 'Escalate',
+ *   priority: 'High',
+ *   auditNoteId: '9002'
+ * }
+ *
+ * // Transition not allowed:
+ * {
+ *   status: 'not_allowed',
+ *   message: 'The customer_resolved change cannot be made over the phone.'
+ * }
+ * ```
+ */
+export async function updateTicketHandler(params: {
+	ticketId: string
+	companyId?: string
+	contactId?: string
+	transition: TicketTransition
+	reason: string
+	externalID: string
+}, sessionId?: string): Promise<CallToolResult> {
+	const { transition } = params
+
+	logger.info(
+		{ tool: 'updateTicket', ticketId: params.ticketId, companyId: params.companyId, transition, externalID: params.externalID },
+		'Tool call: updateTicket'
+	)
+
+	try {
+		const caller = callContexts.resolve({ sessionId, callId: params.externalID }, params)
+		const { companyId, contactId, isNewContact, pendingReview } = caller
+		if (companyId === undefined || contactId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up first')
+		}
+		assertVerified(caller)
+		const tenant = tenants.forSession(sessionId)
+		await validateContact(companyId, contactId, { newContact: isNewContact, pendingReview, tenant })
+
+		if (!tenantTransitions(tenant).includes(transition)) {
+			logger.warn({ ticketId: params.ticketId, transition }, 'Ticket transition not allowed for tenant')
+			return notAllowed(`The ${transition} change cannot be made over the phone.`)
+		}
+
+		// A contact created on this call may only change its own tickets
+		const ticket = await getTicketForCaller(params.ticketId, companyId, isNewContact ? contactId : undefined)
+		if (!ticket) {
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify({
+							status: 'not_found',
+							message: 'No ticket with that ID was found for this caller.'
+						})
+					}
+				]
+			}
+		}
+
+		const isComplete = Number(ticket.status) === TICKET_STATUS_COMPLETE
+		if (transition === 'reopen' && !isComplete) {
+			return notAllowed('The ticket is still open, so it does not need reopening.')
+		}
+		if (transition !== 'reopen' && isComplete) {
+			return notAllowed('The ticket is already complete; it has to be reopened first.')
+		}
+
+		const fields: Record<string, number> = {
+			status: await metadataService.resolveValue('Tickets', 'status', config.ticketUpdates.statuses[transition])
+		}
+		if (transition === 'escalate' && config.ticketUpdates.escalationPriority) {
+			fields.priority = await metadataService.resolveValue('Tickets', 'priority', config.ticketUpdates.escalationPriority)
+		}
+
+		await updateTicket(params.ticketId, fields)
+
+		const ticketStatus = await metadataService.labelOrCode('Tickets', 'status', fields.status)
+		const changes = [`Status: ${await metadataService.labelOrCode('Tickets', 'status', ticket.status)} -> ${ticketStatus}`]
+		let priority: string | number | undefined
+		if (fields.priority !== undefined) {
+			priority = await metadataService.labelOrCode('Tickets', 'priority', fields.priority)
+			changes.push(`Priority: ${await metadataService.labelOrCode('Tickets', 'priority', ticket.priority)} -> ${priority}`)
+		}
+
+		let auditNoteId: string | undefined
+		try {
+			auditNoteId = await createTicketNote(params.ticketId, {
+				title: `${TRANSITION_DESCRIPTIONS[transition]} via phone`,
+				description: `${TRANSITION_DESCRIPTIONS[transition]} by the voice agent at the request of contact ${contactId}.
+${changes.join('\n')}
+Reason: ${params.reason.trim()}
+
+Call ${params.externalID}`,
+				noteType: await metadataService.resolveValue('TicketNotes', 'noteType', config.ticketNotes.noteType),
+				publish: await metadataService.resolveValue('TicketNotes', 'publish', config.ticketNotes.publish)
+			})
+		} catch (noteError) {
+			logger.warn({ error: noteError, ticketId: params.ticketId, transition }, 'Failed to add audit note after ticket update')
+		}
+
+		logger.info({ ticketId: params.ticketId, transition, fields, auditNoteId }, 'Ticket updated via tool')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: 'success',
+						ticketId: String(ticket.id),
+						ticketNumber: ticket.ticketNumber,
+						transition,
+						ticketStatus,
+						priority,
+						auditNoteId
+					})
+				}
+			]
+		}
+	} catch (error) {
+		logger.error(
+			{ error, ticketId: params.ticketId, transition, externalID: params.externalID, tool: 'updateTicket' },
+			'Tool call failed: updateTicket'
+		)
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: error instanceof CallerNotVerifiedError ? 'verification_required' : 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
+
+/**
+ * Builds the response for a refused transition.
+ * @internal
+ */
+function notAllowed(message: string): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: JSON.stringify({ status: 'not_allowed', message })
+			}
+		]
+	}
+}
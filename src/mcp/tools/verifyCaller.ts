@@ -0,0 +1,319 @@
+/**
+ * @fileoverview MCP tool for verifying a caller's identity server-side.
+ *
+ * The caller's answer (their email address or full phone number) is
+ * compared against the contact on file here, so the details themselves
+ * never reach the voice agent. Only the outcome is returned, with masked
+ * hints and the contact's name and company once the caller is verified. The last four digits of the phone are
+ * not accepted: lookups already return them as `phoneHint`.
+ *
+ * @module mcp/tools/verifyCaller
+ */
+import { z } from 'zod'
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { ContactDetails, getCompaniesByIds } from '../../api/autotask.js'
+import { CallerValidationError, validateContact } from '../../api/callerValidation.js'
+import { config } from '../../config.js'
+import { callContexts } from '../callContext.js'
+import { tenants } from '../../tenants.js'
+import { editDistance } from '../../utils/nameMatching.js'
+import { phoneNumbersMatch } from '../../utils/phoneNumber.js'
+import { maskEmail, maskPhone } from '../../utils/piiMask.js'
+import { normalizeSpokenEmail, normalizeSpokenPhoneNumber } from '../../utils/spokenInput.js'
+import { TtlCache } from '../../utils/ttlCache.js'
+import { logger } from '../../utils/logger.js'
+
+/**
+ * Shortest mailbox (without separators) for which typos are tolerated;
+ * shorter ones must match exactly.
+ * @internal
+ */
+const MIN_FUZZY_MAILBOX_LENGTH = 6
+
+/**
+ * Schema definition for the verifyCaller MCP tool.
+ *
+ * @example
+ * ```typescript
+ * // Tool input example:
+ * {
+ *   companyId: '1001',
+ *   contactId: '2001',
+ *   phoneNumber: 'five five five one oh one oh oh oh one',
+ *   externalID: 'retell-call-abc123'
+ * }
+ * ```
+ */
+export const verifyCallerSchema = {
+	name: 'verifyCaller',
+	description: 'Verify the caller is the contact found by lookupCompanyContact or lookupContactByPhone, by comparing what they said against the details on file server-side. Pass emailAddress or the full phoneNumber exactly as the caller said it; the last four digits alone are not accepted. Returns verified true or false, with masked hints and the contact\'s name and company only once verified; the details on file are never returned.',
+	inputSchema: z.object({
+		companyId: z.string().optional().describe('Autotask company ID (from the lookup result; defaults to the caller identified on this call)'),
+		contactId: z.string().optional().describe('Autotask contact ID (from the lookup result; defaults to the caller identified on this call)'),
+		emailAddress: z.string().optional().describe('Email address as the caller said it (e.g., "john dot smith at acme dot com")'),
+		phoneNumber: z.string().optional().describe('Full phone number as the caller said it'),
+		externalID: z.string().describe('External ID from Retell call')
+	})
+}
+
+/**
+ * Failed attempts per call and contact, expiring after the lockout period.
+ * Keyed by call so that wrong answers on one call cannot lock the real
+ * customer out of their own.
+ * @internal
+ */
+const failedAttempts = new TtlCache<string, number>(config.verification.lockoutMs)
+
+/**
+ * Failed attempts per contact across all calls, expiring
+ * `VERIFY_CONTACT_LOCKOUT_MS` after the last one. A warning is logged once it
+ * reaches `VERIFY_ALERT_FAILURES`, as a sign someone is guessing at the
+ * contact; at `VERIFY_CONTACT_MAX_FAILURES` every call is locked out of the
+ * contact, so hanging up and calling again does not buy more guesses.
+ * @internal
+ */
+const contactFailures = new TtlCache<number, number>(config.verification.contactLockoutMs)
+
+/**
+ * Handles the verifyCaller tool invocation from MCP clients.
+ *
+ * Email addresses are normalized from their spoken form and compared
+ * against all three email fields, tolerating `VERIFY_EMAIL_MAX_EDITS`
+ * transcription errors in the mailbox (separators are ignored; the domain
+ * must match). Phone numbers are compared against the phone, mobile and
+ * alternate numbers in any format. Failed attempts get no hints, so an
+ * answer cannot be pieced together from repeated tries. After
+ * `VERIFY_MAX_ATTEMPTS` failures on a call, that call is locked out of the
+ * contact for `VERIFY_LOCKOUT_MS` and `locked` is returned without checking.
+ * After `VERIFY_CONTACT_MAX_FAILURES` failures across all calls, every call
+ * is locked out of the contact until `VERIFY_CONTACT_LOCKOUT_MS` has passed
+ * since the last one; a one-time code (sendVerificationCode) still works.
+ *
+ * IDs left out default to the caller identified earlier in the call, and
+ * IDs for anyone else are refused (see {@link callContexts}). A verified
+ * caller is remembered for the rest of the call.
+ *
+ * @param params - The validated tool parameters
+ * @param sessionId - MCP session the call belongs to
+ * @returns MCP tool result with the verification outcome or error
+ *
+ * @example
+ * ```typescript
+ * // Response:
+ * {
+ *   status: 'success',
+ *   verified: true,
+ *   method: 'phone',
+ *   emailHint: 'j***@a***.example',
+ *   phoneHint: 'ending in 0001',
+ *   contactName: 'John Smith',
+ *   companyName: 'Acme Corporation',
+ *   message: 'Caller verified.'
+ * }
+ * ```
+ */
+export async function verifyCallerHandler(params: {
+	companyId?: string
+	contactId?: string
+	emailAddress?: string
+	phoneNumber?: string
+	externalID: string
+}, sessionId?: string): Promise<CallToolResult> {
+	logger.info(
+		{
+			tool: 'verifyCaller',
+			companyId: params.companyId,
+			contactId: params.contactId,
+			hasEmail: !!params.emailAddress,
+			hasPhone: !!params.phoneNumber
+		},
+		'Tool call: verifyCaller'
+	)
+
+	try {
+		const call = { sessionId, callId: params.externalID }
+		const { companyId, contactId, pendingReview } = callContexts.resolve(call, params)
+		if (companyId === undefined || contactId === undefined) {
+			throw new Error('No caller has been identified on this call; look the caller up first')
+		}
+		if (!params.emailAddress && !params.phoneNumber) {
+			throw new Error('Provide emailAddress or phoneNumber as the caller said it')
+		}
+
+		let contact: ContactDetails
+		try {
+			contact = await validateContact(companyId, contactId, { pendingReview, tenant: tenants.forSession(sessionId) })
+		} catch (error) {
+			if (!(error instanceof CallerValidationError)) {
+				throw error
+			}
+			return respond({
+				status: 'not_found',
+				verified: false,
+				message: 'This contact was not found for the caller\'s company. Look the caller up again by name and organization.'
+			})
+		}
+
+		const phones = [contact.phone, contact.mobilePhone, contact.alternatePhone]
+		if (![contact.emailAddress, contact.emailAddress2, contact.emailAddress3, ...phones].some(Boolean)) {
+			return respond({
+				status: 'success',
+				verified: false,
+				message: 'There is no email address or phone number on file to verify against. Collect callback information instead.'
+			})
+		}
+
+		const attemptKey = `${params.externalID}:${contactId}`
+		const failures = failedAttempts.get(attemptKey) ?? 0
+		if (failures >= config.verification.maxAttempts) {
+			logger.warn({ contactId, externalID: params.externalID, failures }, 'Caller verification locked')
+			return respond({
+				status: 'success',
+				verified: false,
+				locked: true,
+				message: 'Too many failed verification attempts on this call. Do not try again; ask the caller to call back later or contact their IT administrator.'
+			})
+		}
+
+		const totalFailures = contactFailures.get(contactId) ?? 0
+		if (totalFailures >= config.verification.contactMaxFailures) {
+			logger.warn({ contactId, externalID: params.externalID, failures: totalFailures }, 'Caller verification locked for contact')
+			return respond({
+				status: 'success',
+				verified: false,
+				locked: true,
+				message: 'Too many failed verification attempts for this contact recently. Do not try again; offer to email a one-time code with sendVerificationCode, or ask the caller to call back later.'
+			})
+		}
+
+		const method = matchCaller(contact, params)
+
+		if (method) {
+			failedAttempts.delete(attemptKey)
+			callContexts.markVerified(call, { companyId, contactId })
+			logger.info({ contactId, method }, 'Caller verified')
+			return respond({
+				status: 'success',
+				verified: true,
+				method,
+				emailHint: maskEmail(contact.emailAddress),
+				phoneHint: maskPhone(phones.find(Boolean)),
+				contactName: `${contact.firstName} ${contact.lastName}`,
+				companyName: await companyName(companyId),
+				message: 'Caller verified.'
+			})
+		}
+
+		failedAttempts.set(attemptKey, failures + 1)
+		const remaining = config.verification.maxAttempts - failures - 1
+		logger.info({ contactId, externalID: params.externalID, remaining }, 'Caller verification failed')
+
+		contactFailures.set(contactId, totalFailures + 1)
+		if (totalFailures + 1 === config.verification.alertFailures) {
+			logger.warn({ contactId, failures: totalFailures + 1 }, 'Repeated failed verification attempts for contact across calls')
+		}
+
+		return respond({
+			status: 'success',
+			verified: false,
+			remainingAttempts: remaining,
+			message: remaining > 0
+				? 'That does not match our records. Ask the caller to try again, or to verify with a different detail.'
+				: 'That does not match our records and no attempts remain. Do not try again.'
+		})
+	} catch (error) {
+		logger.error({ error, tool: 'verifyCaller' }, 'Tool call failed: verifyCaller')
+
+		return {
+			content: [
+				{
+					type: 'text',
+					text: JSON.stringify({
+						status: 'error',
+						error: error instanceof Error ? error.message : String(error)
+					})
+				}
+			],
+			isError: true
+		}
+	}
+}
+
+/**
+ * Returns which of the caller's answers matches the contact, if any.
+ * @internal
+ */
+function matchCaller(
+	contact: ContactDetails,
+	answers: { emailAddress?: string; phoneNumber?: string }
+): 'email' | 'phone' | null {
+	const phones = [contact.phone, contact.mobilePhone, contact.alternatePhone].filter((p): p is string => !!p)
+
+	if (answers.emailAddress) {
+		const heard = normalizeSpokenEmail(answers.emailAddress)
+		const emails = [contact.emailAddress, contact.emailAddress2, contact.emailAddress3]
+		if (heard && emails.some((stored) => stored && emailsMatch(heard, stored))) {
+			return 'email'
+		}
+	}
+
+	if (answers.phoneNumber) {
+		const heard = normalizeSpokenPhoneNumber(answers.phoneNumber)
+		if (heard && phones.some((stored) => phoneNumbersMatch(heard, stored, config.contacts.defaultCountryCode))) {
+			return 'phone'
+		}
+	}
+
+	return null
+}
+
+/**
+ * Compares an email address as heard with one on file. Domains must match;
+ * mailboxes are compared without separators and may differ by
+ * `VERIFY_EMAIL_MAX_EDITS` characters when long enough.
+ * @internal
+ */
+function emailsMatch(heard: string, stored: string): boolean {
+	const [heardMailbox, heardDomain] = heard.toLowerCase().split('@')
+	const [storedMailbox, storedDomain] = stored.trim().toLowerCase().split('@')
+	if (!storedDomain || heardDomain !== storedDomain) {
+		return false
+	}
+
+	const a = heardMailbox.replace(/[._-]/g, '')
+	const b = storedMailbox.replace(/[._-]/g, '')
+	if (a === b) {
+		return true
+	}
+	return b.length >= MIN_FUZZY_MAILBOX_LENGTH && editDistance(a, b) <= config.verification.emailMaxEdits
+}
+
+/**
+ * Looks up a company's name for a verified caller; a failure only leaves it
+ * out of the response.
+ * @internal
+ */
+async function companyName(companyId: number): Promise<string | undefined> {
+	try {
+		const [company] = await getCompaniesByIds([companyId])
+		return company?.companyName
+	} catch (error) {
+		logger.warn({ error, companyId }, 'Failed to retrieve company name')
+		return undefined
+	}
+}
+
+/**
+ * Serializes a verification response.
+ * @internal
+ */
+function respond(data: Record<string, unknown>): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: JSON.stringify(data)
+			}
+		]
+	}
+}
@@ -0,0 +1,614 @@
+/**
+ * @fileoverview Mock Autotask REST API for local development and automated
+ * tests. Serves zone discovery, threshold information, entity metadata,
+ * queries (with filter evaluation and paging) and the create/update calls
+ * the MCP tools make, against in-memory state loaded from seed fixtures.
+ * Faults (latency, 429, 500, malformed JSON) can be injected globally or
+ * per request to exercise the client's retry and outbox paths.
+ * @module mock/autotaskMock
+ */
+import express, { NextFunction, Request, Response } from 'express'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { FilterExpression } from '../api/queryBuilder.js'
+import { logger } from '../utils/logger.js'
+import { MockRecord, matchesFilter, validateFilter } from './filter.js'
+import { MOCK_ENTITIES, MockEntity, MockSeed } from './fixtures.js'
+
+/**
+ * Path prefix of the versioned REST API, matching the real service.
+ */
+export const MOCK_API_PREFIX = '/ATServicesRest/V1.0'
+
+/**
+ * Fault injected into API responses.
+ *
+ * - `rate_limit`: 429 with a `Retry-After` header
+ * - `server_error`: 500 with an Autotask-style error body
+ * - `malformed_json`: 200 with a truncated JSON body
+ */
+export type MockFaultMode = 'none' | 'rate_limit' | 'server_error' | 'malformed_json'
+
+/**
+ * Fault injection settings.
+ */
+export interface MockFaults {
+	/** Delay added to every API response, in milliseconds */
+	latencyMs: number
+	/** Fault to inject */
+	mode: MockFaultMode
+	/** Fraction of requests (0-1) that get the fault */
+	rate: number
+}
+
+/**
+ * Header that injects a fault into a single request, overriding the
+ * configured faults (e.g., `X-Mock-Fault: server_error`).
+ */
+export const MOCK_FAULT_HEADER = 'x-mock-fault'
+
+/**
+ * Maximum page size for queries, as enforced by Autotask.
+ * @internal
+ */
+const MAX_PAGE_SIZE = 500
+
+/**
+ * Sends an Autotask-style error response.
+ * @internal
+ */
+function sendError(res: Response, status: number, ...errors: string[]): void {
+	res.status(status).json({ errors })
+}
+
+/**
+ * In-memory stand-in for the Autotask REST API.
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockAutotaskServer(defaultSeed)
+ * const url = await mock.listen(4010)
+ * mock.setFaults({ mode: 'rate_limit', rate: 0.5 })
+ * // ... point AUTOTASK_MOCK_URL at `url` and exercise the tools
+ * await mock.close()
+ * ```
+ */
+export class MockAutotaskServer {
+	/** Express app, for mounting or supertest-style use */
+	readonly app = express()
+
+	private readonly seed: MockSeed
+	private records = new Map<MockEntity, MockRecord[]>()
+	private faults: MockFaults = { latencyMs: 0, mode: 'none', rate: 1 }
+	private requestCount = 0
+	private requestWindowStart = Date.now()
+	private readonly timers = new Set<NodeJS.Timeout>()
+	private server: Server | null = null
+
+	/**
+	 * @param seed - Initial records and metadata
+	 * @param faults - Initial fault injection settings
+	 */
+	constructor(seed: MockSeed, faults: Partial<MockFaults> = {}) {
+		this.seed = seed
+		this.reset()
+		this.setFaults(faults)
+		this.registerRoutes()
+	}
+
+	/**
+	 * Restores every entity to the seed state.
+	 */
+	reset(): void {
+		for (const timer of this.timers) {
+			clearTimeout(timer)
+		}
+		this.timers.clear()
+		this.records = new Map(
+			MOCK_ENTITIES.map((entity) => [entity, structuredClone(this.seed.records[entity] ?? [])])
+		)
+	}
+
+	/**
+	 * Updates fault injection settings. Omitted fields keep their value.
+	 */
+	setFaults(faults: Partial<MockFaults>): MockFaults {
+		this.faults = { ...this.faults, ...faults }
+		this.faults.rate = Math.max(0, Math.min(1, this.faults.rate))
+		return this.faults
+	}
+
+	/**
+	 * Returns the current records of an entity, for assertions.
+	 */
+	getRecords(entity: MockEntity): MockRecord[] {
+		return this.records.get(entity) ?? []
+	}
+
+	/**
+	 * Starts listening.
+	 *
+	 * @param port - Port to bind; 0 picks a free port
+	 * @returns Base URL of the server (e.g., 'http://127.0.0.1:4010')
+	 */
+	listen(port: number, host = '127.0.0.1'): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const server = this.app.listen(port, host, (error?: Error) => {
+				if (error) {
+					reject(error)
+					return
+				}
+				const address = server.address() as AddressInfo
+				resolve(`http://${host}:${address.port}`)
+			})
+			this.server = server
+		})
+	}
+
+	/**
+	 * Stops listening and cancels pending auto-assignments.
+	 */
+	close(): Promise<void> {
+		for (const timer of this.timers) {
+			clearTimeout(timer)
+		}
+		this.timers.clear()
+		const server = this.server
+		this.server = null
+		return new Promise((resolve) => (server ? server.close(() => resolve()) : resolve()))
+	}
+
+	/** @internal */
+	private registerRoutes(): void {
+		const app = this.app
+		app.use(express.json())
+
+		// Control endpoints for tests and manual experiments
+		app.get('/_mock/faults', (req, res) => {
+			res.json(this.faults)
+		})
+		app.put('/_mock/faults', (req, res) => {
+			res.json(this.setFaults(req.body ?? {}))
+		})
+		app.post('/_mock/reset', (req, res) => {
+			this.reset()
+			res.status(204).end()
+		})
+
+		app.get('/atservicesrest/v1.0/zoneInformation', (req, res) => {
+			res.json({
+				zoneName: 'Mock',
+				url: `${req.protocol}://${req.get('host')}${MOCK_API_PREFIX.replace(/\/V1\.0$/, '')}/`,
+				webUrl: `${req.protocol}://${req.get('host')}/`,
+				ci: 0
+			})
+		})
+
+		const api = express.Router()
+		api.use((req, res, next) => this.authenticate(req, res, next))
+		api.use((req, res, next) => void this.injectFaults(req, res, next))
+
+		api.get('/ThresholdInformation', (req, res) => {
+			res.json({
+				externalRequestThreshold: 10000,
+				requestThresholdTimeframe: 60,
+				currentTimeframeRequestCount: this.requestCount
+			})
+		})
+
+		api.get('/:entity/entityInformation', (req, res) => {
+			const entity = this.resolveEntity(req, res)
+			if (entity) {
+				res.json({
+					info: {
+						name: entity,
+						canCreate: true,
+						canQuery: true,
+						canUpdate: true,
+						hasUserDefinedFields: false
+					}
+				})
+			}
+		})
+
+		api.get('/:entity/entityInformation/fields', (req, res) => {
+			const entity = this.resolveEntity(req, res)
+			if (entity) {
+				res.json({ fields: this.seed.fields[entity] ?? [] })
+			}
+		})
+
+		api.post('/:entity/query', (req, res) => {
+			this.handleQuery(req, res, req.body, 0)
+		})
+
+		api.post('/:entity/query/count', (req, res) => {
+			this.handleCount(req, res, req.body)
+		})
+
+		api.get('/:entity/query', (req, res) => {
+			this.handleQuery(req, res, this.parseSearch(req, res), 0)
+		})
+
+		api.get('/:entity/query/next', (req, res) => {
+			this.handleQuery(req, res, this.parseSearch(req, res), Number(req.query.offset) || 0)
+		})
+
+		api.get('/:entity/:id', (req, res) => {
+			const entity = this.resolveEntity(req, res)
+			if (entity) {
+				res.json({ item: this.find(entity, Number(req.params.id)) ?? null })
+			}
+		})
+
+		api.post('/Tickets', (req, res) => this.createTicket(req, res))
+		api.patch('/Tickets', (req, res) => this.updateTicket(req, res))
+		api.post('/Tickets/:ticketId/Notes', (req, res) => this.createTicketNote(req, res))
+		api.post('/Companies/:companyId/Contacts', (req, res) => this.createContact(req, res))
+		api.patch('/Companies/:companyId/Contacts', (req, res) => this.updateContact(req, res))
+
+		app.use(MOCK_API_PREFIX, api)
+
+		app.use((req: Request, res: Response) => {
+			sendError(res, 404, `No mock route for ${req.method} ${req.path}`)
+		})
+
+		// Malformed request bodies and handler bugs
+		app.use(
+			(error: Error & { status?: number }, req: Request, res: Response, _next: NextFunction) => {
+				logger.warn({ error, method: req.method, path: req.path }, 'Mock Autotask request failed')
+				sendError(res, error.status && error.status < 500 ? error.status : 500, error.message)
+			}
+		)
+	}
+
+	/**
+	 * Requires the Autotask credential headers, like the real API.
+	 * @internal
+	 */
+	private authenticate(req: Request, res: Response, next: NextFunction): void {
+		if (!req.get('ApiIntegrationCode') || !req.get('UserName') || !req.get('Secret')) {
+			sendError(res, 401, 'Missing ApiIntegrationCode, UserName or Secret header')
+			return
+		}
+
+		const now = Date.now()
+		if (now - this.requestWindowStart > 60 * 60 * 1000) {
+			this.requestWindowStart = now
+			this.requestCount = 0
+		}
+		this.requestCount++
+		next()
+	}
+
+	/**
+	 * Applies latency and the configured or per-request fault.
+	 * @internal
+	 */
+	private async injectFaults(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const override = req.get(MOCK_FAULT_HEADER) as MockFaultMode | undefined
+		const mode = override ?? (Math.random() < this.faults.rate ? this.faults.mode : 'none')
+
+		if (this.faults.latencyMs > 0) {
+			await new Promise((resolve) => setTimeout(resolve, this.faults.latencyMs))
+		}
+
+		logger.debug({ method: req.method, path: req.path, fault: mode }, 'Mock Autotask request')
+
+		switch (mode) {
+			case 'rate_limit':
+				res.set('Retry-After', '1')
+				sendError(res, 429, 'Rate limit exceeded (injected by mock)')
+				return
+			case 'server_error':
+				sendError(res, 500, 'Internal server error (injected by mock)')
+				return
+			case 'malformed_json':
+				res.status(200).type('application/json').send('{"items":[{"id":1,')
+				return
+			default:
+				next()
+		}
+	}
+
+	/**
+	 * Maps the `:entity` route parameter to a served entity, case-insensitively.
+	 * @internal
+	 */
+	private resolveEntity(req: Request, res: Response): MockEntity | undefined {
+		const name = String(req.params.entity).toLowerCase()
+		const entity = MOCK_ENTITIES.find((e) => e.toLowerCase() === name)
+		if (!entity) {
+			sendError(res, 404, `Entity ${req.params.entity} is not served by the mock`)
+		}
+		return entity
+	}
+
+	/**
+	 * Parses the `search` query parameter of a GET query.
+	 * @internal
+	 */
+	private parseSearch(req: Request, res: Response): unknown {
+		try {
+			return JSON.parse(String(req.query.search ?? ''))
+		} catch {
+			sendError(res, 400, 'The search parameter must be a JSON query body')
+			return undefined
+		}
+	}
+
+	/**
+	 * Evaluates a query body and returns how many records match.
+	 * @internal
+	 */
+	private handleCount(req: Request, res: Response, body: unknown): void {
+		if (res.headersSent) {
+			return
+		}
+		const entity = this.resolveEntity(req, res)
+		if (!entity) {
+			return
+		}
+
+		const { filter } = (body ?? {}) as { filter?: unknown }
+		const invalid = validateFilter(filter)
+		if (invalid) {
+			sendError(res, 400, invalid)
+			return
+		}
+
+		const queryCount = this.getRecords(entity).filter((record) =>
+			matchesFilter(record, filter as FilterExpression[])
+		).length
+		res.json({ queryCount })
+	}
+
+	/**
+	 * Evaluates a query body and returns one page of results.
+	 * @internal
+	 */
+	private handleQuery(req: Request, res: Response, body: unknown, offset: number): void {
+		if (res.headersSent) {
+			return
+		}
+		const entity = this.resolveEntity(req, res)
+		if (!entity) {
+			return
+		}
+
+		const { filter, includeFields, MaxRecords } = (body ?? {}) as {
+			filter?: unknown
+			includeFields?: string[]
+			MaxRecords?: number
+		}
+		const invalid = validateFilter(filter)
+		if (invalid) {
+			sendError(res, 400, invalid)
+			return
+		}
+
+		const pageSize = Math.max(1, Math.min(MAX_PAGE_SIZE, MaxRecords ?? MAX_PAGE_SIZE))
+		const matches = this.getRecords(entity).filter((record) =>
+			matchesFilter(record, filter as FilterExpression[])
+		)
+		const page = matches.slice(offset, offset + pageSize)
+
+		const items = includeFields?.length
+			? page.map((record) =>
+					Object.fromEntries(
+						Object.entries(record).filter(
+							([key]) =>
+								key === 'id' || includeFields.some((f) => f.toLowerCase() === key.toLowerCase())
+						)
+					)
+				)
+			: page
+
+		const nextOffset = offset + pageSize
+		const base = `${req.protocol}://${req.get('host')}${MOCK_API_PREFIX}/${entity}/query`
+		const search = encodeURIComponent(JSON.stringify(body))
+
+		res.json({
+			items,
+			pageDetails: {
+				count: items.length,
+				requestCount: pageSize,
+				prevPageUrl:
+					offset > 0
+						? `${base}/next?search=${search}&offset=${Math.max(0, offset - pageSize)}`
+						: null,
+				nextPageUrl:
+					nextOffset < matches.length ? `${base}/next?search=${search}&offset=${nextOffset}` : null
+			}
+		})
+	}
+
+	/**
+	 * Finds a record by ID.
+	 * @internal
+	 */
+	private find(entity: MockEntity, id: number): MockRecord | undefined {
+		return this.getRecords(entity).find((record) => Number(record.id) === id)
+	}
+
+	/**
+	 * Allocates the next ID for an entity.
+	 * @internal
+	 */
+	private nextId(entity: MockEntity): number {
+		return this.getRecords(entity).reduce((max, record) => Math.max(max, Number(record.id)), 0) + 1
+	}
+
+	/**
+	 * Checks picklist fields in a payload against the entity metadata.
+	 * @internal
+	 */
+	private invalidPicklistValues(entity: MockEntity, payload: MockRecord): string[] {
+		const errors: string[] = []
+		for (const field of this.seed.fields[entity] ?? []) {
+			const value = payload[field.name]
+			if (!field.isPickList || value === undefined || value === null) {
+				continue
+			}
+			if (!field.picklistValues?.some((pv) => pv.isActive && pv.value === String(value))) {
+				errors.push(`Value ${value} is not a valid option for ${entity}.${field.name}`)
+			}
+		}
+		return errors
+	}
+
+	/** @internal */
+	private createTicket(req: Request, res: Response): void {
+		const payload = (req.body ?? {}) as MockRecord
+		const errors = this.invalidPicklistValues('Tickets', payload)
+		for (const required of ['companyID', 'title', 'status', 'priority']) {
+			if (
+				payload[required] === undefined ||
+				payload[required] === null ||
+				payload[required] === ''
+			) {
+				errors.push(`Missing required field: ${required}`)
+			}
+		}
+		if (payload.companyID !== undefined && !this.find('Companies', Number(payload.companyID))) {
+			errors.push(`Company ${payload.companyID} does not exist`)
+		}
+		if (payload.contactID && !this.find('Contacts', Number(payload.contactID))) {
+			errors.push(`Contact ${payload.contactID} does not exist`)
+		}
+		if (errors.length > 0) {
+			sendError(res, 400, ...errors)
+			return
+		}
+
+		const now = new Date().toISOString()
+		const datePart = now.slice(0, 10).replace(/-/g, '')
+		const sameDay = this.getRecords('Tickets').filter((t) =>
+			String(t.ticketNumber).startsWith(`T${datePart}.`)
+		)
+		const id = this.nextId('Tickets')
+		const ticket: MockRecord = {
+			assignedResourceID: null,
+			contactID: null,
+			externalID: '',
+			completedDate: null,
+			...payload,
+			id,
+			ticketNumber: `T${datePart}.${String(sameDay.length + 1).padStart(4, '0')}`,
+			createDate: now,
+			lastActivityDate: now
+		}
+		this.getRecords('Tickets').push(ticket)
+
+		const autoAssign = this.seed.autoAssign
+		if (autoAssign && !ticket.assignedResourceID) {
+			const timer = setTimeout(() => {
+				this.timers.delete(timer)
+				if (!ticket.assignedResourceID) {
+					ticket.assignedResourceID = autoAssign.resourceID
+					ticket.lastActivityDate = new Date().toISOString()
+				}
+			}, autoAssign.delayMs)
+			timer.unref()
+			this.timers.add(timer)
+		}
+
+		res.json({ itemId: id })
+	}
+
+	/** @internal */
+	private updateTicket(req: Request, res: Response): void {
+		const payload = (req.body ?? {}) as MockRecord
+		const ticket = this.find('Tickets', Number(payload.id))
+		if (!ticket) {
+			sendError(res, 400, `Ticket ${payload.id} does not exist`)
+			return
+		}
+		const errors = this.invalidPicklistValues('Tickets', payload)
+		if (errors.length > 0) {
+			sendError(res, 400, ...errors)
+			return
+		}
+
+		const changes = { ...payload }
+		delete changes.id
+		delete changes.ticketNumber
+		Object.assign(ticket, changes, { lastActivityDate: new Date().toISOString() })
+		if (changes.status !== undefined) {
+			ticket.completedDate = Number(changes.status) === 5 ? new Date().toISOString() : null
+		}
+
+		res.json({ itemId: ticket.id })
+	}
+
+	/** @internal */
+	private createTicketNote(req: Request, res: Response): void {
+		const ticket = this.find('Tickets', Number(req.params.ticketId))
+		if (!ticket) {
+			sendError(res, 400, `Ticket ${req.params.ticketId} does not exist`)
+			return
+		}
+		const payload = (req.body ?? {}) as MockRecord
+		const errors = this.invalidPicklistValues('TicketNotes', payload)
+		for (const required of ['title', 'description', 'noteType', 'publish']) {
+			if (payload[required] === undefined || payload[required] === null || payload[required] === '') {
+				errors.push(`Missing required field: ${required}`)
+			}
+		}
+		if (errors.length > 0) {
+			sendError(res, 400, ...errors)
+			return
+		}
+
+		const now = new Date().toISOString()
+		const id = this.nextId('TicketNotes')
+		this.getRecords('TicketNotes').push({ ...payload, id, ticketID: ticket.id, createDateTime: now })
+		ticket.lastActivityDate = now
+		res.json({ itemId: id })
+	}
+
+	/** @internal */
+	private createContact(req: Request, res: Response): void {
+		const companyID = Number(req.params.companyId)
+		if (!this.find('Companies', companyID)) {
+			sendError(res, 400, `Company ${companyID} does not exist`)
+			return
+		}
+		const payload = (req.body ?? {}) as MockRecord
+		const missing = ['firstName', 'lastName'].filter((name) => !payload[name])
+		if (missing.length > 0) {
+			sendError(res, 400, ...missing.map((name) => `Missing required field: ${name}`))
+			return
+		}
+
+		const id = this.nextId('Contacts')
+		this.getRecords('Contacts').push({
+			emailAddress: '',
+			phone: '',
+			mobilePhone: '',
+			alternatePhone: '',
+			isActive: 1,
+			...payload,
+			id,
+			companyID
+		})
+		res.json({ itemId: id })
+	}
+
+	/** @internal */
+	private updateContact(req: Request, res: Response): void {
+		const companyID = Number(req.params.companyId)
+		const payload = (req.body ?? {}) as MockRecord
+		const contact = this.find('Contacts', Number(payload.id))
+		if (!contact || Number(contact.companyID) !== companyID) {
+			sendError(res, 400, `Contact ${payload.id} does not exist for company ${companyID}`)
+			return
+		}
+
+		const changes = { ...payload }
+		delete changes.id
+		delete changes.companyID
+		Object.assign(contact, changes)
+		res.json({ itemId: contact.id })
+	}
+}
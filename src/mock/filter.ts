@@ -0,0 +1,155 @@
+/**
+ * @fileoverview In-memory evaluation of the Autotask query filter grammar,
+ * used by the mock Autotask server to answer `/query` requests.
+ * @module mock/filter
+ */
+import type { FilterExpression } from '../api/queryBuilder.js'
+
+/**
+ * A stored entity record.
+ */
+export type MockRecord = Record<string, unknown>
+
+/**
+ * Normalizes a value for comparison. Autotask compares strings
+ * case-insensitively and treats booleans as 0/1.
+ * @internal
+ */
+function normalize(value: unknown): string | number | null {
+	if (value === null || value === undefined || value === '') {
+		return null
+	}
+	if (typeof value === 'boolean') {
+		return value ? 1 : 0
+	}
+	if (typeof value === 'number') {
+		return value
+	}
+	const text = String(value)
+	if (/^-?\d+(\.\d+)?$/.test(text)) {
+		return Number(text)
+	}
+	return text.toLowerCase()
+}
+
+/**
+ * Compares two normalized values, ordering dates and numbers naturally.
+ * @internal
+ */
+function compare(left: string | number, right: string | number): number {
+	if (typeof left === 'number' && typeof right === 'number') {
+		return left - right
+	}
+	const leftDate = Date.parse(String(left))
+	const rightDate = Date.parse(String(right))
+	if (!isNaN(leftDate) && !isNaN(rightDate)) {
+		return leftDate - rightDate
+	}
+	return String(left).localeCompare(String(right))
+}
+
+/**
+ * Reads a field case-insensitively, including user-defined fields.
+ * @internal
+ */
+function readField(record: MockRecord, field: string, udf?: boolean): unknown {
+	if (udf) {
+		const udfs = record.userDefinedFields as Array<{ name: string; value: unknown }> | undefined
+		return udfs?.find((u) => u.name.toLowerCase() === field.toLowerCase())?.value
+	}
+	const key = Object.keys(record).find((k) => k.toLowerCase() === field.toLowerCase())
+	return key === undefined ? undefined : record[key]
+}
+
+/**
+ * Tests one filter expression against a record.
+ *
+ * @param record - Record to test
+ * @param expression - Filter node
+ * @returns True if the record matches
+ */
+export function matchesExpression(record: MockRecord, expression: FilterExpression): boolean {
+	if ('items' in expression) {
+		return expression.op === 'and'
+			? expression.items.every((item) => matchesExpression(record, item))
+			: expression.items.some((item) => matchesExpression(record, item))
+	}
+
+	const actual = normalize(readField(record, expression.field, expression.udf))
+
+	switch (expression.op) {
+		case 'exist':
+			return actual !== null
+		case 'notExist':
+			return actual === null
+		case 'in':
+			return expression.value.some((v) => normalize(v) === actual)
+		case 'notIn':
+			return !expression.value.some((v) => normalize(v) === actual)
+	}
+
+	const expected = normalize(expression.value)
+	if (expression.op === 'noteq') {
+		return actual !== expected
+	}
+	if (actual === null || expected === null) {
+		return false
+	}
+
+	switch (expression.op) {
+		case 'eq':
+			return actual === expected
+		case 'gt':
+			return compare(actual, expected) > 0
+		case 'gte':
+			return compare(actual, expected) >= 0
+		case 'lt':
+			return compare(actual, expected) < 0
+		case 'lte':
+			return compare(actual, expected) <= 0
+		case 'beginsWith':
+			return String(actual).startsWith(String(expected))
+		case 'endsWith':
+			return String(actual).endsWith(String(expected))
+		case 'contains':
+			return String(actual).includes(String(expected))
+	}
+}
+
+/**
+ * Tests a top-level filter array (implicitly `and`-ed) against a record.
+ *
+ * @param record - Record to test
+ * @param filter - Filter array from a query body
+ * @returns True if every expression matches
+ */
+export function matchesFilter(record: MockRecord, filter: FilterExpression[]): boolean {
+	return filter.every((expression) => matchesExpression(record, expression))
+}
+
+/**
+ * Checks that a parsed query filter has the expected shape.
+ *
+ * @param filter - Parsed `filter` value from a request body
+ * @returns An error message, or null if the filter is usable
+ */
+export function validateFilter(filter: unknown): string | null {
+	if (!Array.isArray(filter) || filter.length === 0) {
+		return 'A query requires at least one filter expression'
+	}
+	for (const item of filter) {
+		if (!item || typeof item !== 'object' || typeof (item as { op?: unknown }).op !== 'string') {
+			return 'Each filter expression requires an op'
+		}
+		const expression = item as { op: string; field?: unknown; items?: unknown }
+		if (expression.op === 'and' || expression.op === 'or') {
+			const nested = validateFilter(expression.items)
+			if (nested) {
+				return nested
+			}
+		} else if (typeof expression.field !== 'string') {
+			return `Filter expression '${expression.op}' requires a field`
+		}
+	}
+	return null
+}
@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Seed data for the mock Autotask server: a handful of
+ * companies, contacts, technicians and tickets, plus the field metadata and
+ * picklists the MCP tools resolve labels against.
+ * @module mock/fixtures
+ */
+import type { FieldInfo, PicklistValue } from '../api/autotaskMetadata.js'
+import type { MockRecord } from './filter.js'
+
+/**
+ * Entities served by the mock Autotask server.
+ */
+export type MockEntity = 'Companies' | 'Contacts' | 'Tickets' | 'TicketNotes' | 'Resources'
+
+/**
+ * All entities served by the mock, in the casing used in URLs.
+ */
+export const MOCK_ENTITIES: readonly MockEntity[] = [
+	'Companies',
+	'Contacts',
+	'Tickets',
+	'TicketNotes',
+	'Resources'
+]
+
+/**
+ * Initial state of the mock server.
+ */
+export interface MockSeed {
+	/** Records per entity; each needs a numeric `id` */
+	records: Record<MockEntity, MockRecord[]>
+	/** Field metadata per entity, served from `entityInformation/fields` */
+	fields: Record<MockEntity, FieldInfo[]>
+	/**
+	 * Technician assigned to new tickets after a delay, imitating an Autotask
+	 * workflow rule. Omit to leave new tickets unassigned.
+	 */
+	autoAssign?: {
+		/** Resource ID to assign */
+		resourceID: number
+		/** Delay after creation, in milliseconds */
+		delayMs: number
+	}
+}
+
+/**
+ * Builds picklist options from `[value, label]` pairs.
+ * @internal
+ */
+function picklist(options: Array<[number, string]>, defaultValue?: number): PicklistValue[] {
+	return options.map(([value, label], index) => ({
+		value: String(value),
+		label,
+		isDefaultValue: value === defaultValue,
+		isActive: true,
+		sortOrder: index
+	}))
+}
+
+/**
+ * Builds a plain (non-picklist) queryable field.
+ * @internal
+ */
+function field(name: string, dataType: string, isRequired = false): FieldInfo {
+	return { name, dataType, isRequired, isQueryable: true, isPickList: false }
+}
+
+/**
+ * Ticket status options, including the statuses the voice agent moves
+ * tickets between.
+ */
+const TICKET_STATUSES = picklist(
+	[
+		[1, 'New'],
+		[5, 'Complete'],
+		[7, 'Waiting Customer'],
+		[8, 'In Progress'],
+		[10, 'Escalate'],
+		[19, 'Customer Note Added']
+	],
+	1
+)
+
+/**
+ * Default seed used when no seed file is given.
+ */
+export const defaultSeed: MockSeed = {
+	records: {
+		Companies: [
+			{ id: 0, companyName: 'Layer7 Systems', isActive: true, phone: '555-000-0000' },
+			{ id: 1001, companyName: 'Acme Corporation', isActive: true, phone: '555-100-1000' },
+			{ id: 1002, companyName: 'Acme Logistics LLC', isActive: true, phone: '555-100-2000' },
+			{ id: 1003, companyName: 'Globex Inc.', isActive: true, phone: '555-200-1000' },
+			{ id: 1004, companyName: 'Initech', isActive: false, phone: '555-300-1000' }
+		],
+		Contacts: [
+			{
+				id: 2001,
+				companyID: 1001,
+				firstName: 'John',
+				lastName: 'Smith',
+				emailAddress: 'john.smith@acme.example',
+				phone: '555-101-0001',
+				mobilePhone: '+15551010002',
+				alternatePhone: '',
+				isActive: 1
+			},
+			{
+				id: 2002,
+				companyID: 1001,
+				firstName: 'Jane',
+				lastName: 'Doe',
+				emailAddress: 'jane.doe@acme.example',
+				phone: '(555) 101-0003',
+				mobilePhone: '',
+				alternatePhone: '',
+				isActive: 1
+			},
+			{
+				id: 2003,
+				companyID: 1002,
+				firstName: 'Robert',
+				lastName: 'Jones',
+				emailAddress: 'bob@acmelogistics.example',
+				emailAddress2: 'dispatch@acmelogistics.example',
+				phone: '555.102.0001',
+				mobilePhone: '',
+				alternatePhone: '555-102-0009',
+				isActive: 1
+			},
+			{
+				id: 2004,
+				companyID: 1003,
+				firstName: 'Hank',
+				lastName: 'Scorpio',
+				emailAddress: '',
+				phone: '',
+				mobilePhone: '',
+				alternatePhone: '',
+				isActive: 1
+			},
+			{
+				id: 2005,
+				companyID: 1001,
+				firstName: 'Former',
+				lastName: 'Employee',
+				emailAddress: 'former@acme.example',
+				phone: '555-101-0099',
+				mobilePhone: '',
+				alternatePhone: '',
+				isActive: 0
+			},
+			{
+				id: 2006,
+				companyID: 1002,
+				firstName: 'Maria',
+				lastName: 'Garcia',
+				emailAddress: 'dispatch@acmelogistics.example',
+				phone: '555-102-0002',
+				mobilePhone: '',
+				alternatePhone: '',
+				isActive: 1
+			}
+		],
+		Resources: [
+			{
+				id: 29682885,
+				firstName: 'Alex',
+				lastName: 'Tech',
+				email: 'alex.tech@layer7.example',
+				officePhone: '555-900-0001',
+				mobilePhone: '555-900-1001',
+				isActive: true
+			},
+			{
+				id: 29682886,
+				firstName: 'Sam',
+				lastName: 'Helper',
+				email: 'sam.helper@layer7.example',
+				officePhone: '555-900-0002',
+				mobilePhone: '',
+				isActive: true
+			}
+		],
+		Tickets: [
+			{
+				id: 3001,
+				ticketNumber: 'T20240101.0001',
+				title: 'Printer not working',
+				description: 'Office printer shows paper jam',
+				status: 1,
+				priority: 2,
+				ticketType: 2,
+				source: 2,
+				queueID: 8,
+				companyID: 1001,
+				contactID: 2001,
+				assignedResourceID: 29682885,
+				externalID: '',
+				createDate: '2024-01-01T15:00:00Z',
+				lastActivityDate: '2024-01-02T10:30:00Z',
+				completedDate: null
+			},
+			{
+				id: 3002,
+				ticketNumber: 'T20240102.0004',
+				title: 'New laptop setup',
+				description: 'Set up laptop for new hire',
+				status: 7,
+				priority: 3,
+				ticketType: 1,
+				source: 2,
+				queueID: 8,
+				companyID: 1001,
+				contactID: 2002,
+				assignedResourceID: null,
+				externalID: '',
+				createDate: '2024-01-02T09:00:00Z',
+				lastActivityDate: '2024-01-03T16:45:00Z',
+				completedDate: null
+			},
+			{
+				id: 3003,
+				ticketNumber: 'T20231215.0002',
+				title: 'VPN access',
+				description: 'Grant VPN access',
+				status: 5,
+				priority: 2,
+				ticketType: 1,
+				source: 2,
+				queueID: 8,
+				companyID: 1002,
+				contactID: 2003,
+				assignedResourceID: 29682886,
+				externalID: '',
+				createDate: '2023-12-15T12:00:00Z',
+				lastActivityDate: '2023-12-16T08:00:00Z',
+				completedDate: '2023-12-16T08:00:00Z'
+			}
+		],
+		TicketNotes: []
+	},
+	fields: {
+		Companies: [
+			field('id', 'long', true),
+			field('companyName', 'string', true),
+			field('phone', 'string'),
+			field('isActive', 'boolean')
+		],
+		Contacts: [
+			field('id', 'long', true),
+			field('companyID', 'integer', true),
+			field('firstName', 'string', true),
+			field('lastName', 'string', true),
+			field('emailAddress', 'string'),
+			field('emailAddress2', 'string'),
+			field('emailAddress3', 'string'),
+			field('phone', 'string'),
+			field('mobilePhone', 'string'),
+			field('alternatePhone', 'string'),
+			field('isActive', 'integer', true)
+		],
+		Resources: [
+			field('id', 'long', true),
+			field('firstName', 'string'),
+			field('lastName', 'string'),
+			field('email', 'string'),
+			field('officePhone', 'string'),
+			field('mobilePhone', 'string'),
+			field('isActive', 'boolean')
+		],
+		Tickets: [
+			field('id', 'long', true),
+			field('ticketNumber', 'string'),
+			field('title', 'string', true),
+			field('description', 'string'),
+			field('companyID', 'integer', true),
+			field('contactID', 'integer'),
+			field('assignedResourceID', 'integer'),
+			field('externalID', 'string'),
+			field('createDate', 'datetime'),
+			field('lastActivityDate', 'datetime'),
+			field('completedDate', 'datetime'),
+			{ ...field('status', 'integer', true), isPickList: true, picklistValues: TICKET_STATUSES },
+			{
+				...field('priority', 'integer', true),
+				isPickList: true,
+				picklistValues: picklist(
+					[
+						[4, 'Critical'],
+						[1, 'High'],
+						[2, 'Medium'],
+						[3, 'Low']
+					],
+					2
+				)
+			},
+			{
+				...field('ticketType', 'integer'),
+				isPickList: true,
+				picklistValues: picklist(
+					[
+						[1, 'Service Request'],
+						[2, 'Incident'],
+						[3, 'Problem'],
+						[4, 'Change Request']
+					],
+					1
+				)
+			},
+			{
+				...field('queueID', 'integer'),
+				isPickList: true,
+				picklistValues: picklist(
+					[
+						[8, 'Level I Support'],
+						[9, 'Level II Support'],
+						[29682833, 'Client Portal']
+					],
+					8
+				)
+			},
+			{
+				...field('source', 'integer'),
+				isPickList: true,
+				picklistValues: picklist(
+					[
+						[2, 'Phone'],
+						[4, 'Email'],
+						[-1, 'Client Portal']
+					],
+					2
+				)
+			}
+		],
+		TicketNotes: [
+			field('id', 'long', true),
+			field('ticketID', 'integer', true),
+			field('title', 'string', true),
+			field('description', 'string', true),
+			field('createDateTime', 'datetime'),
+			{
+				...field('noteType', 'integer', true),
+				isPickList: true,
+				picklistValues: picklist(
+					[
+						[1, 'Task Summary'],
+						[2, 'Task Notes'],
+						[3, 'Task Detail']
+					],
+					1
+				)
+			},
+			{
+				...field('publish', 'integer', true),
+				isPickList: true,
+				picklistValues: picklist(
+					[
+						[1, 'All Autotask Users'],
+						[2, 'Internal Only']
+					],
+					1
+				)
+			}
+		]
+	},
+	autoAssign: {
+		resourceID: 29682885,
+		delayMs: 1500
+	}
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Standalone entry point for the mock Autotask server, and
+ * optionally the local SMTP stand-in.
+ *
+ * Environment variables:
+ * - `MOCK_AUTOTASK_PORT` - Port to listen on (default 4010)
+ * - `MOCK_AUTOTASK_SEED` - Path to a JSON seed file replacing the built-in fixtures
+ * - `MOCK_AUTOTASK_LATENCY_MS` - Delay added to every API response
+ * - `MOCK_AUTOTASK_FAULT` - `rate_limit`, `server_error` or `malformed_json`
+ * - `MOCK_AUTOTASK_FAULT_RATE` - Fraction of requests (0-1) that get the fault
+ * - `MOCK_SMTP_PORT` - Also start the SMTP stand-in on this port; received
+ *   mail (such as verification codes) is logged
+ *
+ * @module mock/index
+ *
+ * @example
+ * ```bash
+ * npm run mock:autotask
+ * # in another shell
+ * AUTOTASK_MOCK_URL=http://127.0.0.1:4010 npm run dev
+ * ```
+ */
+import { readFileSync } from 'fs'
+import { z } from 'zod'
+import { logger } from '../utils/logger.js'
+import { MockAutotaskServer, MockFaultMode } from './autotaskMock.js'
+import { defaultSeed, MOCK_ENTITIES, MockSeed } from './fixtures.js'
+import { MockSmtpServer } from './smtpMock.js'
+
+/**
+ * Shape of a seed file. Entities or field metadata left out fall back to
+ * the built-in fixtures.
+ * @internal
+ */
+const seedFileSchema = z.object({
+	records: z.partialRecord(z.enum(MOCK_ENTITIES), z.array(z.looseObject({ id: z.number() }))).optional(),
+	fields: z.partialRecord(z.enum(MOCK_ENTITIES), z.array(z.looseObject({ name: z.string() }))).optional(),
+	autoAssign: z.object({ resourceID: z.number(), delayMs: z.number() }).nullable().optional()
+})
+
+/**
+ * Loads the seed file named by `MOCK_AUTOTASK_SEED`, or the default seed.
+ * @internal
+ */
+function loadSeed(): MockSeed {
+	const path = process.env.MOCK_AUTOTASK_SEED?.trim()
+	if (!path) {
+		return defaultSeed
+	}
+
+	const file = seedFileSchema.parse(JSON.parse(readFileSync(path, 'utf8')))
+	return {
+		records: { ...defaultSeed.records, ...file.records },
+		fields: { ...defaultSeed.fields, ...file.fields } as MockSeed['fields'],
+		autoAssign:
+			file.autoAssign === undefined ? defaultSeed.autoAssign : (file.autoAssign ?? undefined)
+	}
+}
+
+const seed = loadSeed()
+const mock = new MockAutotaskServer(seed, {
+	latencyMs: parseInt(process.env.MOCK_AUTOTASK_LATENCY_MS || '0'),
+	mode: (process.env.MOCK_AUTOTASK_FAULT?.trim() || 'none') as MockFaultMode,
+	rate: parseFloat(process.env.MOCK_AUTOTASK_FAULT_RATE || '1')
+})
+
+const url = await mock.listen(parseInt(process.env.MOCK_AUTOTASK_PORT || '4010'))
+logger.info(
+	{
+		url,
+		seed: process.env.MOCK_AUTOTASK_SEED || 'built-in',
+		records: Object.fromEntries(
+			MOCK_ENTITIES.map((entity) => [entity, mock.getRecords(entity).length])
+		)
+	},
+	'Mock Autotask server started'
+)
+
+const smtpPort = parseInt(process.env.MOCK_SMTP_PORT || '0')
+const smtp = smtpPort ? new MockSmtpServer() : null
+if (smtp) {
+	await smtp.listen(smtpPort)
+	logger.info({ port: smtpPort }, 'Mock SMTP server started')
+}
+
+/**
+ * Stops the mock on Ctrl+C or termination.
+ * @internal
+ */
+async function shutdown(): Promise<void> {
+	await mock.close()
+	await smtp?.close()
+	process.exit(0)
+}
+
+process.on('SIGINT', () => void shutdown())
+process.on('SIGTERM', () => void shutdown())
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Local SMTP stand-in for developing and testing email
+ * features without a real mail server.
+ *
+ * Accepts every message (no TLS, any AUTH), keeps it in memory and logs it,
+ * so one-time codes can be read from the mock's output. Point the server at
+ * it with `MAIL_TRANSPORT=smtp`, `SMTP_SECURITY=none` and `SMTP_HOST`/
+ * `SMTP_PORT` set to the mock.
+ * @module mock/smtpMock
+ */
+import { createServer, Server, Socket } from 'net'
+import { logger } from '../utils/logger.js'
+
+/**
+ * A message received by the mock.
+ */
+export interface MockMail {
+	/** Envelope sender */
+	from: string
+	/** Envelope recipients */
+	to: string[]
+	/** Raw message (headers and body) */
+	data: string
+	/** ISO time the message was received */
+	receivedAt: string
+}
+
+/**
+ * Minimal SMTP server that accepts and records messages.
+ *
+ * @example
+ * ```typescript
+ * const smtp = new MockSmtpServer()
+ * await smtp.listen(2525)
+ * // ... send mail ...
+ * console.log(smtp.messages[0].data)
+ * await smtp.close()
+ * ```
+ */
+export class MockSmtpServer {
+	/** Messages received, oldest first */
+	readonly messages: MockMail[] = []
+	private readonly server: Server
+
+	constructor() {
+		this.server = createServer((socket) => this.handle(socket))
+	}
+
+	/**
+	 * Starts listening on 127.0.0.1.
+	 *
+	 * @param port - Port to listen on (0 picks a free port)
+	 * @returns The port listened on
+	 */
+	listen(port: number): Promise<number> {
+		return new Promise((resolve, reject) => {
+			this.server.once('error', reject)
+			this.server.listen(port, '127.0.0.1', () => {
+				const bound = this.server.address()
+				resolve(typeof bound === 'object' && bound ? bound.port : port)
+			})
+		})
+	}
+
+	/**
+	 * Stops the server.
+	 */
+	close(): Promise<void> {
+		return new Promise((resolve) => this.server.close(() => resolve()))
+	}
+
+	/** @internal */
+	private handle(socket: Socket): void {
+		let buffer = ''
+		let envelope: { from: string; to: string[] } = { from: '', to: [] }
+		let data: string[] | null = null
+		const reply = (line: string) => socket.write(`${line}\r\n`)
+
+		socket.setEncoding('utf8')
+		reply('220 mock-smtp ESMTP ready')
+
+		socket.on('data', (chunk: string) => {
+			buffer += chunk
+			const lines = buffer.split('\r\n')
+			buffer = lines.pop() ?? ''
+
+			for (const line of lines) {
+				if (data) {
+					if (line === '.') {
+						this.receive(envelope, data.join('\r\n'))
+						envelope = { from: '', to: [] }
+						data = null
+						reply('250 OK message accepted')
+					} else {
+						data.push(line.startsWith('..') ? line.slice(1) : line)
+					}
+					continue
+				}
+
+				const verb = line.split(' ')[0].toUpperCase()
+				switch (verb) {
+					case 'EHLO':
+					case 'HELO':
+						reply('250-mock-smtp')
+						reply('250 AUTH PLAIN')
+						break
+					case 'AUTH':
+						reply('235 Authentication successful')
+						break
+					case 'MAIL':
+						envelope.from = line.match(/<([^>]*)>/)?.[1] ?? ''
+						reply('250 OK')
+						break
+					case 'RCPT':
+						envelope.to.push(line.match(/<([^>]*)>/)?.[1] ?? '')
+						reply('250 OK')
+						break
+					case 'DATA':
+						data = []
+						reply('354 End data with <CR><LF>.<CR><LF>')
+						break
+					case 'RSET':
+						envelope = { from: '', to: [] }
+						reply('250 OK')
+						break
+					case 'NOOP':
+						reply('250 OK')
+						break
+					case 'QUIT':
+						reply('221 Bye')
+						socket.end()
+						break
+					default:
+						reply('502 Command not implemented')
+				}
+			}
+		})
+		socket.on('error', (error) => logger.debug({ error }, 'Mock SMTP connection error'))
+	}
+
+	/** @internal */
+	private receive(envelope: { from: string; to: string[] }, data: string): void {
+		const mail = { ...envelope, data, receivedAt: new Date().toISOString() }
+		this.messages.push(mail)
+		logger.info({ from: mail.from, to: mail.to, data }, 'Mock SMTP received message')
+	}
+}
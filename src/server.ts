@@ -5,6 +5,7 @@
  * - Streamable HTTP transport with Server-Sent Events (SSE)
  * - Session-based state management with automatic cleanup
  * - IP whitelist and Bearer token authentication
+ * - Binding each session to the tenant (customer) it serves
  * - Health monitoring and memory reporting
  * 
  * @module server
@@ -15,9 +16,15 @@ import { randomUUID, timingSafeEqual } from 'node:crypto'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
 import { InMemoryEventStore } from './utils/inMemoryEventStore.js'
 import { createMcpServer } from './mcp/server.js'
+import { callContexts } from './mcp/callContext.js'
 import { loadWhitelist, isWhitelisted, getClientIP } from './whitelist.js'
+import { Tenant, tenants } from './tenants.js'
 import { config } from './config.js'
 import { logger } from './utils/logger.js'
+import { autotaskClient } from './api/autotaskClient.js'
+import { metadataService } from './api/autotaskMetadata.js'
+import { companyIndex } from './api/companyIndex.js'
+import { deliverQueuedTicket, ticketOutbox } from './mcp/tools/createTicket.js'
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
 
 /**
@@ -165,17 +172,27 @@ function validateIPWhitelist(req: Request, res: Response, next: () => void): voi
 /**
  * Express middleware to validate Bearer token authentication.
  * 
+ * Accepts AUTH_SECRET or a tenant's own token from `.tenants.json`; a
+ * tenant token also identifies the tenant (kept in `res.locals.tenant`).
  * Uses timing-safe comparison to prevent timing attacks.
  * If AUTH_SECRET is empty, authentication is disabled.
  * Accepts both "Bearer TOKEN" and raw "TOKEN" formats for flexibility.
  */
 function validateAuth(req: Request, res: Response, next: () => void): void {
+	const authHeader = req.headers['authorization'] || ''
+	// Extract token from "Bearer TOKEN" format, or use raw value if no prefix
+	const provided = String(authHeader).startsWith('Bearer ') 
+		? String(authHeader).slice(7) 
+		: String(authHeader)
+
+	const tenant = tenants.byToken(provided)
+	if (tenant) {
+		res.locals.tenant = tenant
+		next()
+		return
+	}
+
 	if (AUTH_SECRET) {
-		const authHeader = req.headers['authorization'] || ''
-		// Extract token from "Bearer TOKEN" format, or use raw value if no prefix
-		const provided = String(authHeader).startsWith('Bearer ') 
-			? String(authHeader).slice(7) 
-			: String(authHeader)
 		const providedBuffer = Buffer.from(provided)
 		const secretBuffer = Buffer.from(AUTH_SECRET)
 		
@@ -191,6 +208,58 @@ function validateAuth(req: Request, res: Response, next: () => void): void {
 	next()
 }
 
+/**
+ * Works out which tenant a new session serves.
+ * 
+ * A tenant token names its tenant. With AUTH_SECRET (or with authentication
+ * disabled) the tenant's company ID is taken from the `TENANT_HEADER`
+ * header instead; a header that contradicts the token is refused. Once any
+ * tenants are configured, a session without a tenant is refused, so the
+ * shared secret alone never opens an unscoped session; `TENANT_BINDING=optional`
+ * serves such sessions unscoped instead. Without tenants, sessions are not
+ * bound unless `TENANT_BINDING=required`, which refuses every session.
+ * 
+ * @returns The tenant, undefined to serve the session without one, or an error message to refuse it with
+ * @internal
+ */
+function sessionTenant(req: Request, res: Response): { tenant?: Tenant; error?: string } {
+	const tokenTenant = res.locals.tenant as Tenant | undefined
+	const header = req.headers[config.tenants.header]
+	const { binding } = config.tenants
+	const required = binding === 'required' || (binding === 'auto' && tenants.size > 0)
+
+	if (tenants.size === 0 && !required) {
+		return {}
+	}
+
+	let headerTenant: Tenant | undefined
+	if (header) {
+		headerTenant = tenants.byCompanyId(parseInt(String(header)))
+		if (!headerTenant) {
+			return { error: 'Unknown tenant' }
+		}
+		if (tokenTenant && headerTenant.companyId !== tokenTenant.companyId) {
+			return { error: 'Tenant does not match token' }
+		}
+	}
+
+	const tenant = tokenTenant ?? headerTenant
+	if (!tenant && required) {
+		return { error: 'Tenant required' }
+	}
+	return { tenant }
+}
+
+/**
+ * Whether a request may use an existing session: a tenant's token only
+ * reaches sessions bound to that tenant.
+ * @internal
+ */
+function tokenMatchesSession(sessionId: string, res: Response): boolean {
+	const tokenTenant = res.locals.tenant as Tenant | undefined
+	return !tokenTenant || tenants.boundTenantId(sessionId) === tokenTenant.companyId
+}
+
 /**
  * Express application instance.
  */
@@ -240,7 +309,8 @@ function validateRequestBody(req: Request, res: Response, next: () => void): voi
  * 
  * Headers:
  * - `mcp-session-id`: Session identifier (required after initialization)
- * - `Authorization`: Bearer token (if AUTH_SECRET is set)
+ * - `Authorization`: Bearer token (if AUTH_SECRET is set), or a tenant's token
+ * - `X-Tenant-Id` (`TENANT_HEADER`): Tenant company ID, on initialization with the shared secret
  * 
  * @route POST /mcp
  */
@@ -269,7 +339,18 @@ app.post('/mcp', validateIPWhitelist, validateAuth, validateRequestBody, async (
 				return
 			}
 
-			logger.info('Initializing new session')
+			const { tenant, error: tenantError } = sessionTenant(req, res)
+			if (tenantError) {
+				logger.warn({ header: req.headers[config.tenants.header], tokenTenant: res.locals.tenant?.companyId }, `Session refused: ${tenantError}`)
+				res.status(403).json({
+					jsonrpc: '2.0',
+					error: { code: -32000, message: tenantError },
+					id: null
+				})
+				return
+			}
+
+			logger.info({ tenant: tenant?.companyId }, 'Initializing new session')
 
 			const transport = new StreamableHTTPServerTransport({
 				sessionIdGenerator: () => randomUUID(),
@@ -278,6 +359,9 @@ app.post('/mcp', validateIPWhitelist, validateAuth, validateRequestBody, async (
 					logger.info({ sessionId }, 'Session initialized - transport stored')
 					transports[sessionId] = transport
 					sessionCreatedAt[sessionId] = Date.now()
+					if (tenant) {
+						tenants.bindSession(sessionId, tenant)
+					}
 				}
 			})
 
@@ -288,6 +372,10 @@ app.post('/mcp', validateIPWhitelist, validateAuth, validateRequestBody, async (
 					delete transports[sid]
 					delete sessionCreatedAt[sid]
 				}
+				if (sid) {
+					callContexts.forget(sid)
+					tenants.unbindSession(sid)
+				}
 			}
 
 			logger.info('Connecting transport to MCP server')
@@ -297,7 +385,7 @@ app.post('/mcp', validateIPWhitelist, validateAuth, validateRequestBody, async (
 			return
 		}
 
-		if (!sessionIdHeader || !transports[sessionIdHeader]) {
+		if (!sessionIdHeader || !transports[sessionIdHeader] || !tokenMatchesSession(sessionIdHeader, res)) {
 			logger.warn(
 				{
 					sessionId: sessionIdHeader || 'missing',
@@ -364,7 +452,7 @@ app.get('/mcp', validateIPWhitelist, validateAuth, async (req: Request, res: Res
 		'SSE connection request'
 	)
 
-	if (!sessionId || !transports[sessionId]) {
+	if (!sessionId || !transports[sessionId] || !tokenMatchesSession(sessionId, res)) {
 		logger.warn(
 			{ sessionId: sessionId || 'missing', activeSessions: Object.keys(transports).length },
 			'SSE request with invalid session'
@@ -407,7 +495,7 @@ app.delete('/mcp', validateIPWhitelist, validateAuth, async (req: Request, res:
 	const sessionId = req.headers['mcp-session-id'] as string | undefined
 	const transport = transports[sessionId!]
 
-	if (!sessionId || !transport) {
+	if (!sessionId || !transport || !tokenMatchesSession(sessionId, res)) {
 		res.status(200).send('OK')
 		return
 	}
@@ -438,6 +526,9 @@ app.delete('/mcp', validateIPWhitelist, validateAuth, async (req: Request, res:
  * - Active session count
  * - Memory usage
  * - Uptime
+ * - Autotask API usage against the rate limit
+ * - Ticket outbox counts by status
+ * - Tenants loaded and sessions bound to them
  * 
  * @route GET /health
  */
@@ -451,7 +542,11 @@ app.get('/health', (req: Request, res: Response) => {
 		memory: {
 			heapUsedMB: Math.round(memUsage.heapUsed / 1024 / 1024),
 			heapTotalMB: Math.round(memUsage.heapTotal / 1024 / 1024)
-		}
+		},
+		autotask: autotaskClient.getUsage(),
+		outbox: ticketOutbox.stats(),
+		companyIndex: companyIndex.stats(),
+		tenants: tenants.stats()
 	})
 })
 
@@ -488,6 +583,15 @@ const server = app.listen(PORT, () => {
 		},
 		'MCP server started'
 	)
+
+	// Load the tenants and pick up changes generate-agent makes while running
+	tenants.startWatching()
+
+	// Resolve the Autotask zone and load picklists and companies up front so the first tool call doesn't pay for it
+	void autotaskClient.getBaseUrl()
+	metadataService.startPeriodicRefresh()
+	companyIndex.startPeriodicSync()
+	ticketOutbox.startWorker(deliverQueuedTicket)
 })
 
 /**
@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Tenant registry loaded from `.tenants.json`.
+ *
+ * `scripts/generate-agent.ts` adds a tenant (the customer company an agent
+ * is deployed for, with the Autotask queue its tickets go to) each time it
+ * generates an agent. The registry reads that file, validates it, reloads
+ * it when it changes, and binds each MCP session to the tenant it serves,
+ * so tools route tickets to the tenant's queue and only act for the
+ * tenant's companies.
+ *
+ * @module tenants
+ *
+ * @example
+ * ```typescript
+ * import { tenants } from './tenants.js'
+ *
+ * tenants.startWatching()
+ * const tenant = tenants.byToken(bearerToken) ?? tenants.byCompanyId(1001)
+ * if (tenant) {
+ *   tenants.bindSession(sessionId, tenant)
+ * }
+ * tenants.forSession(sessionId) // { companyId: 1001, queueId: 29683, name: 'Acme Corporation' }
+ * ```
+ */
+import { existsSync, readFileSync, statSync } from 'fs'
+import { resolve } from 'path'
+import { timingSafeEqual } from 'node:crypto'
+import { z } from 'zod'
+import { config, TICKET_TRANSITIONS, TicketTransition } from './config.js'
+import { logger } from './utils/logger.js'
+
+/**
+ * One tenant as written to `.tenants.json`.
+ */
+const tenantSchema = z.object({
+	/** Autotask company ID of the customer the agent is deployed for; identifies the tenant */
+	companyId: z.number().int().positive(),
+	/** Autotask queue the tenant's tickets are filed in */
+	queueId: z.number().int().positive(),
+	/** Customer name, for logs */
+	name: z.string().min(1),
+	/** Bearer token the tenant's agent authenticates with, instead of MCP_AUTH_SECRET */
+	token: z.string().min(16).optional(),
+	/** Further companies the tenant's callers may belong to (subsidiaries, for instance) */
+	allowedCompanyIds: z.array(z.number().int().positive()).optional(),
+	/** Ticket status changes the tenant's agent may make; defaults to TICKET_UPDATE_TRANSITIONS */
+	ticketTransitions: z.array(z.enum(TICKET_TRANSITIONS)).optional()
+})
+
+/**
+ * The whole registry file: an array of tenants with unique company IDs and
+ * tokens.
+ * @internal
+ */
+const tenantsFileSchema = z.array(tenantSchema).superRefine((list, ctx) => {
+	const companyIds = new Set<number>()
+	const tokens = new Set<string>()
+	list.forEach((tenant, index) => {
+		if (companyIds.has(tenant.companyId)) {
+			ctx.addIssue({ code: 'custom', path: [index, 'companyId'], message: `Duplicate tenant ${tenant.companyId}` })
+		}
+		if (tenant.token && tokens.has(tenant.token)) {
+			ctx.addIssue({ code: 'custom', path: [index, 'token'], message: 'Token is shared with another tenant' })
+		}
+		companyIds.add(tenant.companyId)
+		if (tenant.token) {
+			tokens.add(tenant.token)
+		}
+	})
+})
+
+/**
+ * A customer served by this server.
+ */
+export type Tenant = z.infer<typeof tenantSchema>
+
+/**
+ * Registry health, reported on `/health`.
+ */
+export interface TenantRegistryStats {
+	/** Tenants loaded */
+	tenants: number
+	/** Sessions bound to a tenant */
+	boundSessions: number
+	/** ISO time the file was last loaded, or null if it never was */
+	loadedAt: string | null
+}
+
+/**
+ * Holds the tenants from the registry file and which tenant each MCP
+ * session serves.
+ *
+ * Sessions are bound by company ID rather than by tenant object, so a
+ * reload that changes a tenant's queue applies to calls already in
+ * progress. An invalid file is logged and the previous tenants are kept.
+ */
+export class TenantRegistry {
+	private readonly options: { path: string; reloadIntervalMs: number }
+	private tenants = new Map<number, Tenant>()
+	private readonly sessions = new Map<string, number>()
+	private loadedAt: number | null = null
+	private fileModifiedAt: number | null = null
+	private reloadTimer: NodeJS.Timeout | null = null
+
+	constructor(options: { path: string; reloadIntervalMs: number }) {
+		this.options = { ...options, path: resolve(process.cwd(), options.path) }
+	}
+
+	/**
+	 * Reads and validates the registry file. A missing file leaves the
+	 * registry empty.
+	 *
+	 * @returns True if the file was loaded; false if it was invalid and the previous tenants were kept
+	 */
+	load(): boolean {
+		const file = this.options.path
+		if (!existsSync(file)) {
+			if (this.tenants.size > 0 || this.loadedAt === null) {
+				logger.info({ file }, 'No tenants file found, serving without tenants')
+			}
+			this.tenants = new Map()
+			this.fileModifiedAt = null
+			this.loadedAt = Date.now()
+			return true
+		}
+
+		try {
+			this.fileModifiedAt = statSync(file).mtimeMs
+			const parsed = tenantsFileSchema.safeParse(JSON.parse(readFileSync(file, 'utf8')))
+			if (!parsed.success) {
+				logger.error({ file, issues: parsed.error.issues }, 'Invalid tenants file, keeping previous tenants')
+				return false
+			}
+
+			this.tenants = new Map(parsed.data.map((tenant) => [tenant.companyId, tenant]))
+			this.loadedAt = Date.now()
+			logger.info({ file, count: this.tenants.size }, 'Loaded tenants')
+			return true
+		} catch (error) {
+			logger.error({ error, file }, 'Error loading tenants file, keeping previous tenants')
+			return false
+		}
+	}
+
+	/**
+	 * Loads the file now and reloads it whenever it changes, checking on the
+	 * reload interval.
+	 */
+	startWatching(): void {
+		if (this.reloadTimer) {
+			return
+		}
+		this.load()
+		this.reloadTimer = setInterval(() => {
+			if (this.modifiedAt() !== this.fileModifiedAt) {
+				this.load()
+			}
+		}, this.options.reloadIntervalMs)
+		this.reloadTimer.unref()
+	}
+
+	/**
+	 * Stops the reloading started by {@link startWatching}.
+	 */
+	stopWatching(): void {
+		if (this.reloadTimer) {
+			clearInterval(this.reloadTimer)
+			this.reloadTimer = null
+		}
+	}
+
+	/**
+	 * Number of tenants configured.
+	 */
+	get size(): number {
+		return this.tenants.size
+	}
+
+	/**
+	 * Returns the tenant for a customer company ID.
+	 *
+	 * @param companyId - The tenant's Autotask company ID
+	 * @returns The tenant, or undefined if not configured
+	 */
+	byCompanyId(companyId: number): Tenant | undefined {
+		return this.tenants.get(companyId)
+	}
+
+	/**
+	 * Returns the tenant a bearer token belongs to. Tokens are compared in
+	 * constant time.
+	 *
+	 * @param token - Token as presented by the client
+	 * @returns The tenant, or undefined if no tenant has this token
+	 */
+	byToken(token: string): Tenant | undefined {
+		if (!token) {
+			return undefined
+		}
+		const provided = Buffer.from(token)
+		for (const tenant of this.tenants.values()) {
+			const expected = Buffer.from(tenant.token ?? '')
+			if (tenant.token && expected.length === provided.length && timingSafeEqual(expected, provided)) {
+				return tenant
+			}
+		}
+		return undefined
+	}
+
+	/**
+	 * Binds an MCP session to the tenant it serves.
+	 *
+	 * @param sessionId - The new session
+	 * @param tenant - The tenant the session's agent was deployed for
+	 */
+	bindSession(sessionId: string, tenant: Tenant): void {
+		this.sessions.set(sessionId, tenant.companyId)
+		logger.info({ sessionId, tenant: tenant.companyId, name: tenant.name }, 'Session bound to tenant')
+	}
+
+	/**
+	 * Drops a closed session's binding.
+	 *
+	 * @param sessionId - The closed session
+	 */
+	unbindSession(sessionId: string): void {
+		this.sessions.delete(sessionId)
+	}
+
+	/**
+	 * Returns the company ID of the tenant a session was bound to, whether or
+	 * not the tenant is still configured.
+	 *
+	 * @param sessionId - The session
+	 * @returns The tenant's company ID, or undefined if the session is not bound
+	 */
+	boundTenantId(sessionId: string): number | undefined {
+		return this.sessions.get(sessionId)
+	}
+
+	/**
+	 * Returns the tenant a session serves, as currently configured.
+	 *
+	 * @param sessionId - MCP session the tool call belongs to
+	 * @returns The tenant, or undefined if the session is not bound to one
+	 * @throws Error if the session's tenant has since been removed from the registry
+	 */
+	forSession(sessionId: string | undefined): Tenant | undefined {
+		const companyId = sessionId !== undefined ? this.sessions.get(sessionId) : undefined
+		if (companyId === undefined) {
+			return undefined
+		}
+		const tenant = this.tenants.get(companyId)
+		if (!tenant) {
+			throw new Error('This service desk is no longer configured for this customer. Transfer the caller to a technician.')
+		}
+		return tenant
+	}
+
+	/**
+	 * Returns registry counts for health reporting.
+	 */
+	stats(): TenantRegistryStats {
+		return {
+			tenants: this.tenants.size,
+			boundSessions: this.sessions.size,
+			loadedAt: this.loadedAt !== null ? new Date(this.loadedAt).toISOString() : null
+		}
+	}
+
+	/**
+	 * Modification time of the registry file, or null if it does not exist.
+	 * @internal
+	 */
+	private modifiedAt(): number | null {
+		try {
+			return statSync(this.options.path).mtimeMs
+		} catch {
+			return null
+		}
+	}
+}
+
+/**
+ * Companies a tenant's callers may belong to: the tenant's own company and
+ * any listed in `allowedCompanyIds`.
+ *
+ * @param tenant - The tenant
+ * @returns Company IDs
+ */
+export function tenantCompanyIds(tenant: Tenant): number[] {
+	return [tenant.companyId, ...(tenant.allowedCompanyIds ?? [])]
+}
+
+/**
+ * Ticket status changes a tenant's agent may make: the tenant's own
+ * `ticketTransitions`, or `TICKET_UPDATE_TRANSITIONS` if it has none.
+ *
+ * @param tenant - The tenant, or undefined for a session not bound to one
+ * @returns Allowed transitions
+ */
+export function tenantTransitions(tenant: Tenant | undefined): readonly TicketTransition[] {
+	return tenant?.ticketTransitions ?? config.ticketUpdates.allowedTransitions
+}
+
+/**
+ * Shared registry configured from application settings.
+ */
+export const tenants = new TenantRegistry(config.tenants)
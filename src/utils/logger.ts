@@ -12,6 +12,9 @@ import pino from 'pino'
  * - Configurable log level via `LOG_LEVEL` env var (defaults to 'info')
  * - Pretty-printed output in development via pino-pretty
  * - Automatic redaction of sensitive auth headers and Autotask credentials
+ * - Removal of verification answers, one-time codes and contact email
+ *   addresses and phone numbers from logged tool parameters and lookups, so
+ *   they never reach the logs in plaintext
  * 
  * @example
  * ```typescript
@@ -27,7 +30,22 @@ export const logger = pino({
         ? { target: 'pino-pretty', options: { colorize: true } }
         : undefined,
     redact: {
-        paths: ['req.headers.authorization', 'autotask.secret', 'autotask.apiIntegrationCode'],
+        paths: [
+            'req.headers.authorization',
+            'autotask.secret',
+            'autotask.apiIntegrationCode',
+            // Tool parameters, as logged when a tool handler is called
+            'params.code',
+            'params.emailAddress',
+            'params.phoneNumber',
+            'params.contactEmail',
+            'params.contactPhone',
+            // Contact details logged by the Autotask lookups and updates
+            'email',
+            'emailAddress',
+            'phone',
+            'phoneNumber'
+        ],
         remove: true
     }
 })
\ No newline at end of file
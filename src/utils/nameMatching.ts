@@ -0,0 +1,408 @@
+/**
+ * @fileoverview Fuzzy name comparison for speech-to-text transcripts, which
+ * mangle spelling ("Acme Incorporated" for "ACME Inc.", "Smyth" for
+ * "Smith") and word breaks ("North Wind" for "Northwind"), and for callers
+ * who give a nickname ("Bob" for "Robert"). Combines normalized tokens,
+ * nickname tables, a phonetic key and edit distance into a 0-1 similarity
+ * score.
+ * @module utils/nameMatching
+ */
+
+/**
+ * Legal-form and filler words dropped from company names before comparison.
+ * @internal
+ */
+const COMPANY_STOP_WORDS = new Set([
+	'the',
+	'inc',
+	'incorporated',
+	'llc',
+	'llp',
+	'lp',
+	'ltd',
+	'limited',
+	'corp',
+	'corporation',
+	'co',
+	'company',
+	'plc',
+	'pc',
+	'pllc',
+	'gmbh',
+	'ag',
+	'sa',
+	'bv',
+	'pty'
+])
+
+/**
+ * Number words folded to digits in company names ("Layer Seven" and
+ * "Layer7" compare equal).
+ * @internal
+ */
+const NUMBER_WORDS: Record<string, string> = {
+	zero: '0',
+	one: '1',
+	two: '2',
+	three: '3',
+	four: '4',
+	five: '5',
+	six: '6',
+	seven: '7',
+	eight: '8',
+	nine: '9',
+	ten: '10'
+}
+
+/**
+ * Groups of first names that refer to the same person. A name may appear in
+ * several groups ("Chris", "Alex").
+ * @internal
+ */
+const NICKNAME_GROUPS: string[][] = [
+	['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert'],
+	['william', 'bill', 'billy', 'will', 'willy', 'liam'],
+	['john', 'jon', 'johnny', 'jack'],
+	['jonathan', 'jon', 'jonny', 'nathan'],
+	['james', 'jim', 'jimmy', 'jamie'],
+	['michael', 'mike', 'mikey', 'mick'],
+	['richard', 'rick', 'ricky', 'rich', 'dick'],
+	['thomas', 'tom', 'tommy'],
+	['christopher', 'chris', 'kit'],
+	['christine', 'christina', 'chris', 'tina'],
+	['anthony', 'tony'],
+	['daniel', 'dan', 'danny'],
+	['david', 'dave', 'davey'],
+	['joseph', 'joe', 'joey'],
+	['edward', 'ed', 'eddie', 'ted', 'ned'],
+	['charles', 'charlie', 'chuck'],
+	['steven', 'stephen', 'steve'],
+	['matthew', 'matt'],
+	['andrew', 'andy', 'drew'],
+	['alexander', 'alex', 'al', 'xander'],
+	['alexandra', 'alex', 'lexi', 'sandra'],
+	['benjamin', 'ben', 'benny'],
+	['samuel', 'sam', 'sammy'],
+	['samantha', 'sam', 'sammy'],
+	['patrick', 'pat', 'paddy'],
+	['patricia', 'pat', 'patty', 'trish'],
+	['nicholas', 'nick', 'nicky'],
+	['timothy', 'tim', 'timmy'],
+	['gregory', 'greg'],
+	['jeffrey', 'geoffrey', 'jeff'],
+	['kenneth', 'ken', 'kenny'],
+	['ronald', 'ron', 'ronnie'],
+	['donald', 'don', 'donnie'],
+	['lawrence', 'larry'],
+	['gerald', 'gerry', 'jerry'],
+	['peter', 'pete'],
+	['philip', 'phillip', 'phil'],
+	['raymond', 'ray'],
+	['henry', 'hank', 'harry'],
+	['harold', 'harry', 'hal'],
+	['frederick', 'fred', 'freddie'],
+	['francis', 'frank'],
+	['franklin', 'frank'],
+	['zachary', 'zach', 'zack'],
+	['joshua', 'josh'],
+	['nathaniel', 'nathan', 'nate', 'nat'],
+	['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'eliza'],
+	['margaret', 'maggie', 'meg', 'peggy'],
+	['katherine', 'catherine', 'kathryn', 'kate', 'katie', 'kathy', 'cathy'],
+	['jennifer', 'jen', 'jenny'],
+	['susan', 'sue', 'suzy'],
+	['deborah', 'debra', 'deb', 'debbie'],
+	['rebecca', 'becky', 'becca'],
+	['victoria', 'vicky', 'tori'],
+	['abigail', 'abby'],
+	['allison', 'alison', 'ali', 'allie'],
+	['amanda', 'mandy'],
+	['barbara', 'barb'],
+	['dorothy', 'dot', 'dottie'],
+	['judith', 'judy'],
+	['kimberly', 'kim'],
+	['pamela', 'pam'],
+	['sandra', 'sandy'],
+	['theresa', 'teresa', 'terry', 'tess']
+]
+
+/**
+ * First names mapped to the indexes of their nickname groups.
+ * @internal
+ */
+const NICKNAME_INDEX = NICKNAME_GROUPS.reduce((index, group, i) => {
+	for (const name of group) {
+		index.set(name, [...(index.get(name) ?? []), i])
+	}
+	return index
+}, new Map<string, number[]>())
+
+/**
+ * Splits a name into lower-case alphanumeric tokens. "&" becomes "and" and
+ * apostrophes are removed so "O'Brien" stays one token.
+ *
+ * @param name - Name as written or transcribed
+ * @returns Tokens in order
+ */
+export function nameTokens(name: string): string[] {
+	return name
+		.toLowerCase()
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/&/g, ' and ')
+		.replace(/['’]/g, '')
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean)
+}
+
+/**
+ * Tokenizes a company name with legal suffixes and "the" removed and number
+ * words written as digits. If nothing but stop words remains, the full token
+ * list is kept.
+ *
+ * @param name - Company name
+ * @returns Significant tokens
+ *
+ * @example
+ * ```typescript
+ * companyNameTokens('ACME, Inc.')       // ['acme']
+ * companyNameTokens('Acme Incorporated') // ['acme']
+ * companyNameTokens('Smith & Sons LLC')  // ['smith', 'and', 'sons']
+ * ```
+ */
+export function companyNameTokens(name: string): string[] {
+	const tokens = nameTokens(name).map((token) => NUMBER_WORDS[token] ?? token)
+	const significant = tokens.filter((token) => !COMPANY_STOP_WORDS.has(token))
+	return significant.length > 0 ? significant : tokens
+}
+
+/**
+ * Computes a phonetic key for a word or compacted name, so that words that
+ * sound alike compare equal ("Northwind"/"Northwynd", "Philips"/"Fillips").
+ *
+ * A simplified Metaphone: common digraphs are folded to one sound, soft and
+ * hard C/G are told apart, vowels after the first letter and silent letters
+ * are dropped, and repeated sounds collapse.
+ *
+ * @param word - Lower-case word; non-letters are ignored
+ * @returns The phonetic key (may be empty)
+ */
+export function phoneticKey(word: string): string {
+	let text = word.toLowerCase().replace(/[^a-z]/g, '')
+	if (!text) {
+		return ''
+	}
+
+	text = text
+		.replace(/^kn|^gn|^pn|^wr|^ps/, (m) => m.slice(1))
+		.replace(/^x/, 's')
+		.replace(/x/g, 'ks')
+		.replace(/^wh/, 'w')
+		.replace(/mb$/, 'm')
+		.replace(/sch/g, 'sk')
+		.replace(/ph/g, 'f')
+		.replace(/ck/g, 'k')
+		.replace(/dg(?=[eiy])/g, 'j')
+		.replace(/gh(?![aeiou])/g, '')
+		.replace(/c(?=[eiy])/g, 's')
+		.replace(/g(?=[eiy])/g, 'j')
+		.replace(/th/g, '0')
+		.replace(/sh|ti(?=[ao])|ch/g, 'x')
+		.replace(/qu?/g, 'k')
+		.replace(/c/g, 'k')
+		.replace(/z/g, 's')
+		.replace(/v/g, 'f')
+		.replace(/d/g, 't')
+
+	const first = text[0]
+	const rest = text.slice(1).replace(/[aeiouyhw]/g, '')
+	return (first + rest).replace(/(.)\1+/g, '$1')
+}
+
+/**
+ * Levenshtein edit distance between two strings.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character insertions, deletions and substitutions
+ */
+export function editDistance(a: string, b: string): number {
+	if (a === b) {
+		return 0
+	}
+	if (!a.length || !b.length) {
+		return a.length + b.length
+	}
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i]
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+		}
+		previous = current
+	}
+	return previous[b.length]
+}
+
+/**
+ * Edit-distance similarity scaled to 0-1 (1 means identical).
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Similarity score
+ */
+export function stringSimilarity(a: string, b: string): number {
+	const length = Math.max(a.length, b.length)
+	return length === 0 ? 1 : 1 - editDistance(a, b) / length
+}
+
+/**
+ * Scores how likely two token lists name the same thing.
+ *
+ * Takes the best of: similarity of the names with spaces removed (so word
+ * breaks do not matter), similarity of their phonetic keys, the average
+ * best per-token match, and a prefix match when the heard name is the start
+ * of the stored one.
+ *
+ * @param heard - Tokens of the name as heard
+ * @param stored - Tokens of the name on record
+ * @returns Score between 0 and 1
+ */
+export function tokenSimilarity(heard: string[], stored: string[]): number {
+	const heardCompact = heard.join('')
+	const storedCompact = stored.join('')
+	if (!heardCompact || !storedCompact) {
+		return 0
+	}
+	if (heardCompact === storedCompact) {
+		return 1
+	}
+
+	const compact = stringSimilarity(heardCompact, storedCompact)
+	const heardKey = phoneticKey(heardCompact)
+	const storedKey = phoneticKey(storedCompact)
+	const phonetic = heardKey && heardKey === storedKey ? 0.95 : 0.9 * stringSimilarity(heardKey, storedKey)
+
+	const perToken =
+		heard.reduce((sum, token) => {
+			const best = Math.max(
+				...stored.map((candidate) =>
+					candidate === token
+						? 1
+						: phoneticKey(candidate) === phoneticKey(token) && phoneticKey(token)
+							? 0.9
+							: stringSimilarity(candidate, token)
+				)
+			)
+			return sum + best
+		}, 0) / Math.max(heard.length, stored.length)
+
+	const prefix = storedCompact.startsWith(heardCompact) && heardCompact.length >= 3 ? 0.8 : 0
+
+	return Math.max(compact, phonetic, 0.9 * perToken, prefix)
+}
+
+/**
+ * Scores a company name as heard against a company name on record.
+ *
+ * @param heard - Company name from the transcript
+ * @param stored - Company name in Autotask
+ * @returns Score between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * companyNameSimilarity('Acme Incorporated', 'ACME Inc.') // 1
+ * companyNameSimilarity('North Wind', 'Northwind Traders') // 0.8 (prefix)
+ * ```
+ */
+export function companyNameSimilarity(heard: string, stored: string): number {
+	return tokenSimilarity(companyNameTokens(heard), companyNameTokens(stored))
+}
+
+/**
+ * Whether two first names are known variants of each other ("Bob" and
+ * "Robert", "Kate" and "Katherine").
+ *
+ * @param a - First name
+ * @param b - First name
+ * @returns True if both names share a nickname group
+ */
+export function isNickname(a: string, b: string): boolean {
+	const groups = NICKNAME_INDEX.get(a.toLowerCase())
+	return !!groups && groups.some((group) => NICKNAME_INDEX.get(b.toLowerCase())?.includes(group))
+}
+
+/**
+ * Scores one name part: exact 1, nickname 0.95, sound-alike with similar
+ * spelling 0.9, otherwise edit-distance similarity.
+ * @internal
+ */
+function namePartSimilarity(heard: string, stored: string, allowNicknames: boolean): number {
+	const a = nameTokens(heard).join('')
+	const b = nameTokens(stored).join('')
+	if (!a || !b) {
+		return 0
+	}
+	if (a === b) {
+		return 1
+	}
+	if (allowNicknames && isNickname(a, b)) {
+		return 0.95
+	}
+	const similarity = stringSimilarity(a, b)
+	// Short names share phonetic keys too easily ("Jane"/"John"), so sounding
+	// alike only counts when the spelling is close as well
+	const key = phoneticKey(a)
+	if (key && key === phoneticKey(b) && similarity >= 0.6) {
+		return 0.9
+	}
+	return similarity
+}
+
+/**
+ * Scores a person's name as heard against a contact on record. The last
+ * name carries more weight, since first names are where nicknames and
+ * informal spellings turn up.
+ *
+ * @param heard - First and last name from the transcript
+ * @param stored - First and last name in Autotask
+ * @returns Score between 0 and 1; 1 only for an exact match
+ *
+ * @example
+ * ```typescript
+ * personNameSimilarity({ firstName: 'Bob', lastName: 'Jones' }, { firstName: 'Robert', lastName: 'Jones' }) // 0.98
+ * personNameSimilarity({ firstName: 'John', lastName: 'Smyth' }, { firstName: 'John', lastName: 'Smith' }) // 0.94
+ * ```
+ */
+export function personNameSimilarity(
+	heard: { firstName: string; lastName: string },
+	stored: { firstName: string; lastName: string }
+): number {
+	const first = namePartSimilarity(heard.firstName, stored.firstName, true)
+	const last = namePartSimilarity(heard.lastName, stored.lastName, false)
+	return 0.4 * first + 0.6 * last
+}
+
+/**
+ * How sure a name match is.
+ */
+export type MatchConfidence = 'exact' | 'high' | 'medium' | 'low'
+
+/**
+ * Buckets a similarity score for the agent: `exact` (1), `high` (0.9 and
+ * above), `medium` (0.75 and above) or `low`.
+ *
+ * @param score - Similarity score between 0 and 1
+ * @returns The confidence bucket
+ */
+export function matchConfidence(score: number): MatchConfidence {
+	if (score >= 1) {
+		return 'exact'
+	}
+	if (score >= 0.9) {
+		return 'high'
+	}
+	return score >= 0.75 ? 'medium' : 'low'
+}
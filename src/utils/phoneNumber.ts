@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Phone number normalization for matching caller ID against
+ * numbers stored in Autotask in whatever format they were typed
+ * (e.g., "555-101-0001", "(555) 101-0001 x12", "+1 555 101 0001").
+ * @module utils/phoneNumber
+ */
+
+/**
+ * Minimum digits for a value to be treated as a phone number rather than an
+ * extension.
+ * @internal
+ */
+const MIN_PHONE_DIGITS = 7
+
+/**
+ * Strips everything but digits from a phone number, dropping any extension
+ * ("x12", "ext. 12").
+ *
+ * @param phone - Phone number in any format
+ * @returns Digits-only phone number
+ *
+ * @example
+ * ```typescript
+ * phoneDigits('(555) 101-0001 x12') // '5551010001'
+ * ```
+ */
+export function phoneDigits(phone: string): string {
+	return phone.split(/x|ext/i)[0].replace(/\D/g, '')
+}
+
+/**
+ * Converts a phone number to E.164 form.
+ *
+ * Numbers written with a leading "+" or "00" are taken as international.
+ * Otherwise the default country code is added unless the number already
+ * starts with it and is one digit longer than a national number.
+ *
+ * @param phone - Phone number in any format
+ * @param defaultCountryCode - Country calling code assumed for national numbers (e.g., '1')
+ * @returns The E.164 number, or null if the input has too few digits
+ *
+ * @example
+ * ```typescript
+ * toE164('555-101-0001', '1')     // '+15551010001'
+ * toE164('1 (555) 101-0001', '1') // '+15551010001'
+ * toE164('+44 20 7946 0958', '1') // '+442079460958'
+ * ```
+ */
+export function toE164(phone: string, defaultCountryCode: string): string | null {
+	const trimmed = phone.trim()
+	const digits = phoneDigits(trimmed)
+	if (digits.length < MIN_PHONE_DIGITS) {
+		return null
+	}
+	if (trimmed.startsWith('+')) {
+		return `+${digits}`
+	}
+	if (trimmed.startsWith('00')) {
+		return `+${digits.slice(2)}`
+	}
+	// Already prefixed with the country code, e.g. 1-555-101-0001 (assumes 10-digit national numbers)
+	if (digits.startsWith(defaultCountryCode) && digits.length === 10 + defaultCountryCode.length) {
+		return `+${digits}`
+	}
+	return `+${defaultCountryCode}${digits}`
+}
+
+/**
+ * Compares two phone numbers regardless of formatting.
+ *
+ * @param a - First phone number
+ * @param b - Second phone number
+ * @param defaultCountryCode - Country calling code assumed for national numbers
+ * @returns True if both normalize to the same E.164 number
+ */
+export function phoneNumbersMatch(a: string, b: string, defaultCountryCode: string): boolean {
+	const left = toE164(a, defaultCountryCode)
+	return left !== null && left === toE164(b, defaultCountryCode)
+}
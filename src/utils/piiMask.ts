@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Masked forms of contact details that can be shown to the
+ * voice agent (and read to a caller) without disclosing them, e.g.
+ * "j***@a***.example" or "ending in 0001".
+ * @module utils/piiMask
+ */
+import { phoneDigits } from './phoneNumber.js'
+
+/**
+ * Masks an email address, keeping the first letter of the mailbox and of
+ * the domain, and the top-level domain.
+ *
+ * @param email - Email address
+ * @returns The masked address, or undefined if there is none
+ *
+ * @example
+ * ```typescript
+ * maskEmail('john.smith@acme.example') // 'j***@a***.example'
+ * ```
+ */
+export function maskEmail(email: string | undefined): string | undefined {
+	const [local, domain] = (email ?? '').trim().split('@')
+	if (!local || !domain) {
+		return undefined
+	}
+	const dot = domain.lastIndexOf('.')
+	const topLevel = dot > 0 ? domain.slice(dot) : ''
+	return `${local[0]}***@${domain[0]}***${topLevel}`
+}
+
+/**
+ * Describes a phone number by its last four digits.
+ *
+ * @param phone - Phone number in any format
+ * @returns A phrase like "ending in 0001", or undefined if there is no number
+ *
+ * @example
+ * ```typescript
+ * maskPhone('(555) 101-0001 x12') // 'ending in 0001'
+ * ```
+ */
+export function maskPhone(phone: string | undefined): string | undefined {
+	const digits = phoneDigits(phone ?? '')
+	return digits.length >= 4 ? `ending in ${digits.slice(-4)}` : undefined
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Normalization of identifiers as callers say them and as
+ * speech-to-text transcribes them (e.g., "T 2024 0101 dot 0001",
+ * "john dot smith at acme dot com").
+ * @module utils/spokenInput
+ */
+
+/**
+ * Spoken words mapped to the characters they stand for.
+ * @internal
+ */
+const SPOKEN_CHARACTERS: Record<string, string> = {
+	zero: '0',
+	oh: '0',
+	o: '0',
+	one: '1',
+	two: '2',
+	to: '2',
+	too: '2',
+	three: '3',
+	four: '4',
+	for: '4',
+	five: '5',
+	six: '6',
+	seven: '7',
+	eight: '8',
+	nine: '9',
+	dot: '.',
+	point: '.',
+	period: '.',
+	tee: 't'
+}
+
+/**
+ * Replaces spoken digit and punctuation words with their characters and
+ * expands "double"/"triple" repeats ("double oh" becomes "00").
+ *
+ * @param text - Transcribed text
+ * @returns Space-separated tokens with words converted
+ * @internal
+ */
+function convertSpokenWords(text: string): string[] {
+	const tokens = text.toLowerCase().split(/[\s,;:-]+/).filter(Boolean)
+	const result: string[] = []
+	for (let i = 0; i < tokens.length; i++) {
+		const repeat = tokens[i] === 'double' ? 2 : tokens[i] === 'triple' ? 3 : 1
+		if (repeat > 1 && i + 1 < tokens.length) {
+			const next = SPOKEN_CHARACTERS[tokens[i + 1]] ?? tokens[i + 1]
+			result.push(next.repeat(repeat))
+			i++
+			continue
+		}
+		result.push(SPOKEN_CHARACTERS[tokens[i]] ?? tokens[i])
+	}
+	return result
+}
+
+/**
+ * Normalizes a spoken or transcribed Autotask ticket number to the canonical
+ * `TYYYYMMDD.NNNN` form.
+ *
+ * Accepts the canonical form, spaced or hyphenated digits, spoken digits and
+ * "dot"/"point", and a missing leading "T". A short sequence after the dot
+ * is zero-padded ("dot 1" becomes ".0001").
+ *
+ * @param input - Ticket number as heard
+ * @returns The canonical ticket number, or null if it cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * normalizeTicketNumber('T 2024 0101 dot 0001') // 'T20240101.0001'
+ * normalizeTicketNumber('t20240101-0001')        // 'T20240101.0001'
+ * normalizeTicketNumber('2024 01 01 point 12')   // 'T20240101.0012'
+ * ```
+ */
+export function normalizeTicketNumber(input: string): string | null {
+	const compact = convertSpokenWords(input)
+		.join('')
+		.replace(/[^0-9t.]/g, '')
+		.replace(/^t/, '')
+
+	const dotted = compact.match(/^(\d{8})\.+(\d{1,4})$/)
+	if (dotted) {
+		return `T${dotted[1]}.${dotted[2].padStart(4, '0')}`
+	}
+
+	const plain = compact.match(/^(\d{8})(\d{4})$/)
+	if (plain) {
+		return `T${plain[1]}.${plain[2]}`
+	}
+
+	return null
+}
+
+/**
+ * Spoken words mapped to the characters they stand for in an email address.
+ * Kept separate from {@link SPOKEN_CHARACTERS}: in an email "o", "to" and
+ * "for" are usually letters or words, not digits.
+ * @internal
+ */
+const SPOKEN_EMAIL_CHARACTERS: Record<string, string> = {
+	dot: '.',
+	period: '.',
+	point: '.',
+	underscore: '_',
+	dash: '-',
+	hyphen: '-',
+	minus: '-',
+	plus: '+',
+	zero: '0',
+	one: '1',
+	two: '2',
+	three: '3',
+	four: '4',
+	five: '5',
+	six: '6',
+	seven: '7',
+	eight: '8',
+	nine: '9'
+}
+
+/**
+ * Shape of a plausible email address after normalization.
+ * @internal
+ */
+const EMAIL_PATTERN = /^[a-z0-9._%+'-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/
+
+/**
+ * Normalizes a spoken or transcribed email address.
+ *
+ * Accepts a written address, spoken "at"/"at sign" and "dot", spelled-out
+ * letters, "underscore"/"dash"/"plus", digit words and "double"/"triple"
+ * repeats. Words are joined without spaces. Only the first "at" becomes
+ * "@", so a later "at" is kept as letters.
+ *
+ * @param input - Email address as heard
+ * @returns The lower-cased address, or null if it does not look like an email
+ *
+ * @example
+ * ```typescript
+ * normalizeSpokenEmail('john dot smith at acme dot com')      // 'john.smith@acme.com'
+ * normalizeSpokenEmail('J O H N underscore S at gmail.com')   // 'john_s@gmail.com'
+ * normalizeSpokenEmail('bob at sign acme logistics dot com')  // 'bob@acmelogistics.com'
+ * ```
+ */
+export function normalizeSpokenEmail(input: string): string | null {
+	const tokens = input
+		.toLowerCase()
+		.split(/[\s,;]+/)
+		.map((token) => token.replace(/^[.]+|[.]+$/g, ''))
+		.filter(Boolean)
+
+	let email = ''
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i]
+		if ((token === 'at' || token === '@') && !email.includes('@')) {
+			email += '@'
+			if (tokens[i + 1] === 'sign' || tokens[i + 1] === 'symbol') {
+				i++
+			}
+			continue
+		}
+		const repeat = token === 'double' ? 2 : token === 'triple' ? 3 : 1
+		if (repeat > 1 && i + 1 < tokens.length) {
+			email += (SPOKEN_EMAIL_CHARACTERS[tokens[i + 1]] ?? tokens[i + 1]).repeat(repeat)
+			i++
+			continue
+		}
+		email += SPOKEN_EMAIL_CHARACTERS[token] ?? token
+	}
+
+	return EMAIL_PATTERN.test(email) ? email : null
+}
+
+/**
+ * Reduces a spoken or transcribed number (a phone number, the last four
+ * digits of one) to its digits.
+ *
+ * @param input - Number as heard
+ * @returns The digits, possibly empty
+ *
+ * @example
+ * ```typescript
+ * normalizeSpokenDigits('oh one double two')  // '0122'
+ * normalizeSpokenDigits('(555) 101-0001')     // '5551010001'
+ * ```
+ */
+export function normalizeSpokenDigits(input: string): string {
+	return convertSpokenWords(input).join('').replace(/\D/g, '')
+}
+
+/**
+ * Reduces a spoken or transcribed phone number to its digits, keeping a
+ * leading "+" (or spoken "plus") so that an international number still
+ * carries its country code.
+ *
+ * @param input - Phone number as heard
+ * @returns The digits, prefixed with "+" if the caller gave one, possibly empty
+ *
+ * @example
+ * ```typescript
+ * normalizeSpokenPhoneNumber('plus four four 20 7946 0958')  // '+442079460958'
+ * normalizeSpokenPhoneNumber('(555) 101-0001')               // '5551010001'
+ * ```
+ */
+export function normalizeSpokenPhoneNumber(input: string): string {
+	const digits = normalizeSpokenDigits(input)
+	return digits && /^\s*(\+|plus\b)/i.test(input) ? `+${digits}` : digits
+}
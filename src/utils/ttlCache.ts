@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Minimal in-process key/value cache with per-entry expiry.
+ * @module utils/ttlCache
+ */
+
+/**
+ * Map-like cache whose entries expire after a fixed time-to-live.
+ *
+ * Expired entries are dropped lazily on access and swept whenever a new
+ * entry is stored, so no timers are needed.
+ *
+ * @typeParam K - Key type
+ * @typeParam V - Value type
+ *
+ * @example
+ * ```typescript
+ * const cache = new TtlCache<string, number>(60_000)
+ * cache.set('a', 1)
+ * cache.get('a') // 1, until a minute has passed
+ * ```
+ */
+export class TtlCache<K, V> {
+	private readonly entries = new Map<K, { value: V; expiresAt: number }>()
+	private readonly ttlMs: number
+
+	/**
+	 * @param ttlMs - Lifetime of each entry in milliseconds
+	 */
+	constructor(ttlMs: number) {
+		this.ttlMs = ttlMs
+	}
+
+	/**
+	 * Returns the value for a key, or undefined if missing or expired.
+	 */
+	get(key: K): V | undefined {
+		const entry = this.entries.get(key)
+		if (!entry) {
+			return undefined
+		}
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key)
+			return undefined
+		}
+		return entry.value
+	}
+
+	/**
+	 * Stores a value, resetting its time-to-live.
+	 *
+	 * @param key - Entry key
+	 * @param value - Entry value
+	 * @param ttlMs - Optional lifetime overriding the cache default
+	 */
+	set(key: K, value: V, ttlMs: number = this.ttlMs): this {
+		this.prune()
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+		return this
+	}
+
+	/**
+	 * Removes an entry.
+	 *
+	 * @returns True if an entry was removed
+	 */
+	delete(key: K): boolean {
+		return this.entries.delete(key)
+	}
+
+	/**
+	 * Number of entries, including any not yet swept.
+	 */
+	get size(): number {
+		return this.entries.size
+	}
+
+	/**
+	 * Removes all expired entries.
+	 */
+	prune(): void {
+		const now = Date.now()
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) {
+				this.entries.delete(key)
+			}
+		}
+	}
+}
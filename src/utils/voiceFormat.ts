@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Helpers that turn API data into short phrases a voice agent
+ * can read aloud naturally.
+ * @module utils/voiceFormat
+ */
+
+/**
+ * Describes a date relative to now the way a person would say it:
+ * "today", "yesterday", a weekday within the last week, otherwise the
+ * month and day (with the year if it differs).
+ *
+ * @param iso - ISO 8601 timestamp
+ * @param now - Reference time (defaults to the current time)
+ * @returns A spoken phrase, or undefined if the date is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * describeDay('2024-01-02T10:30:00Z', new Date('2024-01-04T12:00:00Z')) // 'Tuesday'
+ * ```
+ */
+export function describeDay(iso: string | undefined, now: Date = new Date()): string | undefined {
+	const date = iso ? new Date(iso) : undefined
+	if (!date || isNaN(date.getTime())) {
+		return undefined
+	}
+
+	const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+	const days = Math.round((startOfDay(now) - startOfDay(date)) / (24 * 60 * 60 * 1000))
+
+	if (days <= 0) {
+		return 'today'
+	}
+	if (days === 1) {
+		return 'yesterday'
+	}
+	if (days < 7) {
+		return date.toLocaleDateString('en-US', { weekday: 'long' })
+	}
+	return date.toLocaleDateString('en-US', {
+		month: 'long',
+		day: 'numeric',
+		year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric'
+	})
+}
+
+/**
+ * Shortens text to a maximum length on a word boundary.
+ *
+ * @param text - Text to shorten
+ * @param maxLength - Maximum length including the trailing ellipsis
+ * @returns The original text, or a shortened copy ending in '...'
+ */
+export function truncate(text: string, maxLength: number): string {
+	const trimmed = text.trim()
+	if (trimmed.length <= maxLength) {
+		return trimmed
+	}
+	const cut = trimmed.slice(0, maxLength - 3)
+	const lastSpace = cut.lastIndexOf(' ')
+	return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}...`
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Tests for zone discovery and retries in the Autotask client,
+ * against the mock Autotask server.
+ * @module test/autotaskClient
+ */
+import assert from 'node:assert/strict'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, beforeEach, describe, it } from 'node:test'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask()
+const { AutotaskClient, AutotaskApiError } = await import('../src/api/autotaskClient.js')
+const { config } = await import('../src/config.js')
+
+after(() => mock.close())
+
+beforeEach(() => {
+	mock.server.reset()
+	mock.server.setFaults({ mode: 'none', rate: 1 })
+	mock.requests.length = 0
+})
+
+/**
+ * A client for the mock with test-friendly timings.
+ */
+function client(options: Partial<ConstructorParameters<typeof AutotaskClient>[0]> = {}) {
+	return new AutotaskClient({
+		hostname: 'fallback.invalid',
+		zoneDiscoveryUrl: '',
+		zoneRetryMs: 60_000,
+		baseUrl: `${mock.url}/ATServicesRest/V1.0`,
+		apiIntegrationCode: 'code',
+		username: 'api@example.com',
+		secret: 'secret',
+		timeoutMs: 2000,
+		maxRetries: 2,
+		retryBaseDelayMs: 5,
+		maxRetryAfterMs: 20,
+		rateLimit: config.autotask.rateLimit,
+		maxQueryPages: 10,
+		...options
+	})
+}
+
+/**
+ * Requests the mock received for an API path, ignoring threshold polling.
+ */
+function calls(path: string): number {
+	return mock.requests.filter((request) => request.endsWith(path)).length
+}
+
+describe('zone discovery', () => {
+	it('uses the zone URL the lookup returns', async () => {
+		const discovering = client({ baseUrl: undefined, zoneDiscoveryUrl: `${mock.url}/atservicesrest` })
+		assert.equal(await discovering.getBaseUrl(), `${mock.url}/ATServicesRest/V1.0`)
+	})
+
+	it('falls back to the configured hostname and retries discovery later', async () => {
+		let lookups = 0
+		const zoneService = createServer((_req, res) => {
+			lookups++
+			if (lookups === 1) {
+				res.writeHead(503).end()
+				return
+			}
+			res.writeHead(200, { 'content-type': 'application/json' })
+			res.end(JSON.stringify({ zoneName: 'Test', url: 'https://zone.example/ATServicesRest/' }))
+		})
+		await new Promise<void>((resolve) => zoneService.listen(0, '127.0.0.1', resolve))
+		after(() => zoneService.close())
+
+		const { port } = zoneService.address() as AddressInfo
+		const discovering = client({ baseUrl: undefined, zoneDiscoveryUrl: `http://127.0.0.1:${port}`, zoneRetryMs: 50 })
+
+		assert.equal(await discovering.getBaseUrl(), 'https://fallback.invalid/ATServicesRest/V1.0')
+		assert.equal(await discovering.getBaseUrl(), 'https://fallback.invalid/ATServicesRest/V1.0')
+		assert.equal(lookups, 1)
+
+		await new Promise((resolve) => setTimeout(resolve, 60))
+		assert.equal(await discovering.getBaseUrl(), 'https://zone.example/ATServicesRest/V1.0')
+		assert.equal(lookups, 2)
+	})
+})
+
+describe('retries', () => {
+	it('retries reads on server errors', async () => {
+		mock.server.setFaults({ mode: 'server_error' })
+		await assert.rejects(client().get('/Tickets/3001'), (error) => error instanceof AutotaskApiError && error.status === 500)
+		assert.equal(calls('/Tickets/3001'), 3)
+	})
+
+	it('retries queries on server errors', async () => {
+		mock.server.setFaults({ mode: 'server_error' })
+		await assert.rejects(client().post('/Companies/query', { filter: [{ op: 'eq', field: 'id', value: 1001 }] }))
+		assert.equal(calls('/Companies/query'), 3)
+	})
+
+	it('does not repeat a create after a server error', async () => {
+		mock.server.setFaults({ mode: 'server_error' })
+		await assert.rejects(client().post('/Tickets', { companyID: 1001, title: 'Test' }))
+		assert.equal(calls('/Tickets'), 1)
+	})
+
+	it('repeats a create that was throttled, waiting at most maxRetryAfterMs', async () => {
+		mock.server.setFaults({ mode: 'rate_limit' })
+		const started = Date.now()
+		await assert.rejects(client().post('/Tickets', { companyID: 1001, title: 'Test' }), (error) => error instanceof AutotaskApiError && error.status === 429)
+		assert.equal(calls('/Tickets'), 3)
+		assert.ok(Date.now() - started < 1000, 'Retry-After should be capped')
+	})
+
+	it('repeats a create when the connection is refused', async () => {
+		// Find a port nothing listens on
+		const probe = createServer()
+		await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve))
+		const { port } = probe.address() as AddressInfo
+		await new Promise((resolve) => probe.close(resolve))
+
+		const refused = client({ baseUrl: `http://127.0.0.1:${port}/ATServicesRest/V1.0` })
+		await assert.rejects(refused.post('/Tickets', {}), (error) => error instanceof AutotaskApiError && !error.sent)
+	})
+
+	it('succeeds once a fault clears', async () => {
+		mock.server.setFaults({ mode: 'server_error', rate: 0 })
+		const data = await client().get<{ item: { id: number } }>('/Tickets/3001')
+		assert.equal(data.item.id, 3001)
+	})
+})
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Tests of the entity metadata cache: picklist labels and
+ * values, validating tool input against them, and carrying on when the
+ * metadata endpoint fails.
+ * @module test/autotaskMetadata
+ */
+import assert from 'node:assert/strict'
+import { after, afterEach, describe, it } from 'node:test'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask()
+const { MetadataService } = await import('../src/api/autotaskMetadata.js')
+const { autotaskClient } = await import('../src/api/autotaskClient.js')
+
+after(() => mock.close())
+
+afterEach(() => {
+	mock.server.setFaults({ mode: 'none', rate: 1 })
+})
+
+/**
+ * Metadata requests the mock received for an entity.
+ */
+function metadataRequests(entity: string): number {
+	return mock.requests.filter((request) => request.endsWith(`/${entity}/entityInformation/fields`)).length
+}
+
+describe('entity metadata', () => {
+	it('maps picklist labels and values both ways', async () => {
+		const metadata = new MetadataService(autotaskClient, 60_000)
+
+		assert.equal(await metadata.labelFor('Tickets', 'status', 7), 'Waiting Customer')
+		assert.equal(await metadata.valueFor('Tickets', 'priority', ' high '), 1)
+		assert.equal(await metadata.valueFor('Tickets', 'priority', '3'), 3)
+		assert.equal(await metadata.valueFor('Tickets', 'priority', 'Urgent'), undefined)
+		assert.equal((await metadata.getDefault('Tickets', 'priority'))?.label, 'Medium')
+	})
+
+	it('loads an entity once for concurrent lookups', async () => {
+		const metadata = new MetadataService(autotaskClient, 60_000)
+		const before = metadataRequests('Contacts')
+
+		await Promise.all([metadata.getFields('Contacts'), metadata.getField('Contacts', 'firstName')])
+		assert.equal(metadataRequests('Contacts'), before + 1)
+	})
+
+	it('rejects an unknown label, listing the valid ones', async () => {
+		const metadata = new MetadataService(autotaskClient, 60_000)
+		await assert.rejects(
+			metadata.resolveValue('Tickets', 'priority', 'Urgent'),
+			/Unknown priority "Urgent"\. Valid options: Critical, High, Medium, Low/
+		)
+	})
+
+	it('keeps serving metadata it has when a reload fails', async () => {
+		// Always stale, so every lookup reloads
+		const metadata = new MetadataService(autotaskClient, 0)
+		await metadata.getFields('Tickets')
+
+		mock.server.setFaults({ mode: 'server_error', rate: 1 })
+		assert.equal(await metadata.labelFor('Tickets', 'status', 1), 'New')
+	})
+
+	it('passes numeric codes through when metadata cannot be loaded, but not labels', async () => {
+		const metadata = new MetadataService(autotaskClient, 60_000)
+		mock.server.setFaults({ mode: 'server_error', rate: 1 })
+
+		assert.equal(await metadata.resolveValue('Tickets', 'priority', '2'), 2)
+		await assert.rejects(metadata.resolveValue('Tickets', 'priority', 'High'))
+		assert.equal(await metadata.labelOrCode('Tickets', 'priority', 2), 2)
+	})
+})
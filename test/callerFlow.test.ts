@@ -0,0 +1,413 @@
+/**
+ * @fileoverview End-to-end tests of a caller's path through the MCP tools
+ * (look up, verify, list and create tickets) against the mock Autotask
+ * server.
+ * @module test/callerFlow
+ */
+import assert from 'node:assert/strict'
+import { randomUUID } from 'node:crypto'
+import { after, beforeEach, describe, it } from 'node:test'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask()
+const { lookupCompanyContactHandler } = await import('../src/mcp/tools/lookupCompanyContact.js')
+const { lookupContactByPhoneHandler } = await import('../src/mcp/tools/lookupContactByPhone.js')
+const { verifyCallerHandler } = await import('../src/mcp/tools/verifyCaller.js')
+const { listOpenTicketsHandler } = await import('../src/mcp/tools/listOpenTickets.js')
+const { createTicketHandler, ticketOutbox } = await import('../src/mcp/tools/createTicket.js')
+const { getTicketHandler } = await import('../src/mcp/tools/getTicket.js')
+const { updateTicketHandler } = await import('../src/mcp/tools/updateTicket.js')
+const { config } = await import('../src/config.js')
+
+after(async () => {
+	ticketOutbox.stopWorker()
+	await mock.close()
+})
+
+beforeEach(() => {
+	mock.server.reset()
+})
+
+/**
+ * Parses a tool result's JSON body.
+ */
+function body(result: CallToolResult): Record<string, unknown> {
+	const [content] = result.content
+	assert.equal(content.type, 'text')
+	return JSON.parse(content.type === 'text' ? content.text : '')
+}
+
+/**
+ * A fresh call: its own MCP session and Retell call ID.
+ */
+function newCall() {
+	return { sessionId: randomUUID(), externalID: `call-${randomUUID()}` }
+}
+
+/**
+ * Looks John Smith of Acme Corporation up on a call.
+ */
+async function lookUpJohn(call: { sessionId: string; externalID: string }) {
+	return body(
+		await lookupCompanyContactHandler(
+			{ firstName: 'John', lastName: 'Smith', organizationName: 'Acme Corporation', externalID: call.externalID },
+			call.sessionId
+		)
+	)
+}
+
+describe('lookup', () => {
+	it('finds an existing contact by name and organization', async () => {
+		const result = await lookUpJohn(newCall())
+		assert.equal(result.status, 'success')
+		assert.equal(result.companyId, 1001)
+		assert.equal(result.contactId, 2001)
+	})
+
+	it('reports an unknown organization as not found', async () => {
+		const call = newCall()
+		const result = body(
+			await lookupCompanyContactHandler(
+				{ firstName: 'John', lastName: 'Smith', organizationName: 'No Such Company Ltd', externalID: call.externalID },
+				call.sessionId
+			)
+		)
+		assert.equal(result.status, 'not_found')
+	})
+
+	it('does not name the contact found by email address until the caller is verified', async () => {
+		const call = newCall()
+		const found = body(
+			await lookupCompanyContactHandler({ emailAddress: 'john dot smith at acme dot example', externalID: call.externalID }, call.sessionId)
+		)
+		assert.equal(found.status, 'success')
+		assert.equal(found.contactId, 2001)
+		assert.equal(found.contactName, undefined)
+		assert.equal(found.companyName, undefined)
+		assert.doesNotMatch(String(found.message), /John|Acme/)
+
+		const shared = body(
+			await lookupCompanyContactHandler({ emailAddress: 'dispatch@acmelogistics.example', externalID: newCall().externalID })
+		)
+		assert.equal(shared.status, 'multiple_matches')
+		assert.equal(shared.matches, undefined)
+		assert.equal(shared.companyName, undefined)
+
+		const verified = body(await verifyCallerHandler({ phoneNumber: '555 101 0001', externalID: call.externalID }, call.sessionId))
+		assert.equal(verified.verified, true)
+		assert.equal(verified.contactName, 'John Smith')
+		assert.equal(verified.companyName, 'Acme Corporation')
+	})
+})
+
+/**
+ * Looks a caller up by the email address they give.
+ */
+async function lookUpByEmail(emailAddress: string) {
+	return body(await lookupCompanyContactHandler({ emailAddress, externalID: newCall().externalID }))
+}
+
+describe('email lookup', () => {
+	it('finds a contact by any of their addresses, as spoken', async () => {
+		const found = await lookUpByEmail('Bob at Acme Logistics dot example')
+		assert.equal(found.status, 'success')
+		assert.equal(found.contactId, 2003)
+		assert.equal(found.companyId, 1002)
+
+		const robert = mock.server.getRecords('Contacts').find((contact) => contact.id === 2003)
+		assert.ok(robert)
+		robert.emailAddress3 = 'robert.jones@personal.example'
+		assert.equal((await lookUpByEmail('robert.jones@personal.example')).contactId, 2003)
+	})
+
+	it('ignores inactive contacts, unknown addresses and what is not an address', async () => {
+		assert.equal((await lookUpByEmail('former@acme.example')).status, 'not_found')
+		assert.equal((await lookUpByEmail('nobody@acme.example')).status, 'not_found')
+		assert.match(String((await lookUpByEmail('john smith')).error), /not a valid email address/)
+	})
+})
+
+/**
+ * Looks a caller up by the number they are calling from.
+ */
+async function lookUpByPhone(phoneNumber: string) {
+	return body(await lookupContactByPhoneHandler({ phoneNumber, externalID: newCall().externalID }))
+}
+
+describe('caller ID lookup', () => {
+	it('finds a contact by any of their numbers, however they are written', async () => {
+		const office = await lookUpByPhone('+1 (555) 101-0001')
+		assert.equal(office.status, 'success')
+		assert.equal(office.contactId, 2001)
+		assert.equal(office.companyName, 'Acme Corporation')
+
+		assert.equal((await lookUpByPhone('5551010002')).contactId, 2001)
+		assert.equal((await lookUpByPhone('+15551020009')).contactId, 2003)
+	})
+
+	it('ignores inactive contacts and unknown numbers', async () => {
+		assert.equal((await lookUpByPhone('555-101-0099')).status, 'not_found')
+		assert.equal((await lookUpByPhone('555-999-0000')).status, 'not_found')
+	})
+
+	it('asks who is calling when several contacts share the number', async () => {
+		const maria = mock.server.getRecords('Contacts').find((contact) => contact.id === 2006)
+		assert.ok(maria)
+		maria.phone = '555-102-0001'
+
+		const shared = await lookUpByPhone('+15551020001')
+		assert.equal(shared.status, 'multiple_matches')
+		assert.equal(shared.contactId, undefined)
+	})
+})
+
+/**
+ * Looks up Peter Gibbons, who is not yet a contact of Acme Corporation, with
+ * the callback details needed to set him up.
+ */
+async function lookUpPeter(call: { sessionId: string; externalID: string }) {
+	return body(
+		await lookupCompanyContactHandler(
+			{
+				firstName: 'Peter',
+				lastName: 'Gibbons',
+				organizationName: 'Acme Corporation',
+				contactPhone: '555 777 1234',
+				contactEmail: 'peter.gibbons@acme.example',
+				confirmedNew: true,
+				externalID: call.externalID
+			},
+			call.sessionId
+		)
+	)
+}
+
+describe('verification', () => {
+	it('refuses ticket tools until the caller is verified', async () => {
+		const call = newCall()
+		await lookUpJohn(call)
+
+		const before = await listOpenTicketsHandler({ externalID: call.externalID }, call.sessionId)
+		assert.equal(body(before).status, 'verification_required')
+
+		const verified = body(
+			await verifyCallerHandler({ emailAddress: 'john dot smith at acme dot example', externalID: call.externalID }, call.sessionId)
+		)
+		assert.equal(verified.verified, true)
+
+		const listed = body(await listOpenTicketsHandler({ externalID: call.externalID }, call.sessionId))
+		assert.equal(listed.status, 'success')
+		assert.equal(listed.totalOpen, 1)
+	})
+
+	it('gives no hints on a failed attempt and locks the call after too many', async () => {
+		const call = newCall()
+		await lookUpJohn(call)
+
+		let result: Record<string, unknown> = {}
+		for (let attempt = 0; attempt < 5 && !result.locked; attempt++) {
+			result = body(await verifyCallerHandler({ phoneNumber: '555 000 0000', externalID: call.externalID }, call.sessionId))
+			assert.equal(result.verified, false)
+			assert.equal(result.emailHint, undefined)
+			assert.equal(result.phoneHint, undefined)
+		}
+		assert.equal(result.locked, true)
+
+		// Another call for the same contact is not locked out
+		const other = newCall()
+		await lookUpJohn(other)
+		const verified = body(await verifyCallerHandler({ phoneNumber: '+1 555 101 0001', externalID: other.externalID }, other.sessionId))
+		assert.equal(verified.verified, true)
+	})
+
+	it('locks every call out of a contact after too many failures across calls', async () => {
+		const maxFailures = config.verification.contactMaxFailures
+		config.verification.contactMaxFailures = 4
+		try {
+			const lookUpJane = async (call: { sessionId: string; externalID: string }) =>
+				lookupCompanyContactHandler(
+					{ firstName: 'Jane', lastName: 'Doe', organizationName: 'Acme Corporation', externalID: call.externalID },
+					call.sessionId
+				)
+			const guess = async (call: { sessionId: string; externalID: string }, phoneNumber: string) =>
+				body(await verifyCallerHandler({ phoneNumber, externalID: call.externalID }, call.sessionId))
+
+			// Hanging up after each locked call does not buy more guesses
+			for (const attempts of [3, 1]) {
+				const call = newCall()
+				await lookUpJane(call)
+				for (let attempt = 0; attempt < attempts; attempt++) {
+					assert.equal((await guess(call, '555 000 0000')).verified, false)
+				}
+			}
+
+			const call = newCall()
+			await lookUpJane(call)
+			const result = await guess(call, '555 101 0003')
+			assert.equal(result.verified, false)
+			assert.equal(result.locked, true)
+		} finally {
+			config.verification.contactMaxFailures = maxFailures
+		}
+	})
+
+	it('matches an international number said with its country code', async () => {
+		const contact = mock.server.getRecords('Contacts').find((record) => record.id === 2003)
+		assert.ok(contact)
+		contact.mobilePhone = '+44 20 7946 0958'
+
+		const call = newCall()
+		await lookupCompanyContactHandler(
+			{ firstName: 'Robert', lastName: 'Jones', organizationName: 'Acme Logistics LLC', externalID: call.externalID },
+			call.sessionId
+		)
+		const result = body(
+			await verifyCallerHandler({ phoneNumber: 'plus four four 20 7946 0958', externalID: call.externalID }, call.sessionId)
+		)
+		assert.equal(result.verified, true)
+	})
+
+	it('makes a caller whose contact is pending review from an earlier call verify', async () => {
+		const policy = config.contacts.creationPolicy
+		config.contacts.creationPolicy = 'inactive'
+		try {
+			const created = await lookUpPeter(newCall())
+			assert.equal(created.isNew, true)
+			assert.equal(created.pendingReview, true)
+
+			const call = newCall()
+			const reused = await lookUpPeter(call)
+			assert.equal(reused.contactId, created.contactId)
+			assert.equal(reused.isNew, false)
+			assert.equal(reused.pendingReview, true)
+
+			const before = body(await listOpenTicketsHandler({ externalID: call.externalID }, call.sessionId))
+			assert.equal(before.status, 'verification_required')
+
+			const verified = body(await verifyCallerHandler({ phoneNumber: '555 777 1234', externalID: call.externalID }, call.sessionId))
+			assert.equal(verified.verified, true)
+			const listed = body(await listOpenTicketsHandler({ externalID: call.externalID }, call.sessionId))
+			assert.equal(listed.status, 'not_found')
+			assert.equal(listed.totalOpen, 0)
+		} finally {
+			config.contacts.creationPolicy = policy
+		}
+	})
+
+	it('does not share a verified caller with another session passing the same call ID', async () => {
+		const call = newCall()
+		await lookUpJohn(call)
+		await verifyCallerHandler({ emailAddress: 'john.smith@acme.example', externalID: call.externalID }, call.sessionId)
+
+		const other = { ...newCall(), externalID: call.externalID }
+		const result = await getTicketHandler({ ticketId: '3001', externalID: other.externalID }, other.sessionId)
+		assert.equal(result.isError, true)
+		assert.equal(body(result).status, 'error')
+
+		const listed = body(await listOpenTicketsHandler({ externalID: call.externalID }, call.sessionId))
+		assert.equal(listed.status, 'success')
+	})
+
+	it('refuses IDs the agent supplies before any lookup', async () => {
+		const call = newCall()
+		const result = await getTicketHandler({ ticketId: '3001', companyId: '1001', externalID: call.externalID }, call.sessionId)
+		assert.equal(result.isError, true)
+		assert.equal(body(result).status, 'error')
+	})
+})
+
+describe('tickets', () => {
+	it('creates a ticket for a verified caller and reads it back', async () => {
+		const call = newCall()
+		await lookUpJohn(call)
+		await verifyCallerHandler({ emailAddress: 'john.smith@acme.example', externalID: call.externalID }, call.sessionId)
+
+		const created = body(
+			await createTicketHandler(
+				{
+					contactName: 'John Smith',
+					issueDescription: 'Outlook keeps asking for a password',
+					preferredContactMethod: 'email',
+					title: 'Outlook password prompts',
+					ticketType: 'Service Request',
+					priority: 'Medium',
+					requestCategory: 'other',
+					externalID: call.externalID
+				},
+				call.sessionId
+			)
+		)
+		assert.equal(created.status, 'success')
+		const ticket = mock.server.getRecords('Tickets').find((record) => String(record.id) === String(created.ticketId))
+		assert.equal(ticket?.companyID, 1001)
+		assert.equal(ticket?.contactID, 2001)
+
+		const fetched = body(await getTicketHandler({ ticketId: String(created.ticketId), externalID: call.externalID }, call.sessionId))
+		assert.equal(fetched.status, 'success')
+		assert.equal(fetched.title, 'Outlook password prompts')
+	})
+
+	it('does not change an existing contact\'s details for an unverified caller', async () => {
+		const call = newCall()
+		await lookUpJohn(call)
+
+		await createTicketHandler(
+			{
+				contactName: 'John Smith',
+				contactEmail: 'attacker@evil.example',
+				issueDescription: 'Please reset my password',
+				preferredContactMethod: 'email',
+				title: 'Password reset',
+				ticketType: 'Service Request',
+				priority: 'Medium',
+				requestCategory: 'other',
+				externalID: call.externalID
+			},
+			call.sessionId
+		)
+
+		const contact = mock.server.getRecords('Contacts').find((record) => record.id === 2001)
+		assert.equal(contact?.emailAddress, 'john.smith@acme.example')
+	})
+
+	it('limits a contact created on this call to its own tickets', async () => {
+		const call = newCall()
+		const created = await lookUpPeter(call)
+		assert.equal(created.isNew, true)
+
+		const colleagues = body(await getTicketHandler({ ticketId: '3001', externalID: call.externalID }, call.sessionId))
+		assert.equal(colleagues.status, 'not_found')
+
+		// Matching the details the contact was just created with changes nothing
+		const verified = body(await verifyCallerHandler({ phoneNumber: '555 777 1234', externalID: call.externalID }, call.sessionId))
+		assert.equal(verified.verified, true)
+		const after = body(await getTicketHandler({ ticketId: '3001', externalID: call.externalID }, call.sessionId))
+		assert.equal(after.status, 'not_found')
+
+		const updated = body(
+			await updateTicketHandler(
+				{ ticketId: '3001', transition: 'escalate', reason: 'Nobody can print', externalID: call.externalID },
+				call.sessionId
+			)
+		)
+		assert.equal(updated.status, 'not_found')
+		const ticket = mock.server.getRecords('Tickets').find((record) => record.id === 3001)
+		assert.equal(ticket?.status, 1)
+	})
+
+	it('does not return another company\'s ticket', async () => {
+		const call = newCall()
+		const result = body(
+			await lookupCompanyContactHandler(
+				{ firstName: 'Robert', lastName: 'Jones', organizationName: 'Acme Logistics LLC', externalID: call.externalID },
+				call.sessionId
+			)
+		)
+		assert.equal(result.contactId, 2003)
+		await verifyCallerHandler({ emailAddress: 'bob@acmelogistics.example', externalID: call.externalID }, call.sessionId)
+
+		const fetched = body(await getTicketHandler({ ticketId: '3001', externalID: call.externalID }, call.sessionId))
+		assert.equal(fetched.status, 'not_found')
+	})
+})
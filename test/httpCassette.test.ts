@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Replays a recorded cassette against the tool handlers, with
+ * no Autotask server running.
+ *
+ * `cassettes/openTickets.jsonl` was recorded against the mock Autotask server
+ * (`HTTP_CASSETTE_MODE=record`, `AUTOTASK_MOCK_URL=http://127.0.0.1:4010`)
+ * while listing the open tickets of contacts 2001 and 2002 and fetching
+ * ticket 3001. Re-record it the same way if the handlers' requests change.
+ * Personal data such as names and phone numbers is replaced by pseudonyms in
+ * the cassette, so replayed responses carry the pseudonyms.
+ * @module test/httpCassette
+ */
+import assert from 'node:assert/strict'
+import { rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+
+const outboxPath = join(tmpdir(), `autotask-mcp-outbox-${process.pid}.jsonl`)
+
+Object.assign(process.env, {
+	HTTP_CASSETTE_MODE: 'replay',
+	HTTP_CASSETTE_PATH: join(import.meta.dirname, 'cassettes/openTickets.jsonl'),
+	AUTOTASK_MOCK_URL: 'http://127.0.0.1:4010',
+	TENANTS_FILE: '.tenants.test-none.json',
+	OUTBOX_PATH: outboxPath,
+	LOG_LEVEL: 'silent'
+})
+
+const { callContexts } = await import('../src/mcp/callContext.js')
+const { listOpenTicketsHandler } = await import('../src/mcp/tools/listOpenTickets.js')
+const { getTicketHandler } = await import('../src/mcp/tools/getTicket.js')
+const { pseudonymize, redactJson } = await import('../src/api/httpCassette.js')
+
+after(() => rmSync(outboxPath, { force: true }))
+
+/**
+ * Parses a tool result's JSON body.
+ */
+function body(result: CallToolResult): Record<string, unknown> {
+	const [content] = result.content
+	return JSON.parse(content.type === 'text' ? content.text : '')
+}
+
+/**
+ * Sets up a call whose caller is identified and verified, as the lookup and
+ * verification tools would have.
+ */
+function verifiedCall(callId: string, contactId: number) {
+	const ref = { sessionId: callId, callId }
+	callContexts.identify(ref, { companyId: 1001, contactId })
+	callContexts.markVerified(ref, { companyId: 1001, contactId })
+	return callId
+}
+
+describe('cassette replay', () => {
+	it('serves each query the response recorded for its body, in any order', async () => {
+		// Recorded for contact 2001 first; replayed for contact 2002 first
+		const second = body(await listOpenTicketsHandler({ externalID: verifiedCall('call-b', 2002) }, 'call-b'))
+		const first = body(await listOpenTicketsHandler({ externalID: verifiedCall('call-a', 2001) }, 'call-a'))
+
+		assert.deepEqual(
+			(second.tickets as Array<{ ticketId: number }>).map((ticket) => ticket.ticketId),
+			[3002]
+		)
+		assert.deepEqual(
+			(first.tickets as Array<{ ticketId: number }>).map((ticket) => ticket.ticketId),
+			[3001]
+		)
+		// Personal data was pseudonymized when recording, and replays as the pseudonyms
+		const tech = `${pseudonymize('firstName', 'Alex')} ${pseudonymize('lastName', 'Tech')}`
+		assert.equal(first.summary, `One open ticket: "Printer not working", last updated January 2, 2024, New with ${tech}.`)
+	})
+
+	it('replays a ticket lookup', async () => {
+		const ticket = body(await getTicketHandler({ ticketId: '3001', externalID: verifiedCall('call-c', 2001) }, 'call-c'))
+		assert.equal(ticket.status, 'success')
+		assert.equal(ticket.ticketNumber, 'T20240101.0001')
+		assert.equal(ticket.transferPhone, pseudonymize('mobilePhone', '555-900-1001'))
+		assert.match(String(ticket.transferPhone), /^\d{3}-\d{3}-1001$/)
+	})
+
+	it('fails requests the cassette does not hold, without retrying', async () => {
+		const started = Date.now()
+		const result = await getTicketHandler({ ticketId: '3002', externalID: verifiedCall('call-d', 2002) }, 'call-d')
+		assert.equal(result.isError, true)
+		assert.match(String(body(result).error), /No recorded HTTP interaction/)
+		assert.ok(Date.now() - started < 500)
+	})
+
+	it('gives equal values equal pseudonyms of the same shape', () => {
+		const contact = redactJson({
+			firstName: 'John',
+			lastName: 'Smith',
+			contactName: 'john smith',
+			emailAddress: 'John.Smith@acme.example',
+			phone: '(555) 101-0001'
+		}) as Record<string, string>
+
+		assert.equal(contact.contactName, `${contact.firstName} ${contact.lastName}`)
+		assert.notEqual(contact.firstName, 'John')
+		assert.match(contact.emailAddress, /^[a-z]+@acme\.example$/)
+		assert.equal(contact.emailAddress, pseudonymize('email', 'john.smith@acme.example'))
+		assert.match(contact.phone, /^\(\d{3}\) \d{3}-0001$/)
+		assert.deepEqual(
+			redactJson({ filter: [{ op: 'eq', field: 'firstName', value: 'John' }] }),
+			{ filter: [{ op: 'eq', field: 'firstName', value: contact.firstName }] }
+		)
+	})
+})
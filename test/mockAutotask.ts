@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Test helper that starts the mock Autotask server in-process
+ * and points the application's settings at it.
+ *
+ * Settings (including the log level) are read when application modules are
+ * first imported, so test files call {@link startMockAutotask} before
+ * importing them with `await import(...)`.
+ *
+ * @module test/mockAutotask
+ *
+ * @example
+ * ```typescript
+ * const mock = await startMockAutotask()
+ * const { getTicketById } = await import('../src/api/autotask.js')
+ * after(() => mock.close())
+ * ```
+ */
+import express from 'express'
+import type { AddressInfo } from 'node:net'
+import { rmSync } from 'node:fs'
+import type { Server } from 'node:http'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { MockAutotaskServer } from '../src/mock/autotaskMock.js'
+
+/**
+ * A running mock, with the requests it received.
+ */
+export interface RunningMock {
+	/** The mock, for fault injection and record assertions */
+	server: MockAutotaskServer
+	/** Base URL (e.g., 'http://127.0.0.1:41234') */
+	url: string
+	/** `METHOD path` of every request received, oldest first */
+	requests: string[]
+	/** Stops the server and removes the outbox file the tests used */
+	close(): Promise<void>
+}
+
+/**
+ * Starts the mock on a free port, recording each request, and sets the
+ * environment so the application talks to it.
+ *
+ * @param env - Further settings for the application under test
+ * @returns The running mock
+ */
+export async function startMockAutotask(env: Record<string, string> = {}): Promise<RunningMock> {
+	process.env.LOG_LEVEL = env.LOG_LEVEL ?? 'silent'
+	const { MockAutotaskServer } = await import('../src/mock/autotaskMock.js')
+	const { defaultSeed } = await import('../src/mock/fixtures.js')
+	const server = new MockAutotaskServer(defaultSeed)
+	const requests: string[] = []
+
+	const app = express()
+	app.use((req, _res, next) => {
+		requests.push(`${req.method} ${req.path}`)
+		next()
+	})
+	app.use(server.app)
+
+	const http = await new Promise<Server>((resolve) => {
+		const listening = app.listen(0, '127.0.0.1', () => resolve(listening))
+	})
+	const url = `http://127.0.0.1:${(http.address() as AddressInfo).port}`
+	const outboxPath = join(tmpdir(), `autotask-mcp-outbox-${process.pid}.jsonl`)
+
+	Object.assign(process.env, {
+		AUTOTASK_MOCK_URL: url,
+		AUTOTASK_RETRY_BASE_DELAY_MS: '5',
+		AUTOTASK_MAX_RETRY_AFTER_MS: '20',
+		TICKET_ASSIGNMENT_DEADLINE_MS: '50',
+		TENANTS_FILE: '.tenants.test-none.json',
+		OUTBOX_PATH: outboxPath,
+		...env
+	})
+
+	return {
+		server,
+		url,
+		requests,
+		close: async () => {
+			await server.close()
+			await new Promise<void>((resolve) => http.close(() => resolve()))
+			rmSync(outboxPath, { force: true })
+		}
+	}
+}
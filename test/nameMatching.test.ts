@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Tests of fuzzy name matching as speech-to-text and callers
+ * give names: company names with legal forms, word breaks and sound-alike
+ * spellings, and people's names with nicknames and misspellings.
+ * @module test/nameMatching
+ */
+import assert from 'node:assert/strict'
+import { after, describe, it } from 'node:test'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask()
+const { companyNameSimilarity, companyNameTokens, isNickname, matchConfidence, personNameSimilarity, phoneticKey } =
+	await import('../src/utils/nameMatching.js')
+const { lookupCompanyContactHandler } = await import('../src/mcp/tools/lookupCompanyContact.js')
+const { rankContactCandidates } = await import('../src/api/contactMatching.js')
+
+after(() => mock.close())
+
+/**
+ * Parses a tool result's JSON body.
+ */
+function body(result: CallToolResult): Record<string, unknown> {
+	const [content] = result.content
+	return JSON.parse(content.type === 'text' ? content.text : '')
+}
+
+describe('company names', () => {
+	it('ignores legal forms, punctuation and how numbers are written', () => {
+		assert.deepEqual(companyNameTokens('ACME, Inc.'), ['acme'])
+		assert.deepEqual(companyNameTokens('Layer Seven Systems LLC'), ['layer', '7', 'systems'])
+		assert.equal(companyNameSimilarity('Layer Seven Systems LLC', 'Layer7 Systems'), 1)
+		assert.equal(companyNameSimilarity('Acme Incorporated', 'ACME Inc.'), 1)
+	})
+
+	it('matches word breaks and sound-alike spellings, but not different names', () => {
+		assert.equal(phoneticKey('northwynd'), phoneticKey('northwind'))
+		assert.equal(matchConfidence(companyNameSimilarity('North Wind', 'Northwind')), 'exact')
+		assert.equal(matchConfidence(companyNameSimilarity('Glowbex', 'Globex Inc')), 'high')
+		assert.equal(matchConfidence(companyNameSimilarity('Initech', 'Globex Inc')), 'low')
+	})
+
+	it('finds the company a caller names with a transcription error', async () => {
+		const found = body(
+			await lookupCompanyContactHandler({
+				firstName: 'John',
+				lastName: 'Smith',
+				organizationName: 'Akme Corporation',
+				externalID: 'call-company-names'
+			})
+		)
+		assert.equal(found.status, 'success')
+		assert.equal(found.companyId, 1001)
+	})
+})
+
+/**
+ * Confidence of a heard name against a name on record.
+ */
+function confidence(heard: [string, string], stored: [string, string]) {
+	const score = personNameSimilarity(
+		{ firstName: heard[0], lastName: heard[1] },
+		{ firstName: stored[0], lastName: stored[1] }
+	)
+	return matchConfidence(score)
+}
+
+describe('people\'s names', () => {
+	it('accepts nicknames for first names only', () => {
+		assert.equal(isNickname('Bob', 'robert'), true)
+		assert.equal(isNickname('Bob', 'John'), false)
+		assert.equal(confidence(['Bob', 'Jones'], ['Robert', 'Jones']), 'high')
+		assert.equal(confidence(['Robert', 'Bob'], ['Robert', 'Robert']), 'low')
+	})
+
+	it('tolerates a misspelt last name, but does not confuse short similar-sounding names', () => {
+		assert.equal(confidence(['John', 'Smyth'], ['John', 'Smith']), 'high')
+		assert.notEqual(confidence(['Jane', 'Doe'], ['John', 'Doe']), 'high')
+	})
+
+	it('ranks a company\'s contacts by how well they match the name heard', async () => {
+		const [best, ...others] = await rankContactCandidates(1002, 'Bob', 'Jones')
+		assert.equal(best.id, 2003)
+		assert.equal(best.confidence, 'high')
+		assert.ok(others.every((other) => other.score < best.score))
+
+		assert.deepEqual(await rankContactCandidates(1002, 'Zelda', 'Quartermaine'), [])
+	})
+})
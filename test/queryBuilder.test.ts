@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Tests of the query builder: the filter bodies it produces,
+ * field validation against entity metadata, and running queries against the
+ * mock Autotask server.
+ * @module test/queryBuilder
+ */
+import assert from 'node:assert/strict'
+import { after, describe, it } from 'node:test'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask()
+const { query, QueryValidationError } = await import('../src/api/queryBuilder.js')
+type TicketDetails = import('../src/api/autotask.js').TicketDetails
+
+after(() => mock.close())
+
+describe('query builder', () => {
+	it('builds nested groups, lists and date ranges in the Autotask grammar', () => {
+		const body = query<TicketDetails>('Tickets')
+			.eq('companyID', 1001)
+			.notIn('status', [5])
+			.or((group) => group.eq('contactID', 2001).exists('assignedResourceID'))
+			.and(() => {})
+			.between('createDate', new Date('2024-01-01T00:00:00Z'), new Date('2024-02-01T00:00:00Z'))
+			.includeFields('id', 'title')
+			.maxRecords(1000)
+			.build()
+
+		assert.deepEqual(body, {
+			filter: [
+				{ op: 'eq', field: 'companyID', value: 1001 },
+				{ op: 'notIn', field: 'status', value: [5] },
+				{
+					op: 'or',
+					items: [
+						{ op: 'eq', field: 'contactID', value: 2001 },
+						{ op: 'exist', field: 'assignedResourceID' }
+					]
+				},
+				{ op: 'gte', field: 'createDate', value: '2024-01-01T00:00:00.000Z' },
+				{ op: 'lt', field: 'createDate', value: '2024-02-01T00:00:00.000Z' }
+			],
+			includeFields: ['id', 'title'],
+			MaxRecords: 500
+		})
+	})
+
+	it('runs a query and counts its matches', async () => {
+		const open = query<TicketDetails>('Tickets').eq('companyID', 1001).notIn('status', [5])
+		const tickets = await open.includeFields('id', 'title').execute()
+
+		assert.deepEqual(tickets.map((ticket) => ticket.id).sort(), [3001, 3002])
+		assert.equal(await query<TicketDetails>('Tickets').in('companyID', [1001, 1002]).count(), 3)
+	})
+
+	it('refuses fields the entity does not have, before sending the query', async () => {
+		const before = mock.requests.filter((request) => request.includes('/Tickets/query')).length
+		const misspelt = query<TicketDetails, string>('Tickets')
+			.eq('company', 1001)
+			.or((group) => group.eq('contactID', 2001).eq('requester', 'John'))
+
+		await assert.rejects(misspelt.execute(), (error: unknown) => {
+			assert.ok(error instanceof QueryValidationError)
+			assert.deepEqual(error.fields.sort(), ['company', 'requester'])
+			return true
+		})
+		assert.equal(mock.requests.filter((request) => request.includes('/Tickets/query')).length, before)
+	})
+})
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Tests of the adaptive rate limiter: the concurrency cap, the
+ * token bucket, threshold refreshes and backing off near the threshold.
+ * @module test/rateLimiter
+ */
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+Object.assign(process.env, { LOG_LEVEL: 'silent' })
+
+const { AdaptiveRateLimiter } = await import('../src/api/rateLimiter.js')
+type ThresholdInformation = import('../src/api/rateLimiter.js').ThresholdInformation
+
+/**
+ * Options that never delay a request unless a test asks for it.
+ */
+const OPTIONS = {
+	maxConcurrent: 10,
+	burstSize: 100,
+	defaultHourlyThreshold: 10_000,
+	backoffStartRatio: 0.8,
+	maxBackoffMs: 40,
+	refreshIntervalMs: 60_000
+}
+
+/**
+ * Threshold information as Autotask reports it.
+ */
+function threshold(externalRequestThreshold: number, currentTimeframeRequestCount: number): ThresholdInformation {
+	return { externalRequestThreshold, requestThresholdTimeframe: 60, currentTimeframeRequestCount }
+}
+
+/**
+ * Lets pending promise callbacks and timers run.
+ */
+function settle(): Promise<void> {
+	return new Promise((resolve) => setImmediate(resolve))
+}
+
+describe('rate limiter', () => {
+	it('holds requests beyond the concurrency cap until a slot is released', async () => {
+		const limiter = new AdaptiveRateLimiter({ ...OPTIONS, maxConcurrent: 2 }, async () => threshold(10_000, 0))
+		const first = await limiter.acquire()
+		await limiter.acquire()
+
+		let third = false
+		const waiting = limiter.acquire().then((release) => {
+			third = true
+			return release
+		})
+		await settle()
+		assert.equal(third, false)
+		assert.equal(limiter.getUsage().queued, 1)
+
+		// Releasing twice frees only the one slot
+		first()
+		first()
+		;(await waiting)()
+		assert.equal(third, true)
+		assert.equal(limiter.getUsage().inFlight, 1)
+	})
+
+	it('waits for a token once the burst is used up', async () => {
+		// 36,000 an hour refills a token every 100ms
+		const limiter = new AdaptiveRateLimiter({ ...OPTIONS, burstSize: 2 }, async () => threshold(36_000, 0))
+		;(await limiter.acquire())()
+		;(await limiter.acquire())()
+
+		const started = Date.now()
+		;(await limiter.acquire())()
+		assert.ok(Date.now() - started >= 80)
+	})
+
+	it('adopts the threshold Autotask reports, counting requests made since', async () => {
+		let report: (info: ThresholdInformation) => void = () => {}
+		const limiter = new AdaptiveRateLimiter(OPTIONS, () => new Promise((resolve) => (report = resolve)))
+
+		;(await limiter.acquire())()
+		report(threshold(500, 40))
+		await settle()
+		;(await limiter.acquire())()
+
+		const usage = limiter.getUsage()
+		assert.equal(usage.threshold, 500)
+		assert.equal(usage.estimatedRequestCount, 41)
+		assert.notEqual(usage.lastRefreshedAt, null)
+	})
+
+	it('slows requests down as usage approaches the threshold', async () => {
+		let report: (info: ThresholdInformation) => void = () => {}
+		const limiter = new AdaptiveRateLimiter(
+			{ ...OPTIONS, backoffStartRatio: 0.5 },
+			() => new Promise((resolve) => (report = resolve))
+		)
+		;(await limiter.acquire())()
+		report(threshold(100, 75))
+		await settle()
+
+		// Halfway from 50% usage to the threshold: 40ms * 0.5²
+		assert.equal(limiter.getUsage().currentBackoffMs, 10)
+		const started = Date.now()
+		;(await limiter.acquire())()
+		assert.ok(Date.now() - started >= 9)
+	})
+
+	it('keeps the default threshold when a refresh fails, and does not retry it at once', async () => {
+		let fetches = 0
+		const limiter = new AdaptiveRateLimiter(OPTIONS, async () => {
+			fetches++
+			throw new Error('Service unavailable')
+		})
+
+		;(await limiter.acquire())()
+		await settle()
+		;(await limiter.acquire())()
+
+		assert.equal(fetches, 1)
+		assert.equal(limiter.getUsage().threshold, OPTIONS.defaultHourlyThreshold)
+	})
+})
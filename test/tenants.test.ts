@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Tests of the tenant registry: loading and reloading
+ * `.tenants.json`, and keeping a session's tools to its tenant's companies.
+ * @module test/tenants
+ */
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { startMockAutotask } from './mockAutotask.js'
+
+const directory = mkdtempSync(join(tmpdir(), 'autotask-mcp-tenants-test-'))
+const tenantsFile = join(directory, 'tenants.json')
+
+const mock = await startMockAutotask({ TENANTS_FILE: tenantsFile })
+const { TenantRegistry, tenants } = await import('../src/tenants.js')
+const { lookupCompanyContactHandler } = await import('../src/mcp/tools/lookupCompanyContact.js')
+
+after(async () => {
+	rmSync(directory, { recursive: true, force: true })
+	await mock.close()
+})
+
+/**
+ * Acme Corporation's tenant entry.
+ */
+const ACME = { companyId: 1001, queueId: 29683, name: 'Acme Corporation', token: 'acme-token-0123456789' }
+
+/**
+ * Writes a registry file, moving its modification time on so a watcher
+ * sees the change.
+ */
+function writeTenants(path: string, list: unknown[], modifiedAt = new Date()) {
+	writeFileSync(path, JSON.stringify(list))
+	utimesSync(path, modifiedAt, modifiedAt)
+}
+
+/**
+ * A registry reading its own file.
+ */
+function registry(name: string, reloadIntervalMs = 60_000) {
+	return new TenantRegistry({ path: join(directory, name), reloadIntervalMs })
+}
+
+/**
+ * Parses a tool result's JSON body.
+ */
+function body(result: CallToolResult): Record<string, unknown> {
+	const [content] = result.content
+	return JSON.parse(content.type === 'text' ? content.text : '')
+}
+
+describe('tenant registry', () => {
+	it('finds tenants by company and by token', () => {
+		writeTenants(join(directory, 'lookup.json'), [ACME])
+		const registered = registry('lookup.json')
+		assert.equal(registered.load(), true)
+
+		assert.equal(registered.byCompanyId(1001)?.queueId, 29683)
+		assert.equal(registered.byToken('acme-token-0123456789')?.companyId, 1001)
+		assert.equal(registered.byToken('acme-token-9876543210'), undefined)
+	})
+
+	it('keeps the previous tenants when the file becomes invalid', () => {
+		const path = join(directory, 'invalid.json')
+		writeTenants(path, [ACME])
+		const registered = registry('invalid.json')
+		registered.load()
+
+		writeTenants(path, [ACME, { ...ACME, name: 'Acme again', token: undefined }])
+		assert.equal(registered.load(), false)
+		assert.equal(registered.size, 1)
+		assert.equal(registered.byCompanyId(1001)?.name, 'Acme Corporation')
+	})
+
+	it('applies a reload to sessions already bound, and fails them once their tenant is removed', () => {
+		const path = join(directory, 'reload.json')
+		writeTenants(path, [ACME])
+		const registered = registry('reload.json')
+		registered.load()
+		registered.bindSession('session-1', ACME)
+
+		writeTenants(path, [{ ...ACME, queueId: 29684 }])
+		registered.load()
+		assert.equal(registered.forSession('session-1')?.queueId, 29684)
+
+		writeTenants(path, [])
+		registered.load()
+		assert.throws(() => registered.forSession('session-1'), /no longer configured/)
+		assert.equal(registered.forSession('session-2'), undefined)
+	})
+
+	it('reloads the file when it changes', async () => {
+		const path = join(directory, 'watched.json')
+		writeTenants(path, [ACME], new Date(Date.now() - 60_000))
+		const registered = registry('watched.json', 10)
+		registered.startWatching()
+		try {
+			writeTenants(path, [ACME, { companyId: 1003, queueId: 29690, name: 'Globex Inc' }])
+			await new Promise((resolve) => setTimeout(resolve, 100))
+			assert.equal(registered.byCompanyId(1003)?.name, 'Globex Inc')
+		} finally {
+			registered.stopWatching()
+		}
+	})
+})
+
+describe('tenant binding', () => {
+	/**
+	 * Looks Robert Jones of Acme Logistics up on a session bound to Acme
+	 * Corporation's tenant.
+	 */
+	async function lookUpRobertForAcme(sessionId: string) {
+		tenants.bindSession(sessionId, ACME)
+		return body(
+			await lookupCompanyContactHandler(
+				{ firstName: 'Robert', lastName: 'Jones', organizationName: 'Acme Logistics', externalID: `call-${sessionId}` },
+				sessionId
+			)
+		)
+	}
+
+	it('keeps a session to its tenant\'s companies', async () => {
+		writeTenants(tenantsFile, [ACME])
+		tenants.load()
+
+		const refused = await lookUpRobertForAcme('bound-1')
+		assert.equal(refused.status, 'not_found')
+		assert.equal(refused.contactId, undefined)
+	})
+
+	it('serves further companies the tenant lists', async () => {
+		writeTenants(tenantsFile, [{ ...ACME, allowedCompanyIds: [1002] }])
+		tenants.load()
+
+		const found = await lookUpRobertForAcme('bound-2')
+		assert.equal(found.status, 'success')
+		assert.equal(found.contactId, 2003)
+	})
+})
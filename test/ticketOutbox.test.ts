@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Tests of the ticket outbox: persistence across restarts,
+ * deduplication, giving up, and what is kept on disk.
+ * @module test/ticketOutbox
+ */
+import assert from 'node:assert/strict'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask()
+const { ticketOutbox } = await import('../src/mcp/tools/createTicket.js')
+const { TicketOutbox } = await import('../src/api/ticketOutbox.js')
+const { AutotaskApiError } = await import('../src/api/autotaskClient.js')
+
+const directory = mkdtempSync(join(tmpdir(), 'autotask-mcp-outbox-test-'))
+
+after(async () => {
+	rmSync(directory, { recursive: true, force: true })
+	await mock.close()
+})
+
+/**
+ * Payload as queued by createTicket, reduced to what the tests look at.
+ */
+interface Payload {
+	contactEmail: string
+}
+
+/**
+ * An outbox in its own file, retrying immediately.
+ */
+function outbox(name: string, options: { maxAttempts?: number; retentionMs?: number } = {}) {
+	return new TicketOutbox<Payload>({
+		path: join(directory, `${name}.jsonl`),
+		retryIntervalMs: 0,
+		maxBackoffMs: 0,
+		maxAttempts: options.maxAttempts ?? 100,
+		maxAgeMs: 60 * 60 * 1000,
+		retentionMs: options.retentionMs ?? 60 * 60 * 1000
+	})
+}
+
+/**
+ * Delivers every payload as ticket 3100.
+ */
+async function deliver() {
+	return { ticketId: '3100', ticketNumber: 'T20260105.0001' }
+}
+
+describe('ticket outbox', () => {
+	it('does not touch its log until first used', () => {
+		assert.equal(existsSync(process.env.OUTBOX_PATH ?? ''), false)
+		ticketOutbox.stats()
+		assert.equal(existsSync(process.env.OUTBOX_PATH ?? ''), true)
+	})
+
+	it('keeps pending tickets across restarts', () => {
+		const entry = outbox('restart').enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+
+		const reloaded = outbox('restart').get(entry.reference.toLowerCase())
+		assert.equal(reloaded?.status, 'pending')
+		assert.deepEqual(reloaded?.payload, { contactEmail: 'john.smith@acme.example' })
+	})
+
+	it('returns the pending entry, then the delivered ticket, for a repeated key', async () => {
+		const queue = outbox('dedupe')
+		const first = queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+		assert.equal(queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' }).reference, first.reference)
+
+		await queue.drain(deliver)
+		const repeated = queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+		assert.equal(repeated.status, 'delivered')
+		assert.equal(repeated.ticketNumber, 'T20260105.0001')
+		assert.equal(queue.stats().pending, 0)
+	})
+
+	it('drops the caller\'s details from disk once delivered', async () => {
+		const queue = outbox('delivered')
+		const entry = queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+		await queue.drain(deliver)
+
+		assert.doesNotMatch(readFileSync(join(directory, 'delivered.jsonl'), 'utf8'), /john\.smith/)
+		assert.equal(outbox('delivered').get(entry.reference)?.ticketId, '3100')
+	})
+
+	it('marks tickets Autotask rejects as failed, and queues them afresh on a retry', async () => {
+		const queue = outbox('rejected')
+		const entry = queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+		await queue.drain(async () => {
+			throw new AutotaskApiError('Invalid queue', { status: 400, retryable: false })
+		})
+
+		assert.equal(queue.get(entry.reference)?.status, 'failed')
+		assert.notEqual(queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' }).reference, entry.reference)
+	})
+
+	it('gives up after the maximum attempts', async () => {
+		const queue = outbox('attempts', { maxAttempts: 2 })
+		const entry = queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+		const unreachable = async () => {
+			throw new AutotaskApiError('Service unavailable', { status: 503, retryable: true })
+		}
+
+		await queue.drain(unreachable)
+		assert.equal(queue.get(entry.reference)?.status, 'pending')
+		await queue.drain(unreachable)
+		assert.equal(queue.get(entry.reference)?.status, 'failed')
+	})
+
+	it('forgets settled tickets after the retention period', async () => {
+		const queue = outbox('retention', { retentionMs: 0 })
+		const delivered = queue.enqueue('call-1:2001', { contactEmail: 'john.smith@acme.example' })
+		await queue.drain(deliver)
+
+		const failed = queue.enqueue('call-2:2002', { contactEmail: 'jane.doe@acme.example' })
+		await queue.drain(async () => {
+			throw new AutotaskApiError('Invalid queue', { status: 400, retryable: false })
+		})
+
+		assert.equal(queue.get(delivered.reference), undefined)
+		assert.equal(queue.get(failed.reference), undefined)
+		assert.deepEqual(queue.stats(), { pending: 0, delivered: 0, failed: 0 })
+		assert.equal(readFileSync(join(directory, 'retention.jsonl'), 'utf8'), '')
+	})
+})
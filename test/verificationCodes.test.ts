@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Tests of one-time verification codes: sending them through
+ * the SMTP stand-in, confirming them, and the per-call send limit.
+ * @module test/verificationCodes
+ */
+import assert from 'node:assert/strict'
+import { randomUUID } from 'node:crypto'
+import { after, describe, it } from 'node:test'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { startMockAutotask } from './mockAutotask.js'
+
+const mock = await startMockAutotask({
+	MAIL_TRANSPORT: 'smtp',
+	MAIL_FROM: 'Service Desk <servicedesk@layer7.example>',
+	SMTP_HOST: '127.0.0.1',
+	SMTP_SECURITY: 'none',
+	SMTP_TIMEOUT_MS: '2000',
+	VERIFY_CODE_MAX_SENDS: '3'
+})
+const { MockSmtpServer } = await import('../src/mock/smtpMock.js')
+const smtp = new MockSmtpServer()
+const smtpPort = await smtp.listen(0)
+process.env.SMTP_PORT = String(smtpPort)
+const { lookupCompanyContactHandler } = await import('../src/mcp/tools/lookupCompanyContact.js')
+const { sendVerificationCodeHandler } = await import('../src/mcp/tools/sendVerificationCode.js')
+const { confirmVerificationCodeHandler } = await import('../src/mcp/tools/confirmVerificationCode.js')
+
+after(async () => {
+	await smtp.close()
+	await mock.close()
+})
+
+/**
+ * Parses a tool result's JSON body.
+ */
+function body(result: CallToolResult): Record<string, unknown> {
+	const [content] = result.content
+	return JSON.parse(content.type === 'text' ? content.text : '')
+}
+
+/**
+ * A fresh call on which John Smith of Acme Corporation has been looked up.
+ */
+async function callFromJohn() {
+	const call = { sessionId: randomUUID(), externalID: `call-${randomUUID()}` }
+	await lookupCompanyContactHandler(
+		{ firstName: 'John', lastName: 'Smith', organizationName: 'Acme Corporation', externalID: call.externalID },
+		call.sessionId
+	)
+	return call
+}
+
+/**
+ * Sends a code on a call.
+ */
+async function send(call: { sessionId: string; externalID: string }) {
+	return body(await sendVerificationCodeHandler({ externalID: call.externalID }, call.sessionId))
+}
+
+/**
+ * Checks a code on a call.
+ */
+async function confirm(call: { sessionId: string; externalID: string }, code: string) {
+	return body(await confirmVerificationCodeHandler({ code, externalID: call.externalID }, call.sessionId))
+}
+
+/**
+ * The code in the last email the SMTP stand-in received.
+ */
+function lastCode(): string {
+	const match = smtp.messages.at(-1)?.data.match(/Your verification code is (\d+)\./)
+	assert.ok(match, 'no verification email received')
+	return match[1]
+}
+
+describe('verification codes', () => {
+	it('emails a code to the contact on file, which confirms the caller', async () => {
+		const call = await callFromJohn()
+		const sent = await send(call)
+		assert.equal(sent.status, 'success')
+		assert.deepEqual(smtp.messages.at(-1)?.to, ['john.smith@acme.example'])
+
+		const code = lastCode()
+		const wrong = await confirm(call, code === '000000' ? '111111' : '000000')
+		assert.equal(wrong.verified, false)
+		assert.equal(wrong.remainingAttempts, 2)
+
+		const right = await confirm(call, code.split('').join(' '))
+		assert.equal(right.verified, true)
+	})
+
+	it('does not confirm a code on another call', async () => {
+		const call = await callFromJohn()
+		await send(call)
+		const other = await callFromJohn()
+		assert.equal((await confirm(other, lastCode())).expired, true)
+	})
+
+	it('stops sending after the limit for the call', async () => {
+		const call = await callFromJohn()
+		for (let i = 0; i < 3; i++) {
+			assert.equal((await send(call)).status, 'success')
+		}
+		const received = smtp.messages.length
+
+		assert.equal((await send(call)).status, 'limit_reached')
+		assert.equal(smtp.messages.length, received)
+	})
+
+	it('does not count a code that could not be emailed, and keeps the one before it', async () => {
+		const call = await callFromJohn()
+		await send(call)
+		const code = lastCode()
+
+		await smtp.close()
+		try {
+			const failed = await sendVerificationCodeHandler({ externalID: call.externalID }, call.sessionId)
+			assert.equal(failed.isError, true)
+		} finally {
+			await smtp.listen(smtpPort)
+		}
+
+		assert.equal((await confirm(call, code)).verified, true)
+		assert.equal((await send(call)).status, 'success')
+		assert.equal((await send(call)).status, 'success')
+		assert.equal((await send(call)).status, 'limit_reached')
+	})
+})